@@ -23,8 +23,8 @@ export default function AuditLogsPage() {
   const [logsLoading, setLogsLoading] = useState(false);
   const [error, setError] = useState('');
   const [total, setTotal] = useState(0);
-  const [hasMore, setHasMore] = useState(false);
-  const [skip, setSkip] = useState(0);
+  const [totalIsApproximate, setTotalIsApproximate] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const limit = 50;
 
   // Redirect if not admin
@@ -37,20 +37,24 @@ export default function AuditLogsPage() {
   }, [status, session, router]);
 
   // Fetch audit logs
-  const fetchAuditLogs = async (skipCount = 0, append = false) => {
+  const fetchAuditLogs = async (cursor: string | null = null) => {
     try {
-      const response = await fetch(`/api/audit-logs?limit=${limit}&skip=${skipCount}`);
+      const params = new URLSearchParams({ limit: String(limit) });
+      if (cursor) params.set('cursor', cursor);
+
+      const response = await fetch(`/api/audit-logs?${params}`);
       const data = await response.json();
       
       if (response.ok) {
-        if (append) {
+        // A cursor continues the list
+        if (cursor) {
           setLogs(prev => [...prev, ...data.logs]);
         } else {
           setLogs(data.logs);
         }
         setTotal(data.total);
-        setHasMore(data.hasMore);
-        setSkip(skipCount);
+        setTotalIsApproximate(data.totalIsApproximate);
+        setNextCursor(data.hasMore ? data.nextCursor : null);
       } else {
         setError(data.error || 'Failed to fetch audit logs');
       }
@@ -69,9 +73,9 @@ export default function AuditLogsPage() {
 
   // Load more logs
   const loadMore = () => {
+    if (!nextCursor) return;
     setLogsLoading(true);
-    const newSkip = skip + limit;
-    fetchAuditLogs(newSkip, true).finally(() => setLogsLoading(false));
+    fetchAuditLogs(nextCursor).finally(() => setLogsLoading(false));
   };
 
   // Format action for display
@@ -94,10 +98,14 @@ export default function AuditLogsPage() {
         return 'bg-yellow-100 text-yellow-800';
       case 'delete_ticket':
         return 'bg-red-100 text-red-800';
+      case 'merge_tickets':
+        return 'bg-teal-100 text-teal-800';
       case 'view_tickets':
         return 'bg-indigo-100 text-indigo-800';
       case 'view_audit_logs':
         return 'bg-pink-100 text-pink-800';
+      case 'update_settings':
+        return 'bg-orange-100 text-orange-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -176,7 +184,7 @@ export default function AuditLogsPage() {
             <div>
               <h1 className="text-3xl font-bold text-gray-900">Audit Logs</h1>
               <p className="text-sm text-gray-600 mt-1">
-                System activity logs ({total} total entries)
+                System activity logs ({total}{totalIsApproximate ? '+' : ''} total entries)
               </p>
             </div>
             <div className="flex space-x-4">
@@ -265,14 +273,14 @@ export default function AuditLogsPage() {
             </div>
 
             {/* Load More Button */}
-            {hasMore && (
+            {nextCursor && (
               <div className="px-6 py-4 border-t border-gray-200">
                 <button
                   onClick={loadMore}
                   disabled={logsLoading}
                   className="w-full px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  {logsLoading ? 'Loading...' : `Load More (${logs.length} of ${total})`}
+                  {logsLoading ? 'Loading...' : `Load More (${logs.length} of ${total}${totalIsApproximate ? '+' : ''})`}
                 </button>
               </div>
             )}
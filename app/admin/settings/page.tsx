@@ -3,6 +3,17 @@
 import { useState, useEffect } from 'react';
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
+import { TagBadge } from '@/components/TagBadge';
+import { CUSTOM_FIELD_TYPES, CustomFieldDefinition, CustomFieldType } from '@/lib/customFields';
+import {
+  OPTION_KIND_LABELS,
+  TICKET_OPTION_KINDS,
+  TicketOption,
+  TicketOptionKind,
+  getActiveOptions,
+  getOptionLabel,
+  getOptionStyle
+} from '@/lib/ticketOptions';
 
 interface DatabaseStatus {
   isConnected: boolean;
@@ -17,6 +28,91 @@ interface DatabaseInfo {
   secondaryUri: string;
 }
 
+interface SlaPolicy {
+  _id: string;
+  name: string;
+  priority: string;
+  category: string | null;
+  firstResponseMinutes: number;
+  resolutionMinutes: number;
+}
+
+interface CatalogTag {
+  _id: string;
+  name: string;
+  color: string;
+  description?: string;
+}
+
+interface CatalogTicketOption extends TicketOption {
+  _id: string;
+}
+
+interface CatalogCustomField extends CustomFieldDefinition {
+  _id: string;
+  sortOrder: number;
+}
+
+interface CalendarDay {
+  enabled: boolean;
+  start: string;
+  end: string;
+}
+
+interface CalendarForm {
+  _id?: string;
+  name: string;
+  timezone: string;
+  active: boolean;
+  days: CalendarDay[]; // indexed by weekday, 0 = Sunday
+  holidays: { date: string; name: string }[];
+}
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const newCalendarForm = (): CalendarForm => ({
+  name: '',
+  timezone: 'UTC',
+  active: true,
+  days: WEEKDAYS.map((_, day) => ({ enabled: day >= 1 && day <= 5, start: '09:00', end: '18:00' })),
+  holidays: []
+});
+
+const emptyTagForm = {
+  name: '',
+  color: '#2563eb',
+  description: ''
+};
+
+const emptyCustomFieldForm = {
+  key: '',
+  label: '',
+  type: 'text' as CustomFieldType,
+  category: 'general',
+  options: '', // comma-separated, for select fields
+  required: false,
+  sortOrder: 0
+};
+
+// Options are edited as comma-separated text and trimmed when saved
+const parseOptions = (options: string[] | string) =>
+  (Array.isArray(options) ? options : options.split(',')).map(option => option.trim()).filter(Boolean);
+
+const emptyOptionForm = {
+  kind: 'category' as TicketOptionKind,
+  value: '',
+  label: '',
+  color: '#6b7280'
+};
+
+const emptySlaForm = {
+  name: '',
+  priority: 'medium',
+  category: '',
+  firstResponseMinutes: 60,
+  resolutionMinutes: 1440
+};
+
 export default function AdminSettingsPage() {
   const { data: session, status } = useSession();
   const router = useRouter();
@@ -33,6 +129,21 @@ export default function AdminSettingsPage() {
     secondary?: { success: boolean; error?: string };
   }>({});
   const [error, setError] = useState('');
+  const [slaPolicies, setSlaPolicies] = useState<SlaPolicy[]>([]);
+  const [slaDefaults, setSlaDefaults] = useState<Record<string, { firstResponseMinutes: number; resolutionMinutes: number }>>({});
+  const [slaForm, setSlaForm] = useState(emptySlaForm);
+  const [savingSla, setSavingSla] = useState(false);
+  const [calendars, setCalendars] = useState<CalendarForm[]>([]);
+  const [savingCalendar, setSavingCalendar] = useState<number | null>(null);
+  const [tags, setTags] = useState<CatalogTag[]>([]);
+  const [tagForm, setTagForm] = useState(emptyTagForm);
+  const [savingTag, setSavingTag] = useState(false);
+  const [ticketOptions, setTicketOptions] = useState<CatalogTicketOption[]>([]);
+  const [optionForm, setOptionForm] = useState(emptyOptionForm);
+  const [savingOption, setSavingOption] = useState(false);
+  const [customFields, setCustomFields] = useState<CatalogCustomField[]>([]);
+  const [customFieldForm, setCustomFieldForm] = useState(emptyCustomFieldForm);
+  const [savingCustomField, setSavingCustomField] = useState(false);
 
   // Redirect if not admin
   useEffect(() => {
@@ -62,12 +173,502 @@ export default function AdminSettingsPage() {
     }
   };
 
+  // Fetch SLA policies
+  const fetchSlaPolicies = async () => {
+    try {
+      const response = await fetch('/api/admin/sla-policies');
+      const data = await response.json();
+
+      if (response.ok) {
+        setSlaPolicies(data.policies);
+        setSlaDefaults(data.defaults);
+      } else {
+        setError(data.error || 'Failed to fetch SLA policies');
+      }
+    } catch {
+      setError('Failed to fetch SLA policies');
+    }
+  };
+
+  // Fetch business calendars
+  const fetchCalendars = async () => {
+    try {
+      const response = await fetch('/api/admin/business-calendars');
+      const data = await response.json();
+
+      if (response.ok) {
+        setCalendars(data.calendars.map((calendar: {
+          _id: string;
+          name: string;
+          timezone: string;
+          active: boolean;
+          workingHours: { day: number; start: string; end: string }[];
+          holidays: { date: string; name: string }[];
+        }) => ({
+          _id: calendar._id,
+          name: calendar.name,
+          timezone: calendar.timezone,
+          active: calendar.active,
+          days: WEEKDAYS.map((_, day) => {
+            const hours = calendar.workingHours.find(h => h.day === day);
+            return hours
+              ? { enabled: true, start: hours.start, end: hours.end }
+              : { enabled: false, start: '09:00', end: '18:00' };
+          }),
+          holidays: calendar.holidays
+        })));
+      } else {
+        setError(data.error || 'Failed to fetch business calendars');
+      }
+    } catch {
+      setError('Failed to fetch business calendars');
+    }
+  };
+
+  // Fetch the tag catalog
+  const fetchTags = async () => {
+    try {
+      const response = await fetch('/api/tags');
+      const data = await response.json();
+
+      if (response.ok) {
+        setTags(data.tags);
+      } else {
+        setError(data.error || 'Failed to fetch tags');
+      }
+    } catch {
+      setError('Failed to fetch tags');
+    }
+  };
+
   useEffect(() => {
     if (session?.user.role === 'admin') {
       fetchDatabaseStatus();
+      fetchSlaPolicies();
+      fetchCalendars();
+      fetchTags();
+      fetchTicketOptions();
+      fetchCustomFields();
     }
   }, [session]);
 
+  const priorityOptions = ticketOptions.filter(o => o.kind === 'priority');
+  const categoryOptions = ticketOptions.filter(o => o.kind === 'category');
+
+  // Create a catalog tag
+  const createTag = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSavingTag(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/tags', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(tagForm)
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setTagForm(emptyTagForm);
+        await fetchTags();
+      } else {
+        setError(data.error || 'Failed to create tag');
+      }
+    } catch {
+      setError('Failed to create tag');
+    } finally {
+      setSavingTag(false);
+    }
+  };
+
+  // Update a catalog tag (renaming also renames it on tickets)
+  const updateTag = async (tag: CatalogTag) => {
+    setError('');
+
+    try {
+      const response = await fetch(`/api/tags/${tag._id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          name: tag.name,
+          color: tag.color,
+          description: tag.description || ''
+        })
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        await fetchTags();
+      } else {
+        setError(data.error || 'Failed to update tag');
+      }
+    } catch {
+      setError('Failed to update tag');
+    }
+  };
+
+  // Delete a catalog tag
+  const deleteTag = async (tagId: string) => {
+    setError('');
+
+    try {
+      const response = await fetch(`/api/tags/${tagId}`, {
+        method: 'DELETE'
+      });
+
+      if (response.ok) {
+        await fetchTags();
+      } else {
+        const data = await response.json();
+        setError(data.error || 'Failed to delete tag');
+      }
+    } catch {
+      setError('Failed to delete tag');
+    }
+  };
+
+  // Fetch the priorities and categories, including retired ones
+  const fetchTicketOptions = async () => {
+    try {
+      const response = await fetch('/api/ticket-options');
+      const data = await response.json();
+
+      if (response.ok) {
+        setTicketOptions([...data.priorities, ...data.categories]);
+      } else {
+        setError(data.error || 'Failed to fetch priorities and categories');
+      }
+    } catch {
+      setError('Failed to fetch priorities and categories');
+    }
+  };
+
+  // Add a priority or category
+  const createTicketOption = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSavingOption(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/ticket-options', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(optionForm)
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setOptionForm({ ...emptyOptionForm, kind: optionForm.kind });
+        await fetchTicketOptions();
+      } else {
+        setError(data.error || 'Failed to add option');
+      }
+    } catch {
+      setError('Failed to add option');
+    } finally {
+      setSavingOption(false);
+    }
+  };
+
+  // Update a priority or category (the value is fixed, retiring hides it from new tickets)
+  const updateTicketOption = async (option: CatalogTicketOption, changes: Partial<CatalogTicketOption> = {}) => {
+    setError('');
+
+    try {
+      const response = await fetch(`/api/ticket-options/${option._id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          label: option.label,
+          color: option.color,
+          sortOrder: option.sortOrder,
+          retired: option.retired,
+          ...changes
+        })
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        await fetchTicketOptions();
+      } else {
+        setError(data.error || 'Failed to update option');
+      }
+    } catch {
+      setError('Failed to update option');
+    }
+  };
+
+  const editTicketOption = (optionId: string, changes: Partial<CatalogTicketOption>) => {
+    setTicketOptions(prev => prev.map(o => o._id === optionId ? { ...o, ...changes } : o));
+  };
+
+  // Fetch the custom field definitions for every category
+  const fetchCustomFields = async () => {
+    try {
+      const response = await fetch('/api/custom-fields');
+      const data = await response.json();
+
+      if (response.ok) {
+        setCustomFields(data.fields);
+      } else {
+        setError(data.error || 'Failed to fetch custom fields');
+      }
+    } catch {
+      setError('Failed to fetch custom fields');
+    }
+  };
+
+  // Create a custom field
+  const createCustomField = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSavingCustomField(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/custom-fields', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          ...customFieldForm,
+          options: parseOptions(customFieldForm.options)
+        })
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setCustomFieldForm(emptyCustomFieldForm);
+        await fetchCustomFields();
+      } else {
+        setError(data.error || 'Failed to create custom field');
+      }
+    } catch {
+      setError('Failed to create custom field');
+    } finally {
+      setSavingCustomField(false);
+    }
+  };
+
+  // Update a custom field (the key, type and category are fixed)
+  const updateCustomField = async (field: CatalogCustomField) => {
+    setError('');
+
+    try {
+      const response = await fetch(`/api/custom-fields/${field._id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          label: field.label,
+          options: field.type === 'select' ? parseOptions(field.options) : undefined,
+          required: field.required,
+          sortOrder: field.sortOrder
+        })
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        await fetchCustomFields();
+      } else {
+        setError(data.error || 'Failed to update custom field');
+      }
+    } catch {
+      setError('Failed to update custom field');
+    }
+  };
+
+  // Delete a custom field
+  const deleteCustomField = async (fieldId: string) => {
+    setError('');
+
+    try {
+      const response = await fetch(`/api/custom-fields/${fieldId}`, {
+        method: 'DELETE'
+      });
+
+      if (response.ok) {
+        await fetchCustomFields();
+      } else {
+        const data = await response.json();
+        setError(data.error || 'Failed to delete custom field');
+      }
+    } catch {
+      setError('Failed to delete custom field');
+    }
+  };
+
+  const editCustomField = (fieldId: string, changes: Partial<CatalogCustomField>) => {
+    setCustomFields(prev => prev.map(f => f._id === fieldId ? { ...f, ...changes } : f));
+  };
+
+  const updateCalendar = (index: number, changes: Partial<CalendarForm>) => {
+    setCalendars(prev => prev.map((calendar, i) => i === index ? { ...calendar, ...changes } : calendar));
+  };
+
+  // Create or update a business calendar
+  const saveCalendar = async (index: number) => {
+    const calendar = calendars[index];
+    setSavingCalendar(index);
+    setError('');
+
+    try {
+      const response = await fetch(
+        calendar._id ? `/api/admin/business-calendars/${calendar._id}` : '/api/admin/business-calendars',
+        {
+          method: calendar._id ? 'PUT' : 'POST',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({
+            name: calendar.name,
+            timezone: calendar.timezone,
+            active: calendar.active,
+            workingHours: calendar.days.flatMap((day, weekday) =>
+              day.enabled ? [{ day: weekday, start: day.start, end: day.end }] : []
+            ),
+            holidays: calendar.holidays.filter(h => h.date)
+          })
+        }
+      );
+
+      const data = await response.json();
+
+      if (response.ok) {
+        await fetchCalendars();
+      } else {
+        setError(data.error || 'Failed to save business calendar');
+      }
+    } catch {
+      setError('Failed to save business calendar');
+    } finally {
+      setSavingCalendar(null);
+    }
+  };
+
+  // Delete a business calendar (unsaved ones are just dropped)
+  const deleteCalendar = async (index: number) => {
+    const calendar = calendars[index];
+    setError('');
+
+    if (!calendar._id) {
+      setCalendars(prev => prev.filter((_, i) => i !== index));
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/business-calendars/${calendar._id}`, {
+        method: 'DELETE'
+      });
+
+      if (response.ok) {
+        await fetchCalendars();
+      } else {
+        const data = await response.json();
+        setError(data.error || 'Failed to delete business calendar');
+      }
+    } catch {
+      setError('Failed to delete business calendar');
+    }
+  };
+
+  // Create SLA policy
+  const createSlaPolicy = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSavingSla(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/admin/sla-policies', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          ...slaForm,
+          category: slaForm.category || null
+        })
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setSlaForm(emptySlaForm);
+        await fetchSlaPolicies();
+      } else {
+        setError(data.error || 'Failed to create SLA policy');
+      }
+    } catch {
+      setError('Failed to create SLA policy');
+    } finally {
+      setSavingSla(false);
+    }
+  };
+
+  // Update SLA policy targets
+  const updateSlaPolicy = async (policy: SlaPolicy) => {
+    setError('');
+
+    try {
+      const response = await fetch(`/api/admin/sla-policies/${policy._id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          firstResponseMinutes: policy.firstResponseMinutes,
+          resolutionMinutes: policy.resolutionMinutes
+        })
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        await fetchSlaPolicies();
+      } else {
+        setError(data.error || 'Failed to update SLA policy');
+      }
+    } catch {
+      setError('Failed to update SLA policy');
+    }
+  };
+
+  // Delete SLA policy
+  const deleteSlaPolicy = async (policyId: string) => {
+    setError('');
+
+    try {
+      const response = await fetch(`/api/admin/sla-policies/${policyId}`, {
+        method: 'DELETE'
+      });
+
+      if (response.ok) {
+        await fetchSlaPolicies();
+      } else {
+        const data = await response.json();
+        setError(data.error || 'Failed to delete SLA policy');
+      }
+    } catch {
+      setError('Failed to delete SLA policy');
+    }
+  };
+
   // Test database connection
   const testConnection = async (useSecondary: boolean) => {
     const dbType = useSecondary ? 'secondary' : 'primary';
@@ -242,7 +843,7 @@ export default function AdminSettingsPage() {
             <div>
               <h1 className="text-3xl font-bold text-gray-900">Admin Settings</h1>
               <p className="text-sm text-gray-600 mt-1">
-                Database management and system configuration
+                Database management, SLA policies, business hours and system configuration
               </p>
             </div>
             <div className="flex space-x-4">
@@ -393,6 +994,769 @@ export default function AdminSettingsPage() {
               </div>
             )}
           </div>
+
+          {/* Priorities and Categories */}
+          <div className="bg-white shadow rounded-lg p-6 mb-6">
+            <h2 className="text-lg font-medium text-gray-900 mb-1">Priorities &amp; Categories</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              The values offered when creating and updating tickets, in sort order (priorities from lowest to highest).
+              Retired values are no longer offered but still show on existing tickets.
+            </p>
+
+            {TICKET_OPTION_KINDS.map((kind) => (
+              <div key={kind} className="overflow-x-auto mb-6">
+                <h3 className="text-sm font-medium text-gray-700 mb-2">{kind === 'priority' ? 'Priorities' : 'Categories'}</h3>
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Preview</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Value</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Label</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Color</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Order</th>
+                      <th className="px-4 py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {ticketOptions.filter(o => o.kind === kind).map((option) => (
+                      <tr key={option._id} className={option.retired ? 'bg-gray-50 text-gray-400' : undefined}>
+                        <td className="px-4 py-2">
+                          <span
+                            className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium"
+                            style={getOptionStyle([option], option.value)}
+                          >
+                            {option.label}
+                          </span>
+                          {option.retired && <span className="ml-2 text-xs">Retired</span>}
+                        </td>
+                        <td className="px-4 py-2 text-sm font-mono">{option.value}</td>
+                        <td className="px-4 py-2">
+                          <input
+                            type="text"
+                            value={option.label}
+                            maxLength={50}
+                            onChange={(e) => editTicketOption(option._id, { label: e.target.value })}
+                            className="w-40 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                          />
+                        </td>
+                        <td className="px-4 py-2">
+                          <input
+                            type="color"
+                            value={option.color}
+                            onChange={(e) => editTicketOption(option._id, { color: e.target.value })}
+                            className="h-8 w-12 border border-gray-300 rounded"
+                          />
+                        </td>
+                        <td className="px-4 py-2">
+                          <input
+                            type="number"
+                            value={option.sortOrder}
+                            onChange={(e) => editTicketOption(option._id, { sortOrder: parseInt(e.target.value) || 0 })}
+                            className="w-16 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                          />
+                        </td>
+                        <td className="px-4 py-2 text-right space-x-2 whitespace-nowrap">
+                          <button
+                            onClick={() => updateTicketOption(option)}
+                            className="px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700"
+                          >
+                            Save
+                          </button>
+                          <button
+                            onClick={() => updateTicketOption(option, { retired: !option.retired })}
+                            className="px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50"
+                          >
+                            {option.retired ? 'Restore' : 'Retire'}
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+
+            {/* New Option Form */}
+            <form onSubmit={createTicketOption} className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+              <div>
+                <label htmlFor="option-kind" className="block text-sm font-medium text-gray-700">Type</label>
+                <select
+                  id="option-kind"
+                  value={optionForm.kind}
+                  onChange={(e) => setOptionForm({ ...optionForm, kind: e.target.value as TicketOptionKind })}
+                  className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                >
+                  {TICKET_OPTION_KINDS.map((kind) => (
+                    <option key={kind} value={kind}>{OPTION_KIND_LABELS[kind]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="option-value" className="block text-sm font-medium text-gray-700">Value</label>
+                <input
+                  id="option-value"
+                  type="text"
+                  required
+                  maxLength={50}
+                  pattern="[a-z][a-z0-9_]*"
+                  placeholder="e.g. critical"
+                  value={optionForm.value}
+                  onChange={(e) => setOptionForm({ ...optionForm, value: e.target.value })}
+                  className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                />
+              </div>
+              <div>
+                <label htmlFor="option-label" className="block text-sm font-medium text-gray-700">Label</label>
+                <input
+                  id="option-label"
+                  type="text"
+                  required
+                  maxLength={50}
+                  value={optionForm.label}
+                  onChange={(e) => setOptionForm({ ...optionForm, label: e.target.value })}
+                  className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                />
+              </div>
+              <div>
+                <label htmlFor="option-color" className="block text-sm font-medium text-gray-700">Color</label>
+                <input
+                  id="option-color"
+                  type="color"
+                  value={optionForm.color}
+                  onChange={(e) => setOptionForm({ ...optionForm, color: e.target.value })}
+                  className="mt-1 block h-8 w-12 border border-gray-300 rounded"
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={savingOption}
+                className="px-4 py-2 text-sm font-medium text-white bg-gray-800 rounded-md hover:bg-gray-700 disabled:opacity-50"
+              >
+                {savingOption ? 'Adding...' : 'Add'}
+              </button>
+            </form>
+          </div>
+
+          {/* SLA Policies */}
+          <div className="bg-white shadow rounded-lg p-6 mb-6">
+            <h2 className="text-lg font-medium text-gray-900 mb-1">SLA Policies</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Targets are in minutes. A category-specific policy takes precedence over one that applies to any category.
+              Priorities without a policy use the defaults
+              {Object.keys(slaDefaults).length > 0 && (
+                <> ({Object.entries(slaDefaults).map(([priority, targets]) => `${priority}: ${targets.firstResponseMinutes}/${targets.resolutionMinutes}`).join(', ')})</>
+              )}.
+            </p>
+
+            <div className="overflow-x-auto mb-6">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Name</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Priority</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Category</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">First Response</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Resolution</th>
+                    <th className="px-4 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {slaPolicies.length === 0 ? (
+                    <tr>
+                      <td colSpan={6} className="px-4 py-4 text-center text-sm text-gray-500">
+                        No SLA policies configured. Default targets apply.
+                      </td>
+                    </tr>
+                  ) : (
+                    slaPolicies.map((policy) => (
+                      <tr key={policy._id}>
+                        <td className="px-4 py-2 text-sm text-gray-900">{policy.name}</td>
+                        <td className="px-4 py-2 text-sm text-gray-700">{getOptionLabel(priorityOptions, policy.priority)}</td>
+                        <td className="px-4 py-2 text-sm text-gray-700">{policy.category ? getOptionLabel(categoryOptions, policy.category) : 'Any'}</td>
+                        <td className="px-4 py-2">
+                          <input
+                            type="number"
+                            min={1}
+                            value={policy.firstResponseMinutes}
+                            onChange={(e) => setSlaPolicies(prev => prev.map(p => p._id === policy._id ? { ...p, firstResponseMinutes: parseInt(e.target.value) || 0 } : p))}
+                            className="w-24 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                          />
+                        </td>
+                        <td className="px-4 py-2">
+                          <input
+                            type="number"
+                            min={1}
+                            value={policy.resolutionMinutes}
+                            onChange={(e) => setSlaPolicies(prev => prev.map(p => p._id === policy._id ? { ...p, resolutionMinutes: parseInt(e.target.value) || 0 } : p))}
+                            className="w-24 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                          />
+                        </td>
+                        <td className="px-4 py-2 text-right space-x-2">
+                          <button
+                            onClick={() => updateSlaPolicy(policy)}
+                            className="px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700"
+                          >
+                            Save
+                          </button>
+                          <button
+                            onClick={() => deleteSlaPolicy(policy._id)}
+                            className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700"
+                          >
+                            Delete
+                          </button>
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            {/* New Policy Form */}
+            <form onSubmit={createSlaPolicy} className="grid grid-cols-1 md:grid-cols-6 gap-3 items-end">
+              <div>
+                <label htmlFor="sla-name" className="block text-sm font-medium text-gray-700">Name</label>
+                <input
+                  id="sla-name"
+                  type="text"
+                  required
+                  value={slaForm.name}
+                  onChange={(e) => setSlaForm({ ...slaForm, name: e.target.value })}
+                  className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                />
+              </div>
+              <div>
+                <label htmlFor="sla-priority" className="block text-sm font-medium text-gray-700">Priority</label>
+                <select
+                  id="sla-priority"
+                  value={slaForm.priority}
+                  onChange={(e) => setSlaForm({ ...slaForm, priority: e.target.value })}
+                  className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                >
+                  {getActiveOptions(priorityOptions).map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="sla-category" className="block text-sm font-medium text-gray-700">Category</label>
+                <select
+                  id="sla-category"
+                  value={slaForm.category}
+                  onChange={(e) => setSlaForm({ ...slaForm, category: e.target.value })}
+                  className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                >
+                  <option value="">Any</option>
+                  {getActiveOptions(categoryOptions).map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="sla-response" className="block text-sm font-medium text-gray-700">First Response</label>
+                <input
+                  id="sla-response"
+                  type="number"
+                  min={1}
+                  required
+                  value={slaForm.firstResponseMinutes}
+                  onChange={(e) => setSlaForm({ ...slaForm, firstResponseMinutes: parseInt(e.target.value) || 0 })}
+                  className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                />
+              </div>
+              <div>
+                <label htmlFor="sla-resolution" className="block text-sm font-medium text-gray-700">Resolution</label>
+                <input
+                  id="sla-resolution"
+                  type="number"
+                  min={1}
+                  required
+                  value={slaForm.resolutionMinutes}
+                  onChange={(e) => setSlaForm({ ...slaForm, resolutionMinutes: parseInt(e.target.value) || 0 })}
+                  className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={savingSla}
+                className="px-4 py-2 text-sm font-medium text-white bg-gray-800 rounded-md hover:bg-gray-700 disabled:opacity-50"
+              >
+                {savingSla ? 'Adding...' : 'Add Policy'}
+              </button>
+            </form>
+          </div>
+
+          {/* Tags */}
+          <div className="bg-white shadow rounded-lg p-6 mb-6">
+            <h2 className="text-lg font-medium text-gray-900 mb-1">Tags</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Catalog tags are suggested when tagging tickets and shown in their color. Tickets can also use tags that are not in the catalog.
+            </p>
+
+            <div className="overflow-x-auto mb-6">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Preview</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Name</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Color</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Description</th>
+                    <th className="px-4 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {tags.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="px-4 py-4 text-center text-sm text-gray-500">
+                        No tags in the catalog yet.
+                      </td>
+                    </tr>
+                  ) : (
+                    tags.map((tag) => (
+                      <tr key={tag._id}>
+                        <td className="px-4 py-2">
+                          <TagBadge name={tag.name} color={tag.color} />
+                        </td>
+                        <td className="px-4 py-2">
+                          <input
+                            type="text"
+                            value={tag.name}
+                            maxLength={50}
+                            onChange={(e) => setTags(prev => prev.map(t => t._id === tag._id ? { ...t, name: e.target.value } : t))}
+                            className="w-40 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                          />
+                        </td>
+                        <td className="px-4 py-2">
+                          <input
+                            type="color"
+                            value={tag.color}
+                            onChange={(e) => setTags(prev => prev.map(t => t._id === tag._id ? { ...t, color: e.target.value } : t))}
+                            className="h-8 w-12 border border-gray-300 rounded"
+                          />
+                        </td>
+                        <td className="px-4 py-2">
+                          <input
+                            type="text"
+                            value={tag.description || ''}
+                            maxLength={200}
+                            onChange={(e) => setTags(prev => prev.map(t => t._id === tag._id ? { ...t, description: e.target.value } : t))}
+                            className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                          />
+                        </td>
+                        <td className="px-4 py-2 text-right space-x-2 whitespace-nowrap">
+                          <button
+                            onClick={() => updateTag(tag)}
+                            className="px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700"
+                          >
+                            Save
+                          </button>
+                          <button
+                            onClick={() => deleteTag(tag._id)}
+                            className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700"
+                          >
+                            Delete
+                          </button>
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            {/* New Tag Form */}
+            <form onSubmit={createTag} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+              <div>
+                <label htmlFor="tag-name" className="block text-sm font-medium text-gray-700">Name</label>
+                <input
+                  id="tag-name"
+                  type="text"
+                  required
+                  maxLength={50}
+                  value={tagForm.name}
+                  onChange={(e) => setTagForm({ ...tagForm, name: e.target.value })}
+                  className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                />
+              </div>
+              <div>
+                <label htmlFor="tag-color" className="block text-sm font-medium text-gray-700">Color</label>
+                <input
+                  id="tag-color"
+                  type="color"
+                  value={tagForm.color}
+                  onChange={(e) => setTagForm({ ...tagForm, color: e.target.value })}
+                  className="mt-1 block h-8 w-12 border border-gray-300 rounded"
+                />
+              </div>
+              <div>
+                <label htmlFor="tag-description" className="block text-sm font-medium text-gray-700">Description</label>
+                <input
+                  id="tag-description"
+                  type="text"
+                  maxLength={200}
+                  value={tagForm.description}
+                  onChange={(e) => setTagForm({ ...tagForm, description: e.target.value })}
+                  className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={savingTag}
+                className="px-4 py-2 text-sm font-medium text-white bg-gray-800 rounded-md hover:bg-gray-700 disabled:opacity-50"
+              >
+                {savingTag ? 'Adding...' : 'Add Tag'}
+              </button>
+            </form>
+          </div>
+
+          {/* Custom Fields */}
+          <div className="bg-white shadow rounded-lg p-6 mb-6">
+            <h2 className="text-lg font-medium text-gray-900 mb-1">Custom Fields</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Extra fields asked for when creating a ticket in a category. Values can be filtered on from the dashboard once the category is selected.
+              Deleting a field keeps the values already stored on tickets.
+            </p>
+
+            <div className="overflow-x-auto mb-6">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Category</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Key</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Label</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Type</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Options</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Required</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Order</th>
+                    <th className="px-4 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {customFields.length === 0 ? (
+                    <tr>
+                      <td colSpan={8} className="px-4 py-4 text-center text-sm text-gray-500">
+                        No custom fields configured.
+                      </td>
+                    </tr>
+                  ) : (
+                    customFields.map((field) => (
+                      <tr key={field._id}>
+                        <td className="px-4 py-2 text-sm text-gray-900">{getOptionLabel(categoryOptions, field.category)}</td>
+                        <td className="px-4 py-2 text-sm font-mono text-gray-700">{field.key}</td>
+                        <td className="px-4 py-2">
+                          <input
+                            type="text"
+                            value={field.label}
+                            maxLength={100}
+                            onChange={(e) => editCustomField(field._id, { label: e.target.value })}
+                            className="w-40 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                          />
+                        </td>
+                        <td className="px-4 py-2 text-sm text-gray-700">{field.type}</td>
+                        <td className="px-4 py-2">
+                          {field.type === 'select' ? (
+                            <input
+                              type="text"
+                              value={field.options.join(',')}
+                              onChange={(e) => editCustomField(field._id, { options: e.target.value.split(',') })}
+                              className="w-48 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                            />
+                          ) : (
+                            <span className="text-sm text-gray-400">—</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-2">
+                          <input
+                            type="checkbox"
+                            checked={field.required}
+                            onChange={(e) => editCustomField(field._id, { required: e.target.checked })}
+                            className="rounded border-gray-300"
+                          />
+                        </td>
+                        <td className="px-4 py-2">
+                          <input
+                            type="number"
+                            value={field.sortOrder}
+                            onChange={(e) => editCustomField(field._id, { sortOrder: parseInt(e.target.value) || 0 })}
+                            className="w-16 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                          />
+                        </td>
+                        <td className="px-4 py-2 text-right space-x-2 whitespace-nowrap">
+                          <button
+                            onClick={() => updateCustomField(field)}
+                            className="px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700"
+                          >
+                            Save
+                          </button>
+                          <button
+                            onClick={() => deleteCustomField(field._id)}
+                            className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700"
+                          >
+                            Delete
+                          </button>
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            {/* New Custom Field Form */}
+            <form onSubmit={createCustomField} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+              <div>
+                <label htmlFor="cf-category" className="block text-sm font-medium text-gray-700">Category</label>
+                <select
+                  id="cf-category"
+                  value={customFieldForm.category}
+                  onChange={(e) => setCustomFieldForm({ ...customFieldForm, category: e.target.value })}
+                  className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                >
+                  {getActiveOptions(categoryOptions).map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="cf-key" className="block text-sm font-medium text-gray-700">Key</label>
+                <input
+                  id="cf-key"
+                  type="text"
+                  required
+                  maxLength={50}
+                  pattern="[a-z][a-z0-9_]*"
+                  placeholder="e.g. order_id"
+                  value={customFieldForm.key}
+                  onChange={(e) => setCustomFieldForm({ ...customFieldForm, key: e.target.value })}
+                  className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                />
+              </div>
+              <div>
+                <label htmlFor="cf-label" className="block text-sm font-medium text-gray-700">Label</label>
+                <input
+                  id="cf-label"
+                  type="text"
+                  required
+                  maxLength={100}
+                  value={customFieldForm.label}
+                  onChange={(e) => setCustomFieldForm({ ...customFieldForm, label: e.target.value })}
+                  className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                />
+              </div>
+              <div>
+                <label htmlFor="cf-type" className="block text-sm font-medium text-gray-700">Type</label>
+                <select
+                  id="cf-type"
+                  value={customFieldForm.type}
+                  onChange={(e) => setCustomFieldForm({ ...customFieldForm, type: e.target.value as CustomFieldType })}
+                  className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                >
+                  {CUSTOM_FIELD_TYPES.map((type) => (
+                    <option key={type} value={type}>{type}</option>
+                  ))}
+                </select>
+              </div>
+              {customFieldForm.type === 'select' && (
+                <div className="md:col-span-2">
+                  <label htmlFor="cf-options" className="block text-sm font-medium text-gray-700">Options (comma-separated)</label>
+                  <input
+                    id="cf-options"
+                    type="text"
+                    required
+                    value={customFieldForm.options}
+                    onChange={(e) => setCustomFieldForm({ ...customFieldForm, options: e.target.value })}
+                    className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                  />
+                </div>
+              )}
+              <div>
+                <label htmlFor="cf-sort-order" className="block text-sm font-medium text-gray-700">Order</label>
+                <input
+                  id="cf-sort-order"
+                  type="number"
+                  value={customFieldForm.sortOrder}
+                  onChange={(e) => setCustomFieldForm({ ...customFieldForm, sortOrder: parseInt(e.target.value) || 0 })}
+                  className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={customFieldForm.required}
+                  onChange={(e) => setCustomFieldForm({ ...customFieldForm, required: e.target.checked })}
+                  className="rounded border-gray-300"
+                />
+                Required
+              </label>
+              <button
+                type="submit"
+                disabled={savingCustomField}
+                className="px-4 py-2 text-sm font-medium text-white bg-gray-800 rounded-md hover:bg-gray-700 disabled:opacity-50"
+              >
+                {savingCustomField ? 'Adding...' : 'Add Field'}
+              </button>
+            </form>
+          </div>
+
+          {/* Business Hours */}
+          <div className="bg-white shadow rounded-lg p-6 mb-6">
+            <div className="flex items-center justify-between mb-1">
+              <h2 className="text-lg font-medium text-gray-900">Business Hours</h2>
+              <button
+                onClick={() => setCalendars(prev => [...prev, newCalendarForm()])}
+                className="px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Add Calendar
+              </button>
+            </div>
+            <p className="text-sm text-gray-600 mb-4">
+              SLA due times and ticket ages only count time within the working hours of the active calendars.
+              Hours of several calendars are combined. Without an active calendar every hour counts.
+            </p>
+
+            {calendars.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-4">No business calendars configured.</p>
+            ) : (
+              <div className="space-y-6">
+                {calendars.map((calendar, index) => (
+                  <div key={calendar._id || `new-${index}`} className="border rounded-lg p-4">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">Name</label>
+                        <input
+                          type="text"
+                          value={calendar.name}
+                          onChange={(e) => updateCalendar(index, { name: e.target.value })}
+                          placeholder="e.g. New York office"
+                          className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">Timezone</label>
+                        <input
+                          type="text"
+                          value={calendar.timezone}
+                          onChange={(e) => updateCalendar(index, { timezone: e.target.value })}
+                          placeholder="e.g. America/New_York"
+                          className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                        />
+                      </div>
+                      <label className="flex items-center space-x-2 text-sm text-gray-700 mt-6">
+                        <input
+                          type="checkbox"
+                          checked={calendar.active}
+                          onChange={(e) => updateCalendar(index, { active: e.target.checked })}
+                        />
+                        <span>Active</span>
+                      </label>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                      {/* Working Hours */}
+                      <div>
+                        <h4 className="font-medium text-gray-900 mb-2">Working Hours</h4>
+                        <div className="space-y-2">
+                          {calendar.days.map((day, weekday) => (
+                            <div key={weekday} className="flex items-center space-x-2 text-sm">
+                              <label className="flex items-center space-x-2 w-32">
+                                <input
+                                  type="checkbox"
+                                  checked={day.enabled}
+                                  onChange={(e) => updateCalendar(index, {
+                                    days: calendar.days.map((d, i) => i === weekday ? { ...d, enabled: e.target.checked } : d)
+                                  })}
+                                />
+                                <span>{WEEKDAYS[weekday]}</span>
+                              </label>
+                              <input
+                                type="time"
+                                value={day.start}
+                                disabled={!day.enabled}
+                                onChange={(e) => updateCalendar(index, {
+                                  days: calendar.days.map((d, i) => i === weekday ? { ...d, start: e.target.value } : d)
+                                })}
+                                className="px-2 py-1 border border-gray-300 rounded-md disabled:opacity-50"
+                              />
+                              <span>–</span>
+                              <input
+                                type="time"
+                                value={day.end}
+                                disabled={!day.enabled}
+                                onChange={(e) => updateCalendar(index, {
+                                  days: calendar.days.map((d, i) => i === weekday ? { ...d, end: e.target.value } : d)
+                                })}
+                                className="px-2 py-1 border border-gray-300 rounded-md disabled:opacity-50"
+                              />
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+
+                      {/* Holidays */}
+                      <div>
+                        <h4 className="font-medium text-gray-900 mb-2">Holidays</h4>
+                        <div className="space-y-2">
+                          {calendar.holidays.map((holiday, holidayIndex) => (
+                            <div key={holidayIndex} className="flex items-center space-x-2 text-sm">
+                              <input
+                                type="date"
+                                value={holiday.date}
+                                onChange={(e) => updateCalendar(index, {
+                                  holidays: calendar.holidays.map((h, i) => i === holidayIndex ? { ...h, date: e.target.value } : h)
+                                })}
+                                className="px-2 py-1 border border-gray-300 rounded-md"
+                              />
+                              <input
+                                type="text"
+                                value={holiday.name}
+                                placeholder="Holiday name"
+                                onChange={(e) => updateCalendar(index, {
+                                  holidays: calendar.holidays.map((h, i) => i === holidayIndex ? { ...h, name: e.target.value } : h)
+                                })}
+                                className="flex-1 px-2 py-1 border border-gray-300 rounded-md"
+                              />
+                              <button
+                                onClick={() => updateCalendar(index, {
+                                  holidays: calendar.holidays.filter((_, i) => i !== holidayIndex)
+                                })}
+                                className="text-red-600 hover:text-red-800"
+                              >
+                                Remove
+                              </button>
+                            </div>
+                          ))}
+                          <button
+                            onClick={() => updateCalendar(index, {
+                              holidays: [...calendar.holidays, { date: '', name: '' }]
+                            })}
+                            className="text-sm text-blue-600 hover:text-blue-800"
+                          >
+                            + Add Holiday
+                          </button>
+                        </div>
+                      </div>
+                    </div>
+
+                    <div className="flex justify-end space-x-2 mt-4">
+                      <button
+                        onClick={() => deleteCalendar(index)}
+                        className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700"
+                      >
+                        Delete
+                      </button>
+                      <button
+                        onClick={() => saveCalendar(index)}
+                        disabled={savingCalendar === index}
+                        className="px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+                      >
+                        {savingCalendar === index ? 'Saving...' : 'Save'}
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
         </div>
       </main>
     </div>
@@ -0,0 +1,335 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { SkeletonTableRow } from '@/components/Skeleton';
+import { ConfirmDialog } from '@/components/Dialog';
+import { useToast } from '@/components/Toast';
+import { STATUS_LABELS, normalizeStatus } from '@/lib/ticketStatus';
+import { formatTicketNumber } from '@/lib/ticketNumber';
+
+interface TrashedTicket {
+  _id: string;
+  number?: number;
+  title: string;
+  status: string;
+  priority: string;
+  category: string;
+  deletedAt: string;
+  deletedByName?: string | null;
+  createdAt: string;
+}
+
+interface PaginationInfo {
+  page: number;
+  limit: number;
+  totalCount: number;
+  totalPages: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+}
+
+export default function TrashPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const { addToast } = useToast();
+  const [tickets, setTickets] = useState<TrashedTicket[]>([]);
+  const [pagination, setPagination] = useState<PaginationInfo | null>(null);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [purgeDialog, setPurgeDialog] = useState<{ isOpen: boolean; ticketId: string; ticketTitle: string }>({
+    isOpen: false,
+    ticketId: '',
+    ticketTitle: ''
+  });
+  const [purging, setPurging] = useState(false);
+
+  // Redirect if not admin
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login');
+    } else if (status === 'authenticated' && session?.user.role !== 'admin') {
+      router.push('/dashboard');
+    }
+  }, [status, session, router]);
+
+  // Fetch tickets in the trash
+  const fetchTrash = async (pageNumber = page) => {
+    try {
+      const response = await fetch(`/api/admin/trash?page=${pageNumber}`);
+      const data = await response.json();
+
+      if (response.ok) {
+        setTickets(data.tickets);
+        setPagination(data.pagination);
+      } else {
+        setError(data.error || 'Failed to fetch trash');
+      }
+    } catch {
+      setError('Failed to fetch trash');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (session?.user.role === 'admin') {
+      fetchTrash(page);
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [session, page]);
+
+  // Restore a ticket
+  const handleRestore = async (ticket: TrashedTicket) => {
+    try {
+      const response = await fetch(`/api/admin/trash/${ticket._id}/restore`, {
+        method: 'POST'
+      });
+
+      if (response.ok) {
+        fetchTrash();
+        addToast({
+          type: 'success',
+          title: 'Ticket Restored',
+          message: `"${ticket.title}" is back in the ticket list.`
+        });
+      } else {
+        const data = await response.json();
+        addToast({
+          type: 'error',
+          title: 'Failed to Restore Ticket',
+          message: data.error || 'An error occurred while restoring the ticket.'
+        });
+      }
+    } catch {
+      addToast({
+        type: 'error',
+        title: 'Failed to Restore Ticket',
+        message: 'An error occurred while restoring the ticket.'
+      });
+    }
+  };
+
+  // Permanently delete a ticket
+  const confirmPurge = async () => {
+    setPurging(true);
+    try {
+      const response = await fetch(`/api/admin/trash/${purgeDialog.ticketId}`, {
+        method: 'DELETE'
+      });
+
+      if (response.ok) {
+        fetchTrash();
+        addToast({
+          type: 'success',
+          title: 'Ticket Deleted',
+          message: 'The ticket and its comments, history and attachments have been permanently deleted.'
+        });
+      } else {
+        const data = await response.json();
+        addToast({
+          type: 'error',
+          title: 'Failed to Delete Ticket',
+          message: data.error || 'An error occurred while deleting the ticket.'
+        });
+      }
+    } catch {
+      addToast({
+        type: 'error',
+        title: 'Failed to Delete Ticket',
+        message: 'An error occurred while deleting the ticket.'
+      });
+    } finally {
+      setPurging(false);
+      setPurgeDialog({ isOpen: false, ticketId: '', ticketTitle: '' });
+    }
+  };
+
+  const formatCategory = (category: string) => {
+    return category.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+  };
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+          <div className="px-4 py-6 sm:px-0">
+            <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+              <table className="min-w-full divide-y divide-gray-200">
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {Array.from({ length: 5 }).map((_, i) => (
+                    <SkeletonTableRow key={i} />
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  if (!session || session.user.role !== 'admin') {
+    return null; // Will redirect
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-6">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Trash</h1>
+              <p className="text-sm text-gray-600 mt-1">
+                Deleted tickets ({pagination?.totalCount ?? 0} total)
+              </p>
+            </div>
+            <div className="flex space-x-4">
+              <button
+                onClick={() => router.push('/admin/settings')}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Settings
+              </button>
+              <button
+                onClick={() => router.push('/dashboard')}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Dashboard
+              </button>
+              <button
+                onClick={() => router.push('/api/auth/signout')}
+                className="px-4 py-2 text-sm font-medium text-white bg-gray-800 rounded-md hover:bg-gray-700"
+              >
+                Sign Out
+              </button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          {/* Error Message */}
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-6">
+              {error}
+            </div>
+          )}
+
+          {/* Trashed Tickets Table */}
+          <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Ticket
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Status
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Deleted
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Deleted By
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {tickets.map((ticket) => (
+                    <tr key={ticket._id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        <div className="font-medium">
+                          {ticket.number && (
+                            <span className="font-mono text-gray-500 mr-2">{formatTicketNumber(ticket.number)}</span>
+                          )}
+                          {ticket.title}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {ticket.priority.toUpperCase()} · {formatCategory(ticket.category)} · Created {new Date(ticket.createdAt).toLocaleDateString()}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {STATUS_LABELS[normalizeStatus(ticket.status)]}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {new Date(ticket.deletedAt).toLocaleString()}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {ticket.deletedByName || '-'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm space-x-2">
+                        <button
+                          onClick={() => handleRestore(ticket)}
+                          className="px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                        >
+                          Restore
+                        </button>
+                        <button
+                          onClick={() => setPurgeDialog({ isOpen: true, ticketId: ticket._id, ticketTitle: ticket.title })}
+                          className="px-3 py-1 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700"
+                        >
+                          Delete Forever
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {tickets.length === 0 && (
+              <div className="px-6 py-4 text-center text-gray-500">
+                The trash is empty.
+              </div>
+            )}
+
+            {/* Pagination */}
+            {pagination && pagination.totalPages > 1 && (
+              <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-between">
+                <button
+                  onClick={() => setPage(page - 1)}
+                  disabled={!pagination.hasPrev}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Previous
+                </button>
+                <span className="text-sm text-gray-700">
+                  Page {pagination.page} of {pagination.totalPages}
+                </span>
+                <button
+                  onClick={() => setPage(page + 1)}
+                  disabled={!pagination.hasNext}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Next
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </main>
+
+      {/* Purge Confirmation Dialog */}
+      <ConfirmDialog
+        isOpen={purgeDialog.isOpen}
+        onClose={() => setPurgeDialog({ isOpen: false, ticketId: '', ticketTitle: '' })}
+        onConfirm={confirmPurge}
+        title="Delete Ticket Forever"
+        message={`Permanently delete "${purgeDialog.ticketTitle}" along with its comments, history and attachments? This action cannot be undone.`}
+        confirmText="Delete Forever"
+        confirmVariant="danger"
+        loading={purging}
+      />
+    </div>
+  );
+}
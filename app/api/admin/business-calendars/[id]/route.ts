@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import { authOptions } from '@/lib/auth';
+import BusinessCalendar from '@/models/BusinessCalendar';
+import dbConnect from '@/lib/db';
+import { createAuditLog, getRequestInfo } from '@/lib/audit';
+import { validateCalendarInput } from '@/lib/businessHours';
+import {
+  boolean,
+  invalidRequest,
+  list,
+  modelValidationErrors,
+  optional,
+  record,
+  text,
+  validateBody
+} from '@/lib/requestValidation';
+
+// Every field is optional, only those sent are changed; working hours and holidays are checked
+// entry by entry by validateCalendarInput()
+const calendarUpdateFields = {
+  name: optional(text({ required: true, maxLength: 100 })),
+  timezone: optional(text({ required: true, maxLength: 100 })),
+  workingHours: optional(list(record())),
+  holidays: optional(list(record())),
+  active: optional(boolean())
+};
+
+// PUT /api/admin/business-calendars/[id] - Update a business calendar (admin only)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Only admins can manage business calendars
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const input = await validateBody(request, calendarUpdateFields);
+    if ('errors' in input) {
+      return invalidRequest(input.errors);
+    }
+    const { name, timezone, workingHours, holidays, active } = input.values;
+
+    const validationError = validateCalendarInput({ name, timezone, workingHours, holidays });
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    await dbConnect();
+    const resolvedParams = await params;
+
+    const calendar = mongoose.isValidObjectId(resolvedParams.id) ? await BusinessCalendar.findById(resolvedParams.id) : null;
+    if (!calendar) {
+      return NextResponse.json({ error: 'Business calendar not found' }, { status: 404 });
+    }
+
+    if (name !== undefined) calendar.name = name;
+    if (timezone !== undefined) calendar.timezone = timezone;
+    if (workingHours !== undefined) calendar.workingHours = workingHours;
+    if (holidays !== undefined) calendar.holidays = holidays;
+    if (active !== undefined) calendar.active = active;
+
+    await calendar.save();
+
+    // Create audit log
+    const requestInfo = getRequestInfo(request);
+    await createAuditLog({
+      who: session.user.id,
+      what: 'update_settings',
+      details: `Updated business calendar: ${calendar.name} (${calendar.timezone})`,
+      ...requestInfo
+    });
+
+    return NextResponse.json({
+      message: 'Business calendar updated successfully',
+      calendar
+    });
+
+  } catch (error) {
+    const fieldErrors = modelValidationErrors(error);
+    if (fieldErrors) {
+      return invalidRequest(fieldErrors);
+    }
+
+    console.error('Error updating business calendar:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/business-calendars/[id] - Delete a business calendar (admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Only admins can manage business calendars
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    await dbConnect();
+    const resolvedParams = await params;
+
+    const calendar = mongoose.isValidObjectId(resolvedParams.id) ? await BusinessCalendar.findByIdAndDelete(resolvedParams.id) : null;
+    if (!calendar) {
+      return NextResponse.json({ error: 'Business calendar not found' }, { status: 404 });
+    }
+
+    // Create audit log
+    const requestInfo = getRequestInfo(request);
+    await createAuditLog({
+      who: session.user.id,
+      what: 'update_settings',
+      details: `Deleted business calendar: ${calendar.name}`,
+      ...requestInfo
+    });
+
+    return NextResponse.json({
+      message: 'Business calendar deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Error deleting business calendar:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import BusinessCalendar from '@/models/BusinessCalendar';
+import dbConnect from '@/lib/db';
+import { createAuditLog, getRequestInfo } from '@/lib/audit';
+import { validateCalendarInput } from '@/lib/businessHours';
+import {
+  boolean,
+  invalidRequest,
+  list,
+  modelValidationErrors,
+  record,
+  text,
+  validateBody
+} from '@/lib/requestValidation';
+
+// Working hours and holidays are checked entry by entry by validateCalendarInput()
+const newCalendarFields = {
+  name: text({ required: true, maxLength: 100 }),
+  timezone: text({ required: true, maxLength: 100 }),
+  workingHours: list(record(), { default: [] }),
+  holidays: list(record(), { default: [] }),
+  active: boolean({ default: true })
+};
+
+// GET /api/admin/business-calendars - List business calendars (admin only)
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Only admins can manage business calendars
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    await dbConnect();
+
+    const calendars = await BusinessCalendar.find({}).sort({ name: 1 });
+
+    return NextResponse.json({ calendars });
+
+  } catch (error) {
+    console.error('Error fetching business calendars:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/business-calendars - Create a business calendar (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Only admins can manage business calendars
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const input = await validateBody(request, newCalendarFields);
+    if ('errors' in input) {
+      return invalidRequest(input.errors);
+    }
+    const { name, timezone, workingHours, holidays, active } = input.values;
+
+    const validationError = validateCalendarInput({ name, timezone, workingHours, holidays });
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    await dbConnect();
+
+    const calendar = new BusinessCalendar({
+      name,
+      timezone,
+      workingHours,
+      holidays,
+      active
+    });
+
+    await calendar.save();
+
+    // Create audit log
+    const requestInfo = getRequestInfo(request);
+    await createAuditLog({
+      who: session.user.id,
+      what: 'update_settings',
+      details: `Created business calendar: ${calendar.name} (${calendar.timezone})`,
+      ...requestInfo
+    });
+
+    return NextResponse.json({
+      message: 'Business calendar created successfully',
+      calendar
+    }, { status: 201 });
+
+  } catch (error) {
+    const fieldErrors = modelValidationErrors(error);
+    if (fieldErrors) {
+      return invalidRequest(fieldErrors);
+    }
+
+    console.error('Error creating business calendar:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,12 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { getConnectionStatus, switchDatabase, testDatabaseConnection } from '@/lib/db';
 import { createAuditLog, getRequestInfo } from '@/lib/audit';
+import { boolean, invalidRequest, oneOf, validateBody } from '@/lib/requestValidation';
+
+const databaseActionFields = {
+  action: oneOf(['test', 'switch'] as const),
+  useSecondary: boolean()
+};
 
 // GET /api/admin/database - Get current database status
 export async function GET() {
@@ -49,14 +55,11 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
-    const { action, useSecondary } = await request.json();
-
-    if (!action || typeof useSecondary !== 'boolean') {
-      return NextResponse.json(
-        { error: 'Action and useSecondary parameters are required' },
-        { status: 400 }
-      );
+    const input = await validateBody(request, databaseActionFields);
+    if ('errors' in input) {
+      return invalidRequest(input.errors);
     }
+    const { action, useSecondary } = input.values;
 
     const requestInfo = getRequestInfo(request);
 
@@ -73,7 +76,7 @@ export async function POST(request: NextRequest) {
 
       return NextResponse.json({ testResult });
 
-    } else if (action === 'switch') {
+    } else {
       // Switch to the specified database
       const currentStatus = getConnectionStatus();
       const targetDb = useSecondary ? 'secondary' : 'primary';
@@ -114,12 +117,6 @@ export async function POST(request: NextRequest) {
           { status: 500 }
         );
       }
-
-    } else {
-      return NextResponse.json(
-        { error: 'Invalid action. Use "test" or "switch"' },
-        { status: 400 }
-      );
     }
 
   } catch (error) {
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import { authOptions } from '@/lib/auth';
+import SlaPolicy from '@/models/SlaPolicy';
+import dbConnect from '@/lib/db';
+import { createAuditLog, getRequestInfo } from '@/lib/audit';
+import { MAX_SLA_TARGET_MINUTES } from '@/lib/sla';
+import { integer, invalidRequest, modelValidationErrors, optional, text, validateBody } from '@/lib/requestValidation';
+
+// Every field is optional, only those sent are changed
+const policyUpdateFields = {
+  name: optional(text({ required: true, maxLength: 100 })),
+  firstResponseMinutes: optional(integer({ min: 1, max: MAX_SLA_TARGET_MINUTES })),
+  resolutionMinutes: optional(integer({ min: 1, max: MAX_SLA_TARGET_MINUTES }))
+};
+
+// PUT /api/admin/sla-policies/[id] - Update an SLA policy's targets (admin only)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Only admins can manage SLA policies
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const input = await validateBody(request, policyUpdateFields);
+    if ('errors' in input) {
+      return invalidRequest(input.errors);
+    }
+    const { name, firstResponseMinutes, resolutionMinutes } = input.values;
+
+    await dbConnect();
+    const resolvedParams = await params;
+
+    const policy = mongoose.isValidObjectId(resolvedParams.id) ? await SlaPolicy.findById(resolvedParams.id) : null;
+    if (!policy) {
+      return NextResponse.json({ error: 'SLA policy not found' }, { status: 404 });
+    }
+
+    if (name !== undefined) policy.name = name;
+    if (firstResponseMinutes !== undefined) policy.firstResponseMinutes = firstResponseMinutes;
+    if (resolutionMinutes !== undefined) policy.resolutionMinutes = resolutionMinutes;
+
+    await policy.save();
+
+    // Create audit log
+    const requestInfo = getRequestInfo(request);
+    await createAuditLog({
+      who: session.user.id,
+      what: 'update_settings',
+      details: `Updated SLA policy: ${policy.name} (response ${policy.firstResponseMinutes}m, resolution ${policy.resolutionMinutes}m)`,
+      ...requestInfo
+    });
+
+    return NextResponse.json({
+      message: 'SLA policy updated successfully',
+      policy
+    });
+
+  } catch (error) {
+    const fieldErrors = modelValidationErrors(error);
+    if (fieldErrors) {
+      return invalidRequest(fieldErrors);
+    }
+
+    console.error('Error updating SLA policy:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/sla-policies/[id] - Delete an SLA policy (admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Only admins can manage SLA policies
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    await dbConnect();
+    const resolvedParams = await params;
+
+    const policy = mongoose.isValidObjectId(resolvedParams.id) ? await SlaPolicy.findByIdAndDelete(resolvedParams.id) : null;
+    if (!policy) {
+      return NextResponse.json({ error: 'SLA policy not found' }, { status: 404 });
+    }
+
+    // Create audit log
+    const requestInfo = getRequestInfo(request);
+    await createAuditLog({
+      who: session.user.id,
+      what: 'update_settings',
+      details: `Deleted SLA policy: ${policy.name}`,
+      ...requestInfo
+    });
+
+    return NextResponse.json({
+      message: 'SLA policy deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Error deleting SLA policy:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
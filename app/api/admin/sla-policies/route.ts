@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import SlaPolicy from '@/models/SlaPolicy';
+import dbConnect from '@/lib/db';
+import { createAuditLog, getRequestInfo } from '@/lib/audit';
+import { DEFAULT_SLA_TARGETS, MAX_SLA_TARGET_MINUTES } from '@/lib/sla';
+import { invalidOptionMessage, isSelectableOption } from '@/lib/ticketOptions';
+import { getTicketOptions } from '@/models/TicketOption';
+import { integer, invalidRequest, modelValidationErrors, text, validateBody } from '@/lib/requestValidation';
+
+const newPolicyFields = {
+  name: text({ required: true, maxLength: 100 }),
+  priority: text({ required: true, maxLength: 50 }),
+  // Empty applies to every category
+  category: text({ maxLength: 50 }),
+  firstResponseMinutes: integer({ min: 1, max: MAX_SLA_TARGET_MINUTES }),
+  resolutionMinutes: integer({ min: 1, max: MAX_SLA_TARGET_MINUTES })
+};
+
+// GET /api/admin/sla-policies - List SLA policies (admin only)
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Only admins can manage SLA policies
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    await dbConnect();
+
+    const policies = await SlaPolicy.find({}).sort({ priority: 1, category: 1 });
+
+    return NextResponse.json({ policies, defaults: DEFAULT_SLA_TARGETS });
+
+  } catch (error) {
+    console.error('Error fetching SLA policies:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/sla-policies - Create an SLA policy (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Only admins can manage SLA policies
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const input = await validateBody(request, newPolicyFields);
+    if ('errors' in input) {
+      return invalidRequest(input.errors);
+    }
+    const { name, priority, category, firstResponseMinutes, resolutionMinutes } = input.values;
+
+    await dbConnect();
+
+    const [priorities, categories] = await Promise.all([
+      getTicketOptions('priority'),
+      getTicketOptions('category')
+    ]);
+
+    if (!isSelectableOption(priorities, priority)) {
+      return NextResponse.json(
+        { error: invalidOptionMessage('priority', priorities) },
+        { status: 400 }
+      );
+    }
+
+    if (category && !isSelectableOption(categories, category)) {
+      return NextResponse.json(
+        { error: invalidOptionMessage('category', categories) },
+        { status: 400 }
+      );
+    }
+
+    // Only one policy may exist per priority/category combination
+    const existing = await SlaPolicy.findOne({ priority, category: category || null });
+    if (existing) {
+      return NextResponse.json(
+        { error: 'A policy for this priority and category already exists' },
+        { status: 409 }
+      );
+    }
+
+    const policy = new SlaPolicy({
+      name,
+      priority,
+      category: category || null,
+      firstResponseMinutes,
+      resolutionMinutes
+    });
+
+    await policy.save();
+
+    // Create audit log
+    const requestInfo = getRequestInfo(request);
+    await createAuditLog({
+      who: session.user.id,
+      what: 'update_settings',
+      details: `Created SLA policy: ${policy.name} (${priority}/${category || 'any category'})`,
+      ...requestInfo
+    });
+
+    return NextResponse.json({
+      message: 'SLA policy created successfully',
+      policy
+    }, { status: 201 });
+
+  } catch (error) {
+    const fieldErrors = modelValidationErrors(error);
+    if (fieldErrors) {
+      return invalidRequest(fieldErrors);
+    }
+
+    console.error('Error creating SLA policy:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
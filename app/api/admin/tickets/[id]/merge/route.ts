@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import Ticket from '@/models/Ticket';
+import TicketHistory from '@/models/TicketHistory';
+import TicketLink from '@/models/TicketLink';
+import Comment from '@/models/Comment';
+import Attachment from '@/models/Attachment';
+import dbConnect from '@/lib/db';
+import { createAuditLog, getRequestInfo } from '@/lib/audit';
+import { formatTicketReference, ticketRefQuery } from '@/lib/ticketNumber';
+import { MAX_TAGS_PER_TICKET } from '@/lib/tags';
+import { indexTicket } from '@/lib/searchIndex';
+import { invalidRequest, text, validateBody } from '@/lib/requestValidation';
+
+const mergeFields = {
+  // The ID or number of the ticket to merge into
+  target: text({ required: true, maxLength: 50 })
+};
+
+// POST /api/admin/tickets/[id]/merge - Merge this ticket into another, e.g. { target: 'SUP-12' } (admin only).
+// Comments, attachments and history move to the target; the source stays behind as a closed stub.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Only admins can merge tickets
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const input = await validateBody(request, mergeFields);
+    if ('errors' in input) {
+      return invalidRequest(input.errors);
+    }
+    const { target: targetRef } = input.values;
+
+    await dbConnect();
+    const resolvedParams = await params;
+
+    const [source, target] = await Promise.all([
+      Ticket.findOne({ ...ticketRefQuery(resolvedParams.id), deletedAt: null }),
+      Ticket.findOne({ ...ticketRefQuery(targetRef), deletedAt: null })
+    ]);
+
+    if (!source) {
+      return NextResponse.json({ error: 'Ticket not found' }, { status: 404 });
+    }
+
+    if (!target) {
+      return NextResponse.json({ error: 'Ticket to merge into not found' }, { status: 404 });
+    }
+
+    const sourceId = source._id.toString();
+    const targetId = target._id.toString();
+
+    if (sourceId === targetId) {
+      return NextResponse.json(
+        { error: 'A ticket cannot be merged into itself' },
+        { status: 400 }
+      );
+    }
+
+    if (source.mergedInto || target.mergedInto) {
+      return NextResponse.json(
+        { error: 'Tickets that were already merged cannot be merged again' },
+        { status: 400 }
+      );
+    }
+
+    const sourceNumber = formatTicketReference(source);
+    const targetNumber = formatTicketReference(target);
+
+    // Another requester's conversation is kept for staff only, so the target's requester can't see it
+    const sameRequester = source.userId === target.userId;
+    const visibilityUpdate = sameRequester ? {} : { visibility: 'internal' };
+
+    const [movedComments, movedAttachments] = await Promise.all([
+      Comment.updateMany({ ticketId: sourceId }, { ticketId: targetId, ...visibilityUpdate }),
+      Attachment.updateMany({ ticketId: sourceId }, { ticketId: targetId, ...visibilityUpdate })
+    ]);
+
+    // Combine the history, remembering which ticket each entry came from
+    await TicketHistory.updateMany(
+      { ticketId: sourceId },
+      { ticketId: targetId, mergedFrom: source.number, ...visibilityUpdate }
+    );
+
+    // Tags carry over as far as the target has room for them
+    const tags = [...new Set([...target.tags, ...source.tags])].slice(0, MAX_TAGS_PER_TICKET);
+    if (tags.length !== target.tags.length) {
+      target.tags = tags;
+      await target.save();
+    }
+
+    // Leave the source behind as a closed stub pointing at the target
+    const oldStatus = source.status;
+    source.status = 'closed';
+    source.closedAt = source.closedAt || new Date();
+    source.mergedInto = targetId;
+    source.mergedAt = new Date();
+    await source.save();
+
+    // The comments moved with the conversation, so both tickets are searched differently now
+    await Promise.all([indexTicket(sourceId), indexTicket(targetId)]);
+
+    const existingLink = await TicketLink.findOne({
+      $or: [
+        { sourceId, targetId },
+        { sourceId: targetId, targetId: sourceId }
+      ]
+    });
+    if (!existingLink) {
+      await TicketLink.create({
+        sourceId,
+        targetId,
+        type: 'duplicate_of',
+        createdBy: session.user.id,
+        createdByName: session.user.name
+      });
+    }
+
+    const summary = `${movedComments.modifiedCount} comment(s), ${movedAttachments.modifiedCount} attachment(s)`;
+
+    await TicketHistory.create([
+      {
+        ticketId: sourceId,
+        userId: session.user.id,
+        userName: session.user.name,
+        userRole: session.user.role,
+        action: 'merged',
+        field: 'status',
+        oldValue: oldStatus,
+        newValue: 'closed',
+        description: `Merged into ${targetNumber}`
+      },
+      {
+        ticketId: targetId,
+        userId: session.user.id,
+        userName: session.user.name,
+        userRole: session.user.role,
+        action: 'merged',
+        description: `Merged ${sourceNumber} into this ticket (${summary})`,
+        visibility: sameRequester ? 'public' : 'internal'
+      }
+    ]);
+
+    // Create audit log
+    const requestInfo = getRequestInfo(request);
+    await createAuditLog({
+      who: session.user.id,
+      what: 'merge_tickets',
+      details: `Merged ticket ${sourceNumber} into ${targetNumber}: ${summary} - ${target.title}`,
+      ...requestInfo
+    });
+
+    return NextResponse.json({
+      message: `Ticket merged into ${targetNumber}`,
+      ticket: target,
+      moved: {
+        comments: movedComments.modifiedCount,
+        attachments: movedAttachments.modifiedCount
+      }
+    });
+
+  } catch (error) {
+    console.error('Error merging tickets:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,185 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import Ticket from '@/models/Ticket';
+import TicketHistory from '@/models/TicketHistory';
+import TicketLink from '@/models/TicketLink';
+import Comment from '@/models/Comment';
+import dbConnect from '@/lib/db';
+import { createAuditLog, getRequestInfo } from '@/lib/audit';
+import { applySlaTargets } from '@/lib/sla';
+import { indexTicket } from '@/lib/searchIndex';
+import { formatTicketNumber, formatTicketReference, ticketRefQuery } from '@/lib/ticketNumber';
+import { getTicketOptions } from '@/models/TicketOption';
+import { getDefaultOptionValue, invalidOptionMessage, isSelectableOption } from '@/lib/ticketOptions';
+import { invalidRequest, objectId, text, validateBody } from '@/lib/requestValidation';
+
+// Title, priority and category default to the comment's first line and the original's
+const splitFields = {
+  commentId: objectId(),
+  title: text({ maxLength: 200 }),
+  priority: text({ maxLength: 50 }),
+  category: text({ maxLength: 50 })
+};
+
+// POST /api/admin/tickets/[id]/split - Split a comment into a new ticket, e.g. { commentId, title } (admin only).
+// The new ticket belongs to the same requester, takes the comment as its description and is linked back.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Only admins can split tickets
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const input = await validateBody(request, splitFields);
+    if ('errors' in input) {
+      return invalidRequest(input.errors);
+    }
+    const { commentId, title, priority, category } = input.values;
+
+    await dbConnect();
+    const resolvedParams = await params;
+
+    const original = await Ticket.findOne({ ...ticketRefQuery(resolvedParams.id), deletedAt: null });
+    if (!original) {
+      return NextResponse.json({ error: 'Ticket not found' }, { status: 404 });
+    }
+
+    if (original.mergedInto) {
+      return NextResponse.json(
+        { error: 'This ticket was merged into another ticket and can no longer be changed' },
+        { status: 400 }
+      );
+    }
+
+    const originalId = original._id.toString();
+
+    const comment = await Comment.findOne({ _id: commentId, ticketId: originalId }).catch(() => null);
+    if (!comment) {
+      return NextResponse.json({ error: 'Comment not found' }, { status: 404 });
+    }
+
+    // The requester can read the new ticket's description, so staff-only notes stay where they are
+    if (comment.visibility === 'internal') {
+      return NextResponse.json(
+        { error: 'Internal notes cannot be split into a ticket' },
+        { status: 400 }
+      );
+    }
+
+    if (comment.splitInto) {
+      return NextResponse.json(
+        { error: `This comment was already split into ${formatTicketNumber(comment.splitInto)}` },
+        { status: 400 }
+      );
+    }
+
+    const [priorities, categories] = await Promise.all([
+      getTicketOptions('priority'),
+      getTicketOptions('category')
+    ]);
+
+    if (priority && !isSelectableOption(priorities, priority)) {
+      return NextResponse.json(
+        { error: invalidOptionMessage('priority', priorities) },
+        { status: 400 }
+      );
+    }
+
+    if (category && !isSelectableOption(categories, category)) {
+      return NextResponse.json(
+        { error: invalidOptionMessage('category', categories) },
+        { status: 400 }
+      );
+    }
+
+    // Unless chosen, the new ticket starts with the original's priority and category while they are still offered
+    const ticketPriority = priority
+      || (isSelectableOption(priorities, original.priority) ? original.priority : getDefaultOptionValue('priority', priorities));
+    const ticketCategory = category
+      || (isSelectableOption(categories, original.category) ? original.category : getDefaultOptionValue('category', categories));
+
+    // Without a title, the start of the comment's first line is used
+    const ticketTitle = title || comment.content.split('\n')[0].trim().slice(0, 100);
+    const originalNumber = formatTicketReference(original);
+
+    const ticket = new Ticket({
+      title: ticketTitle,
+      description: comment.content,
+      priority: ticketPriority,
+      category: ticketCategory,
+      userId: original.userId,
+      status: 'new'
+    });
+
+    // Start the first-response and resolution clocks
+    await applySlaTargets(ticket);
+
+    await ticket.save();
+
+    const ticketId = ticket._id.toString();
+    await indexTicket(ticketId);
+    const ticketNumber = formatTicketReference(ticket);
+
+    comment.splitInto = ticket.number;
+    await comment.save();
+
+    await TicketLink.create({
+      sourceId: originalId,
+      targetId: ticketId,
+      type: 'related',
+      createdBy: session.user.id,
+      createdByName: session.user.name
+    });
+
+    await TicketHistory.create([
+      {
+        ticketId,
+        userId: session.user.id,
+        userName: session.user.name,
+        userRole: session.user.role,
+        action: 'created',
+        description: `Split from a comment by ${comment.userName} on ${originalNumber}, with priority: ${ticket.priority}, category: ${ticket.category}`
+      },
+      {
+        ticketId: originalId,
+        userId: session.user.id,
+        userName: session.user.name,
+        userRole: session.user.role,
+        action: 'split',
+        newValue: ticketNumber,
+        description: `Split a comment by ${comment.userName} into ${ticketNumber}`
+      }
+    ]);
+
+    // Create audit log
+    const requestInfo = getRequestInfo(request);
+    await createAuditLog({
+      who: session.user.id,
+      what: 'create_ticket',
+      details: `Split a comment on ${originalNumber} into ticket ${ticketNumber}: ${ticket.title}`,
+      ...requestInfo
+    });
+
+    return NextResponse.json({
+      message: `Comment split into ${ticketNumber}`,
+      ticket
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error splitting ticket:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
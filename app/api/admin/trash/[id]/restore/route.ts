@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import Ticket from '@/models/Ticket';
+import TicketHistory from '@/models/TicketHistory';
+import dbConnect from '@/lib/db';
+import { createAuditLog, getRequestInfo } from '@/lib/audit';
+
+// POST /api/admin/trash/[id]/restore - Restore a ticket from the trash (admin only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Only admins can restore tickets
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    await dbConnect();
+    const resolvedParams = await params;
+
+    const ticket = await Ticket.findOne({ _id: resolvedParams.id, deletedAt: { $ne: null } });
+    if (!ticket) {
+      return NextResponse.json({ error: 'Ticket not found in trash' }, { status: 404 });
+    }
+
+    ticket.deletedAt = null;
+    ticket.deletedBy = null;
+    ticket.deletedByName = null;
+    await ticket.save();
+
+    // Create ticket history entry
+    const history = new TicketHistory({
+      ticketId: ticket._id.toString(),
+      userId: session.user.id,
+      userName: session.user.name,
+      userRole: session.user.role,
+      action: 'restored',
+      description: 'Restored ticket from trash'
+    });
+    await history.save();
+
+    // Create audit log
+    const requestInfo = getRequestInfo(request);
+    await createAuditLog({
+      who: session.user.id,
+      what: 'update_ticket',
+      details: `Restored ticket from trash: ${ticket.title}`,
+      ...requestInfo
+    });
+
+    return NextResponse.json({
+      message: 'Ticket restored successfully',
+      ticket
+    });
+
+  } catch (error) {
+    console.error('Error restoring ticket:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
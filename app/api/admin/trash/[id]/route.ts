@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import Ticket from '@/models/Ticket';
+import TicketHistory from '@/models/TicketHistory';
+import TicketRevision from '@/models/TicketRevision';
+import Comment from '@/models/Comment';
+import Attachment from '@/models/Attachment';
+import TicketLink from '@/models/TicketLink';
+import dbConnect from '@/lib/db';
+import { createAuditLog, getRequestInfo } from '@/lib/audit';
+import { getStorage } from '@/lib/storage';
+import { removeTicketFromIndex } from '@/lib/searchIndex';
+
+// DELETE /api/admin/trash/[id] - Permanently delete a ticket and everything attached to it (admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Only admins can purge tickets
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    await dbConnect();
+    const resolvedParams = await params;
+
+    // Only tickets already in the trash can be purged
+    const ticket = await Ticket.findOne({ _id: resolvedParams.id, deletedAt: { $ne: null } });
+    if (!ticket) {
+      return NextResponse.json({ error: 'Ticket not found in trash' }, { status: 404 });
+    }
+
+    const ticketId = ticket._id.toString();
+
+    // Remove stored files before their records, so nothing is left unreferenced on disk
+    const attachments = await Attachment.find({ ticketId }).select('storageKey');
+    const storage = getStorage();
+    for (const attachment of attachments) {
+      await storage.delete(attachment.storageKey);
+    }
+
+    await Promise.all([
+      Attachment.deleteMany({ ticketId }),
+      Comment.deleteMany({ ticketId }),
+      TicketHistory.deleteMany({ ticketId }),
+      TicketRevision.deleteMany({ ticketId }),
+      TicketLink.deleteMany({ $or: [{ sourceId: ticketId }, { targetId: ticketId }] })
+    ]);
+    await Ticket.findByIdAndDelete(ticketId);
+    await removeTicketFromIndex(ticketId);
+
+    // Create audit log
+    const requestInfo = getRequestInfo(request);
+    await createAuditLog({
+      who: session.user.id,
+      what: 'delete_ticket',
+      details: `Permanently deleted ticket: ${ticket.title}`,
+      ...requestInfo
+    });
+
+    return NextResponse.json({
+      message: 'Ticket permanently deleted'
+    });
+
+  } catch (error) {
+    console.error('Error purging ticket:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import Ticket from '@/models/Ticket';
+import dbConnect from '@/lib/db';
+import { integer, invalidRequest, validateQuery } from '@/lib/requestValidation';
+
+const trashParams = {
+  page: integer({ min: 1, max: 10000, default: 1 }),
+  limit: integer({ min: 1, max: 100, default: 20 })
+};
+
+// GET /api/admin/trash - List tickets in the trash (admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Only admins can see the trash
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const params = validateQuery(searchParams, trashParams);
+    if ('errors' in params) {
+      return invalidRequest(params.errors);
+    }
+    const { page, limit } = params.values;
+
+    await dbConnect();
+
+    const query = { deletedAt: { $ne: null } };
+
+    const [tickets, totalCount] = await Promise.all([
+      Ticket.find(query)
+        .select('number title status priority category userId deletedAt deletedBy deletedByName createdAt')
+        .sort({ deletedAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      Ticket.countDocuments(query)
+    ]);
+
+    return NextResponse.json({
+      tickets,
+      pagination: {
+        page,
+        limit,
+        totalCount,
+        totalPages: Math.ceil(totalCount / limit),
+        hasNext: page < Math.ceil(totalCount / limit),
+        hasPrev: page > 1
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching trash:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import User from '@/models/User';
+import dbConnect from '@/lib/db';
+import { invalidRequest, oneOf, validateQuery } from '@/lib/requestValidation';
+
+const userListParams = {
+  role: oneOf(['all', 'user', 'admin'], 'all')
+};
+
+// GET /api/admin/users - List users (admin only), optionally filtered by role
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Only admins can list users
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const params = validateQuery(searchParams, userListParams);
+    if ('errors' in params) {
+      return invalidRequest(params.errors);
+    }
+    const { role } = params.values;
+
+    await dbConnect();
+
+    // Never expose password hashes
+    const users = await User.find(role !== 'all' ? { role } : {})
+      .select('name email role')
+      .sort({ name: 1 });
+
+    return NextResponse.json({ users });
+
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import Attachment from '@/models/Attachment';
+import Ticket from '@/models/Ticket';
+import dbConnect from '@/lib/db';
+import { getStorage } from '@/lib/storage';
+import { isPreviewable } from '@/lib/attachmentRules';
+import { boolean, invalidRequest, validateQuery } from '@/lib/requestValidation';
+
+const attachmentParams = {
+  download: boolean({ default: false })
+};
+
+// GET /api/attachments/[id] - Download an attachment (?download=1 forces a download instead of a preview)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = validateQuery(searchParams, attachmentParams);
+    if ('errors' in query) {
+      return invalidRequest(query.errors);
+    }
+
+    await dbConnect();
+    const resolvedParams = await params;
+
+    const attachment = await Attachment.findById(resolvedParams.id);
+    if (!attachment) {
+      return NextResponse.json({ error: 'Attachment not found' }, { status: 404 });
+    }
+
+    // Access control follows the ticket: owners, admins and (for known issues) everyone, internal files for admins only
+    const ticket = await Ticket.findOne({ _id: attachment.ticketId, deletedAt: null });
+    if (!ticket) {
+      return NextResponse.json({ error: 'Attachment not found' }, { status: 404 });
+    }
+
+    const isAdmin = session.user.role === 'admin';
+    if (!isAdmin && ((ticket.userId !== session.user.id && !ticket.knownIssue) || attachment.visibility === 'internal')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const data = await getStorage().read(attachment.storageKey);
+
+    const inline = !query.values.download && isPreviewable(attachment.contentType);
+    const filename = encodeURIComponent(attachment.filename);
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        'Content-Type': attachment.contentType,
+        'Content-Length': data.length.toString(),
+        'Content-Disposition': `${inline ? 'inline' : 'attachment'}; filename*=UTF-8''${filename}`,
+        // Never let the browser reinterpret an upload as something executable
+        'X-Content-Type-Options': 'nosniff',
+        'Content-Security-Policy': 'sandbox',
+        'Cache-Control': 'private, max-age=3600'
+      }
+    });
+
+  } catch (error) {
+    console.error('Error downloading attachment:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
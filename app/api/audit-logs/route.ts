@@ -1,7 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
-import { getAuditLogs, createAuditLog, getRequestInfo } from '@/lib/audit';
+import { AUDIT_LOG_SORT, getAuditLogs, createAuditLog, getRequestInfo } from '@/lib/audit';
+import { COUNT_MODES, decodeCursor } from '@/lib/pagination';
+import { integer, invalidRequest, oneOf, text, validateQuery } from '@/lib/requestValidation';
+
+const auditLogParams = {
+  limit: integer({ min: 1, max: 200, default: 50 }),
+  cursor: text({ maxLength: 1000 }),
+  count: oneOf(COUNT_MODES, 'approximate')
+};
 
 // GET /api/audit-logs - Get audit logs (admin only)
 export async function GET(request: NextRequest) {
@@ -19,11 +27,19 @@ export async function GET(request: NextRequest) {
 
     // Get query parameters
     const { searchParams } = new URL(request.url);
-    const limit = parseInt(searchParams.get('limit') || '50');
-    const skip = parseInt(searchParams.get('skip') || '0');
+    const params = validateQuery(searchParams, auditLogParams);
+    if ('errors' in params) {
+      return invalidRequest(params.errors);
+    }
+    const { limit, cursor, count } = params.values;
+
+    const position = cursor ? decodeCursor(cursor, AUDIT_LOG_SORT) : null;
+    if (cursor && !position) {
+      return invalidRequest([{ field: 'cursor', message: 'Is malformed or belongs to another sort. Start again from the first page' }]);
+    }
 
     // Fetch audit logs
-    const result = await getAuditLogs(limit, skip);
+    const result = await getAuditLogs(limit, position, count);
 
     // Create audit log for viewing audit logs
     const requestInfo = getRequestInfo(request);
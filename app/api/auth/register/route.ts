@@ -3,25 +3,29 @@ import bcrypt from 'bcrypt';
 import User from '@/models/User';
 import dbConnect from '@/lib/db';
 import { createAuditLog, getRequestInfo } from '@/lib/audit';
+import { Rule, invalidRequest, text, validateBody } from '@/lib/requestValidation';
 
-export async function POST(request: NextRequest) {
-  try {
-    const { name, email, password } = await request.json();
+// Passwords are taken as typed, without trimming
+const password: Rule<string> = (raw) => {
+  if (typeof raw !== 'string' || raw.length < 6) {
+    return { error: 'Must be at least 6 characters long' };
+  }
+  return { value: raw };
+};
 
-    // Validation
-    if (!name || !email || !password) {
-      return NextResponse.json(
-        { error: 'Name, email, and password are required' },
-        { status: 400 }
-      );
-    }
+const registrationFields = {
+  name: text({ required: true, maxLength: 100 }),
+  email: text({ required: true, maxLength: 254 }),
+  password
+};
 
-    if (password.length < 6) {
-      return NextResponse.json(
-        { error: 'Password must be at least 6 characters long' },
-        { status: 400 }
-      );
+export async function POST(request: NextRequest) {
+  try {
+    const input = await validateBody(request, registrationFields);
+    if ('errors' in input) {
+      return invalidRequest(input.errors);
     }
+    const { name, email, password } = input.values;
 
     // Email validation
     const emailRegex = /^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,3})+$/;
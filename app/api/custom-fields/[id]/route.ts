@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import { authOptions } from '@/lib/auth';
+import CustomField from '@/models/CustomField';
+import dbConnect from '@/lib/db';
+import { createAuditLog, getRequestInfo } from '@/lib/audit';
+import { validateCustomFieldDefinition } from '@/lib/customFields';
+import {
+  boolean,
+  integer,
+  invalidRequest,
+  list,
+  modelValidationErrors,
+  optional,
+  text,
+  validateBody
+} from '@/lib/requestValidation';
+
+// Every field is optional, only those sent are changed
+const customFieldUpdateFields = {
+  label: optional(text({ required: true, maxLength: 100 })),
+  options: optional(list(text({ required: true, maxLength: 100 }))),
+  required: optional(boolean()),
+  sortOrder: optional(integer({ min: -10000, max: 10000 }))
+};
+
+// PUT /api/custom-fields/[id] - Update a custom field (admin only).
+// The key, type and category are fixed once created, since tickets already store values under them.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Only admins can manage custom fields
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const input = await validateBody(request, customFieldUpdateFields);
+    if ('errors' in input) {
+      return invalidRequest(input.errors);
+    }
+    const { label, options, required, sortOrder } = input.values;
+
+    await dbConnect();
+    const resolvedParams = await params;
+
+    const field = mongoose.isValidObjectId(resolvedParams.id) ? await CustomField.findById(resolvedParams.id) : null;
+    if (!field) {
+      return NextResponse.json({ error: 'Custom field not found' }, { status: 404 });
+    }
+
+    const validationError = validateCustomFieldDefinition({
+      label,
+      type: field.type,
+      options: field.type === 'select' ? (options ?? field.options) : undefined
+    });
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    if (label !== undefined) field.label = label;
+    if (options !== undefined && field.type === 'select') field.options = options;
+    if (required !== undefined) field.required = required;
+    if (sortOrder !== undefined) field.sortOrder = sortOrder;
+
+    await field.save();
+
+    // Create audit log
+    const requestInfo = getRequestInfo(request);
+    await createAuditLog({
+      who: session.user.id,
+      what: 'update_settings',
+      details: `Updated custom field: ${field.label} (${field.category})`,
+      ...requestInfo
+    });
+
+    return NextResponse.json({
+      message: 'Custom field updated successfully',
+      field
+    });
+
+  } catch (error) {
+    const fieldErrors = modelValidationErrors(error);
+    if (fieldErrors) {
+      return invalidRequest(fieldErrors);
+    }
+
+    console.error('Error updating custom field:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/custom-fields/[id] - Delete a custom field (admin only). Values already on tickets are kept.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Only admins can manage custom fields
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    await dbConnect();
+    const resolvedParams = await params;
+
+    const field = mongoose.isValidObjectId(resolvedParams.id) ? await CustomField.findByIdAndDelete(resolvedParams.id) : null;
+    if (!field) {
+      return NextResponse.json({ error: 'Custom field not found' }, { status: 404 });
+    }
+
+    // Create audit log
+    const requestInfo = getRequestInfo(request);
+    await createAuditLog({
+      who: session.user.id,
+      what: 'update_settings',
+      details: `Deleted custom field: ${field.label} (${field.category})`,
+      ...requestInfo
+    });
+
+    return NextResponse.json({
+      message: 'Custom field deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Error deleting custom field:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
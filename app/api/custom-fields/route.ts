@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import CustomField from '@/models/CustomField';
+import dbConnect from '@/lib/db';
+import { createAuditLog, getRequestInfo } from '@/lib/audit';
+import { CUSTOM_FIELD_TYPES, validateCustomFieldDefinition } from '@/lib/customFields';
+import { invalidOptionMessage, isSelectableOption } from '@/lib/ticketOptions';
+import { getTicketOptions } from '@/models/TicketOption';
+import {
+  boolean,
+  integer,
+  invalidRequest,
+  list,
+  modelValidationErrors,
+  oneOf,
+  text,
+  validateBody,
+  validateQuery
+} from '@/lib/requestValidation';
+
+const customFieldListParams = {
+  category: text({ maxLength: 50 })
+};
+
+const newCustomFieldFields = {
+  key: text({ required: true, maxLength: 50 }),
+  label: text({ required: true, maxLength: 100 }),
+  type: oneOf(CUSTOM_FIELD_TYPES),
+  category: text({ required: true, maxLength: 50 }),
+  // Only kept for select fields
+  options: list(text({ required: true, maxLength: 100 }), { default: [] }),
+  required: boolean({ default: false }),
+  sortOrder: integer({ min: -10000, max: 10000, default: 0 })
+};
+
+// GET /api/custom-fields - List custom field definitions, optionally for one category
+// (everyone needs them to fill in the create form)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const params = validateQuery(searchParams, customFieldListParams);
+    if ('errors' in params) {
+      return invalidRequest(params.errors);
+    }
+    const { category } = params.values;
+
+    await dbConnect();
+
+    const fields = await CustomField.find(category ? { category } : {})
+      .sort({ category: 1, sortOrder: 1, label: 1 });
+
+    return NextResponse.json({ fields });
+
+  } catch (error) {
+    console.error('Error fetching custom fields:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/custom-fields - Define a custom field for a category (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Only admins can manage custom fields
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const input = await validateBody(request, newCustomFieldFields);
+    if ('errors' in input) {
+      return invalidRequest(input.errors);
+    }
+    const { key, label, type, category, options, required, sortOrder } = input.values;
+
+    const validationError = validateCustomFieldDefinition({ key, label, type, options });
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    const categories = await getTicketOptions('category');
+    if (!isSelectableOption(categories, category)) {
+      return NextResponse.json(
+        { error: invalidOptionMessage('category', categories) },
+        { status: 400 }
+      );
+    }
+
+    const existing = await CustomField.findOne({ category, key });
+    if (existing) {
+      return NextResponse.json(
+        { error: 'A field with this key already exists for this category' },
+        { status: 409 }
+      );
+    }
+
+    const field = new CustomField({
+      key,
+      label,
+      type,
+      category,
+      options: type === 'select' ? options : [],
+      required,
+      sortOrder
+    });
+
+    await field.save();
+
+    // Create audit log
+    const requestInfo = getRequestInfo(request);
+    await createAuditLog({
+      who: session.user.id,
+      what: 'update_settings',
+      details: `Created custom field: ${field.label} (${field.type}) for ${field.category}`,
+      ...requestInfo
+    });
+
+    return NextResponse.json({
+      message: 'Custom field created successfully',
+      field
+    }, { status: 201 });
+
+  } catch (error) {
+    const fieldErrors = modelValidationErrors(error);
+    if (fieldErrors) {
+      return invalidRequest(fieldErrors);
+    }
+
+    console.error('Error creating custom field:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
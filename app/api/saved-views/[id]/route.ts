@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import SavedView from '@/models/SavedView';
+import User from '@/models/User';
+import dbConnect from '@/lib/db';
+import { MAX_VIEW_NAME_LENGTH, MAX_VIEW_QUERY_LENGTH, normalizeViewQuery } from '@/lib/savedViews';
+import { boolean, invalidRequest, optional, text, validateBody } from '@/lib/requestValidation';
+
+// Only the fields sent are changed
+const viewUpdateFields = {
+  name: optional(text({ required: true, maxLength: MAX_VIEW_NAME_LENGTH })),
+  query: optional(text({ maxLength: MAX_VIEW_QUERY_LENGTH })),
+  shared: optional(boolean())
+};
+
+// PUT /api/saved-views/[id] - Rename, re-save or (un)share a view (owner only)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const input = await validateBody(request, viewUpdateFields);
+    if ('errors' in input) {
+      return invalidRequest(input.errors);
+    }
+    const { name, query, shared } = input.values;
+
+    if (shared && session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    await dbConnect();
+    const resolvedParams = await params;
+
+    const view = await SavedView.findById(resolvedParams.id).catch(() => null);
+    if (!view) {
+      return NextResponse.json({ error: 'View not found' }, { status: 404 });
+    }
+
+    // Shared views can be used by every admin, but only changed by their owner
+    if (view.ownerId !== session.user.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    if (name !== undefined && name !== view.name) {
+      const existing = await SavedView.findOne({ ownerId: session.user.id, name });
+      if (existing) {
+        return NextResponse.json(
+          { error: 'You already have a view with this name' },
+          { status: 409 }
+        );
+      }
+      view.name = name;
+    }
+    if (query !== undefined) view.query = normalizeViewQuery(query);
+    if (shared !== undefined) view.shared = shared;
+
+    await view.save();
+
+    return NextResponse.json({
+      message: 'View updated successfully',
+      view
+    });
+
+  } catch (error) {
+    console.error('Error updating saved view:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/saved-views/[id] - Delete a view (owner only). Users who had it as their default fall back to no default.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await dbConnect();
+    const resolvedParams = await params;
+
+    const view = await SavedView.findById(resolvedParams.id).catch(() => null);
+    if (!view) {
+      return NextResponse.json({ error: 'View not found' }, { status: 404 });
+    }
+
+    if (view.ownerId !== session.user.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    await view.deleteOne();
+    await User.updateMany({ defaultViewId: view._id.toString() }, { defaultViewId: null });
+
+    return NextResponse.json({
+      message: 'View deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Error deleting saved view:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
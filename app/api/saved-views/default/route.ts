@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import SavedView from '@/models/SavedView';
+import User from '@/models/User';
+import dbConnect from '@/lib/db';
+import { invalidRequest, objectIdOrNull, validateBody } from '@/lib/requestValidation';
+
+const defaultViewFields = {
+  viewId: objectIdOrNull()
+};
+
+// PUT /api/saved-views/default - Choose the view the dashboard opens with, e.g. { viewId }, or { viewId: null } for none
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const input = await validateBody(request, defaultViewFields);
+    if ('errors' in input) {
+      return invalidRequest(input.errors);
+    }
+    const { viewId } = input.values;
+
+    await dbConnect();
+
+    if (viewId) {
+      // Users may pick their own views, admins also shared ones
+      const view = await SavedView.findById(viewId);
+      const visible = view && (view.ownerId === session.user.id || (view.shared && session.user.role === 'admin'));
+      if (!visible) {
+        return NextResponse.json({ error: 'View not found' }, { status: 404 });
+      }
+    }
+
+    await User.findByIdAndUpdate(session.user.id, { defaultViewId: viewId || null });
+
+    return NextResponse.json({
+      message: viewId ? 'Default view updated' : 'Default view cleared',
+      defaultViewId: viewId || null
+    });
+
+  } catch (error) {
+    console.error('Error updating default view:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
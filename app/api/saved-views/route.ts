@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import SavedView from '@/models/SavedView';
+import User from '@/models/User';
+import dbConnect from '@/lib/db';
+import { MAX_VIEW_NAME_LENGTH, MAX_VIEW_QUERY_LENGTH, normalizeViewQuery } from '@/lib/savedViews';
+import { boolean, invalidRequest, text, validateBody } from '@/lib/requestValidation';
+
+const newViewFields = {
+  name: text({ required: true, maxLength: MAX_VIEW_NAME_LENGTH }),
+  query: text({ maxLength: MAX_VIEW_QUERY_LENGTH }),
+  shared: boolean({ default: false })
+};
+
+// GET /api/saved-views - List the user's own views, plus views shared with admins, and their default view
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await dbConnect();
+
+    const query = session.user.role === 'admin'
+      ? { $or: [{ ownerId: session.user.id }, { shared: true }] }
+      : { ownerId: session.user.id };
+
+    const [views, user] = await Promise.all([
+      SavedView.find(query).sort({ name: 1 }),
+      User.findById(session.user.id).select('defaultViewId')
+    ]);
+
+    // A default that was deleted or unshared since is ignored
+    const defaultViewId = views.some(view => view._id.toString() === user?.defaultViewId)
+      ? user?.defaultViewId
+      : null;
+
+    return NextResponse.json({ views, defaultViewId });
+
+  } catch (error) {
+    console.error('Error fetching saved views:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/saved-views - Save the current filters as a named view, e.g. { name, query: 'status=new', shared }
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const input = await validateBody(request, newViewFields);
+    if ('errors' in input) {
+      return invalidRequest(input.errors);
+    }
+    const { name, query, shared } = input.values;
+
+    // Views are shared with admins, so only admins can share them
+    if (shared && session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    await dbConnect();
+
+    const existing = await SavedView.findOne({ ownerId: session.user.id, name });
+    if (existing) {
+      return NextResponse.json(
+        { error: 'You already have a view with this name' },
+        { status: 409 }
+      );
+    }
+
+    const view = new SavedView({
+      name,
+      query: normalizeViewQuery(query),
+      ownerId: session.user.id,
+      ownerName: session.user.name,
+      shared
+    });
+
+    await view.save();
+
+    return NextResponse.json({
+      message: 'View saved successfully',
+      view
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error creating saved view:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
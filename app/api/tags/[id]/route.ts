@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import { authOptions } from '@/lib/auth';
+import Tag from '@/models/Tag';
+import Ticket from '@/models/Ticket';
+import dbConnect from '@/lib/db';
+import { createAuditLog, getRequestInfo } from '@/lib/audit';
+import {
+  hexColor,
+  invalidRequest,
+  modelValidationErrors,
+  optional,
+  tagName,
+  text,
+  validateBody
+} from '@/lib/requestValidation';
+
+// Every field is optional, only those sent are changed
+const tagUpdateFields = {
+  name: optional(tagName()),
+  color: optional(hexColor()),
+  description: optional(text({ maxLength: 200 }))
+};
+
+// PUT /api/tags/[id] - Update a catalog tag (admin only). Renaming also renames it on tickets.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Only admins can manage the tag catalog
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const input = await validateBody(request, tagUpdateFields);
+    if ('errors' in input) {
+      return invalidRequest(input.errors);
+    }
+    const { name, color, description } = input.values;
+
+    await dbConnect();
+    const resolvedParams = await params;
+
+    const tag = mongoose.isValidObjectId(resolvedParams.id) ? await Tag.findById(resolvedParams.id) : null;
+    if (!tag) {
+      return NextResponse.json({ error: 'Tag not found' }, { status: 404 });
+    }
+
+    const oldName = tag.name;
+    const newName = name ?? oldName;
+
+    if (newName !== oldName) {
+      const existing = await Tag.findOne({ name: newName });
+      if (existing) {
+        return NextResponse.json(
+          { error: 'A tag with this name already exists' },
+          { status: 409 }
+        );
+      }
+      tag.name = newName;
+    }
+    if (color !== undefined) tag.color = color;
+    if (description !== undefined) tag.description = description;
+
+    await tag.save();
+
+    if (newName !== oldName) {
+      // Tickets that already have the new name just lose the old one
+      await Ticket.updateMany({ tags: { $all: [oldName, newName] } }, { $pull: { tags: oldName } });
+      await Ticket.updateMany({ tags: oldName }, { $set: { 'tags.$': newName } });
+    }
+
+    // Create audit log
+    const requestInfo = getRequestInfo(request);
+    await createAuditLog({
+      who: session.user.id,
+      what: 'update_settings',
+      details: newName !== oldName ? `Renamed tag ${oldName} to ${newName}` : `Updated tag: ${tag.name}`,
+      ...requestInfo
+    });
+
+    return NextResponse.json({
+      message: 'Tag updated successfully',
+      tag
+    });
+
+  } catch (error) {
+    const fieldErrors = modelValidationErrors(error);
+    if (fieldErrors) {
+      return invalidRequest(fieldErrors);
+    }
+
+    console.error('Error updating tag:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/tags/[id] - Remove a tag from the catalog (admin only). Tickets keep the tag, without a color.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Only admins can manage the tag catalog
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    await dbConnect();
+    const resolvedParams = await params;
+
+    const tag = mongoose.isValidObjectId(resolvedParams.id) ? await Tag.findByIdAndDelete(resolvedParams.id) : null;
+    if (!tag) {
+      return NextResponse.json({ error: 'Tag not found' }, { status: 404 });
+    }
+
+    // Create audit log
+    const requestInfo = getRequestInfo(request);
+    await createAuditLog({
+      who: session.user.id,
+      what: 'update_settings',
+      details: `Deleted tag: ${tag.name}`,
+      ...requestInfo
+    });
+
+    return NextResponse.json({
+      message: 'Tag deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Error deleting tag:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
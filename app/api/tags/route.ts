@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import Tag from '@/models/Tag';
+import dbConnect from '@/lib/db';
+import { createAuditLog, getRequestInfo } from '@/lib/audit';
+import { hexColor, invalidRequest, modelValidationErrors, tagName, text, validateBody } from '@/lib/requestValidation';
+
+const newTagFields = {
+  name: tagName(),
+  color: hexColor(),
+  description: text({ maxLength: 200 })
+};
+
+// GET /api/tags - List the tag catalog (everyone needs it to render tag colors)
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await dbConnect();
+
+    const tags = await Tag.find({}).sort({ name: 1 });
+
+    return NextResponse.json({ tags });
+
+  } catch (error) {
+    console.error('Error fetching tags:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/tags - Add a tag to the catalog (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Only admins can manage the tag catalog
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const input = await validateBody(request, newTagFields);
+    if ('errors' in input) {
+      return invalidRequest(input.errors);
+    }
+    const { name, color, description } = input.values;
+
+    await dbConnect();
+
+    const existing = await Tag.findOne({ name });
+    if (existing) {
+      return NextResponse.json(
+        { error: 'A tag with this name already exists' },
+        { status: 409 }
+      );
+    }
+
+    const tag = new Tag({
+      name,
+      color,
+      description
+    });
+
+    await tag.save();
+
+    // Create audit log
+    const requestInfo = getRequestInfo(request);
+    await createAuditLog({
+      who: session.user.id,
+      what: 'update_settings',
+      details: `Created tag: ${tag.name}`,
+      ...requestInfo
+    });
+
+    return NextResponse.json({
+      message: 'Tag created successfully',
+      tag
+    }, { status: 201 });
+
+  } catch (error) {
+    const fieldErrors = modelValidationErrors(error);
+    if (fieldErrors) {
+      return invalidRequest(fieldErrors);
+    }
+
+    console.error('Error creating tag:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import { authOptions } from '@/lib/auth';
+import TicketOption from '@/models/TicketOption';
+import dbConnect from '@/lib/db';
+import { createAuditLog, getRequestInfo } from '@/lib/audit';
+import { MAX_OPTION_LABEL_LENGTH, OPTION_KIND_LABELS, TicketOptionKind, validateTicketOptionInput } from '@/lib/ticketOptions';
+import {
+  boolean,
+  hexColor,
+  integer,
+  invalidRequest,
+  modelValidationErrors,
+  optional,
+  text,
+  validateBody
+} from '@/lib/requestValidation';
+
+// Every field is optional, only those sent are changed
+const optionUpdateFields = {
+  label: optional(text({ required: true, maxLength: MAX_OPTION_LABEL_LENGTH })),
+  color: optional(hexColor()),
+  sortOrder: optional(integer({ min: -10000, max: 10000 })),
+  retired: optional(boolean())
+};
+
+// PUT /api/ticket-options/[id] - Rename, recolor, reorder, retire or restore a priority or category (admin only).
+// The value is fixed once created since tickets store it; retired options stay displayable on old tickets.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Only admins can manage priorities and categories
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const input = await validateBody(request, optionUpdateFields);
+    if ('errors' in input) {
+      return invalidRequest(input.errors);
+    }
+    const { label, color, sortOrder, retired } = input.values;
+
+    const validationError = validateTicketOptionInput({ label, color, sortOrder });
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+    const resolvedParams = await params;
+
+    const option = mongoose.isValidObjectId(resolvedParams.id) ? await TicketOption.findById(resolvedParams.id) : null;
+    if (!option) {
+      return NextResponse.json({ error: 'Option not found' }, { status: 404 });
+    }
+
+    const kindLabel = OPTION_KIND_LABELS[option.kind as TicketOptionKind];
+
+    // Tickets always need something to choose from
+    if (retired && !option.retired) {
+      const activeCount = await TicketOption.countDocuments({ kind: option.kind, retired: false });
+      if (activeCount <= 1) {
+        return NextResponse.json(
+          { error: `Cannot retire the last active ${option.kind}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const wasRetired = option.retired;
+
+    if (label !== undefined) option.label = label;
+    if (color !== undefined) option.color = color;
+    if (sortOrder !== undefined) option.sortOrder = sortOrder;
+    if (retired !== undefined) option.retired = retired;
+
+    await option.save();
+
+    // Create audit log
+    const requestInfo = getRequestInfo(request);
+    await createAuditLog({
+      who: session.user.id,
+      what: 'update_settings',
+      details: option.retired !== wasRetired
+        ? `${option.retired ? 'Retired' : 'Restored'} ${kindLabel.toLowerCase()}: ${option.label} (${option.value})`
+        : `Updated ${kindLabel.toLowerCase()}: ${option.label} (${option.value})`,
+      ...requestInfo
+    });
+
+    return NextResponse.json({
+      message: `${kindLabel} updated successfully`,
+      option
+    });
+
+  } catch (error) {
+    const fieldErrors = modelValidationErrors(error);
+    if (fieldErrors) {
+      return invalidRequest(fieldErrors);
+    }
+
+    console.error('Error updating ticket option:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
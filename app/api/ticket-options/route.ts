@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import TicketOption, { getTicketOptions } from '@/models/TicketOption';
+import dbConnect from '@/lib/db';
+import { createAuditLog, getRequestInfo } from '@/lib/audit';
+import {
+  MAX_OPTION_LABEL_LENGTH,
+  OPTION_KIND_LABELS,
+  TICKET_OPTION_KINDS,
+  validateTicketOptionInput
+} from '@/lib/ticketOptions';
+import {
+  hexColor,
+  integer,
+  invalidRequest,
+  modelValidationErrors,
+  oneOf,
+  optional,
+  text,
+  validateBody
+} from '@/lib/requestValidation';
+
+const newOptionFields = {
+  kind: oneOf(TICKET_OPTION_KINDS),
+  value: text({ required: true, maxLength: 50 }),
+  label: text({ required: true, maxLength: MAX_OPTION_LABEL_LENGTH }),
+  color: hexColor(),
+  // Added last unless given
+  sortOrder: optional(integer({ min: -10000, max: 10000 }))
+};
+
+// GET /api/ticket-options - List priorities and categories, including retired ones
+// (everyone needs them to label tickets and fill in forms)
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await dbConnect();
+
+    const [priorities, categories] = await Promise.all([
+      getTicketOptions('priority'),
+      getTicketOptions('category')
+    ]);
+
+    return NextResponse.json({ priorities, categories });
+
+  } catch (error) {
+    console.error('Error fetching ticket options:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/ticket-options - Add a priority or category (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Only admins can manage priorities and categories
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const input = await validateBody(request, newOptionFields);
+    if ('errors' in input) {
+      return invalidRequest(input.errors);
+    }
+    const { kind, value, label, color, sortOrder } = input.values;
+
+    const validationError = validateTicketOptionInput({ kind, value, label, color, sortOrder });
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    // Seed the defaults first so they aren't skipped because this kind is no longer empty
+    const options = await getTicketOptions(kind);
+    if (options.some(option => option.value === value)) {
+      return NextResponse.json(
+        { error: `A ${kind} with this value already exists` },
+        { status: 409 }
+      );
+    }
+
+    const option = new TicketOption({
+      kind,
+      value,
+      label,
+      color,
+      sortOrder: sortOrder ?? options.length
+    });
+
+    await option.save();
+
+    // Create audit log
+    const requestInfo = getRequestInfo(request);
+    await createAuditLog({
+      who: session.user.id,
+      what: 'update_settings',
+      details: `Created ${OPTION_KIND_LABELS[kind].toLowerCase()}: ${option.label} (${option.value})`,
+      ...requestInfo
+    });
+
+    return NextResponse.json({
+      message: `${OPTION_KIND_LABELS[kind]} created successfully`,
+      option
+    }, { status: 201 });
+
+  } catch (error) {
+    const fieldErrors = modelValidationErrors(error);
+    if (fieldErrors) {
+      return invalidRequest(fieldErrors);
+    }
+
+    console.error('Error creating ticket option:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import Attachment from '@/models/Attachment';
+import Ticket from '@/models/Ticket';
+import TicketHistory from '@/models/TicketHistory';
+import dbConnect from '@/lib/db';
+import { ticketRefQuery } from '@/lib/ticketNumber';
+import { createAuditLog, getRequestInfo } from '@/lib/audit';
+import { readRequestWithFiles, saveAttachments } from '@/lib/attachments';
+import { invalidRequest } from '@/lib/requestValidation';
+import { validateAttachments } from '@/lib/attachmentRules';
+
+// GET /api/tickets/[id]/attachments - List attachments on a ticket and its comments
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await dbConnect();
+    const resolvedParams = await params;
+
+    // Check if ticket exists and user has access
+    const ticket = await Ticket.findOne({ ...ticketRefQuery(resolvedParams.id), deletedAt: null });
+    if (!ticket) {
+      return NextResponse.json({ error: 'Ticket not found' }, { status: 404 });
+    }
+
+    // Access control: users can only see attachments on their own tickets and known issues, admins can see all
+    if (session.user.role !== 'admin' && ticket.userId !== session.user.id && !ticket.knownIssue) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    // Files on internal notes are only visible to admins
+    const query: Record<string, unknown> = { ticketId: ticket._id.toString() };
+    if (session.user.role !== 'admin') {
+      query.visibility = { $ne: 'internal' };
+    }
+
+    const attachments = await Attachment.find(query)
+      .select('-storageKey')
+      .sort({ createdAt: 1 });
+
+    return NextResponse.json({ attachments });
+
+  } catch (error) {
+    console.error('Error fetching attachments:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/tickets/[id]/attachments - Attach files to a ticket (multipart form data)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await readRequestWithFiles(request);
+    if ('errors' in body) {
+      return invalidRequest(body.errors);
+    }
+    const { files } = body;
+
+    if (files.length === 0) {
+      return NextResponse.json(
+        { error: 'At least one file is required' },
+        { status: 400 }
+      );
+    }
+
+    const attachmentError = validateAttachments(files);
+    if (attachmentError) {
+      return NextResponse.json(
+        { error: attachmentError },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+    const resolvedParams = await params;
+
+    // Check if ticket exists and user has access
+    const ticket = await Ticket.findOne({ ...ticketRefQuery(resolvedParams.id), deletedAt: null });
+    if (!ticket) {
+      return NextResponse.json({ error: 'Ticket not found' }, { status: 404 });
+    }
+
+    // Access control: users can only attach files to their own tickets, admins can attach to any
+    if (session.user.role !== 'admin' && ticket.userId !== session.user.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    // The conversation continues on the ticket it was merged into
+    if (ticket.mergedInto) {
+      return NextResponse.json(
+        { error: 'This ticket was merged into another ticket and can no longer be changed' },
+        { status: 400 }
+      );
+    }
+
+    const attachments = await saveAttachments(files, {
+      ticketId: ticket._id.toString(),
+      userId: session.user.id,
+      userName: session.user.name
+    });
+
+    const filenames = attachments.map(a => a.filename).join(', ');
+
+    // Create ticket history entry
+    const history = new TicketHistory({
+      ticketId: ticket._id.toString(),
+      userId: session.user.id,
+      userName: session.user.name,
+      userRole: session.user.role,
+      action: 'updated',
+      field: 'attachments',
+      newValue: filenames,
+      description: `Attached ${filenames}`.substring(0, 500)
+    });
+    await history.save();
+
+    // Create audit log
+    const requestInfo = getRequestInfo(request);
+    await createAuditLog({
+      who: session.user.id,
+      what: 'update_ticket',
+      details: `Attached ${attachments.length} file(s) to ticket: ${ticket.title}`,
+      ...requestInfo
+    });
+
+    return NextResponse.json({
+      message: 'Files attached successfully',
+      attachments
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error uploading attachments:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
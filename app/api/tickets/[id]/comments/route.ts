@@ -5,7 +5,17 @@ import Comment from '@/models/Comment';
 import Ticket from '@/models/Ticket';
 import TicketHistory from '@/models/TicketHistory';
 import dbConnect from '@/lib/db';
+import { ticketRefQuery } from '@/lib/ticketNumber';
 import { createAuditLog, getRequestInfo } from '@/lib/audit';
+import { readRequestWithFiles, saveAttachments } from '@/lib/attachments';
+import { validateAttachments } from '@/lib/attachmentRules';
+import { indexTicket } from '@/lib/searchIndex';
+import { invalidRequest, oneOf, text, validateFields } from '@/lib/requestValidation';
+
+const newCommentFields = {
+  content: text({ required: true, maxLength: 1000 }),
+  visibility: oneOf(['public', 'internal'] as const, 'public')
+};
 
 // GET /api/tickets/[id]/comments - Get comments for a ticket
 export async function GET(
@@ -23,18 +33,23 @@ export async function GET(
     const resolvedParams = await params;
 
     // Check if ticket exists and user has access
-    const ticket = await Ticket.findById(resolvedParams.id);
+    const ticket = await Ticket.findOne({ ...ticketRefQuery(resolvedParams.id), deletedAt: null });
     if (!ticket) {
       return NextResponse.json({ error: 'Ticket not found' }, { status: 404 });
     }
 
-    // Access control: users can only see comments on their own tickets, admins can see all
-    if (session.user.role !== 'admin' && ticket.userId !== session.user.id) {
+    // Access control: users can only see comments on their own tickets and known issues, admins can see all
+    if (session.user.role !== 'admin' && ticket.userId !== session.user.id && !ticket.knownIssue) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
-    // Get comments
-    const comments = await Comment.find({ ticketId: resolvedParams.id })
+    // Get comments, internal notes are only visible to admins
+    const query: Record<string, unknown> = { ticketId: ticket._id.toString() };
+    if (session.user.role !== 'admin') {
+      query.visibility = { $ne: 'internal' };
+    }
+
+    const comments = await Comment.find(query)
       .sort({ createdAt: 1 });
 
     return NextResponse.json({ comments });
@@ -60,18 +75,29 @@ export async function POST(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const { content } = await request.json();
+    // Accepts JSON, or multipart form data when files are attached
+    const body = await readRequestWithFiles(request);
+    if ('errors' in body) {
+      return invalidRequest(body.errors);
+    }
+    const { fields, files } = body;
+    const input = validateFields(fields, newCommentFields);
+    if ('errors' in input) {
+      return invalidRequest(input.errors);
+    }
+    const { content, visibility } = input.values;
 
-    if (!content || content.trim().length === 0) {
-      return NextResponse.json(
-        { error: 'Comment content is required' },
-        { status: 400 }
-      );
+    // Only admins may post internal notes
+    if (visibility === 'internal' && session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
-    if (content.length > 1000) {
+    const isInternal = visibility === 'internal';
+
+    const attachmentError = validateAttachments(files);
+    if (attachmentError) {
       return NextResponse.json(
-        { error: 'Comment cannot exceed 1000 characters' },
+        { error: attachmentError },
         { status: 400 }
       );
     }
@@ -80,7 +106,7 @@ export async function POST(
     const resolvedParams = await params;
 
     // Check if ticket exists and user has access
-    const ticket = await Ticket.findById(resolvedParams.id);
+    const ticket = await Ticket.findOne({ ...ticketRefQuery(resolvedParams.id), deletedAt: null });
     if (!ticket) {
       return NextResponse.json({ error: 'Ticket not found' }, { status: 404 });
     }
@@ -90,25 +116,50 @@ export async function POST(
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
+    // The conversation continues on the ticket it was merged into
+    if (ticket.mergedInto) {
+      return NextResponse.json(
+        { error: 'This ticket was merged into another ticket and can no longer be changed' },
+        { status: 400 }
+      );
+    }
+
     // Create comment
     const comment = new Comment({
-      ticketId: resolvedParams.id,
+      ticketId: ticket._id.toString(),
       userId: session.user.id,
       userName: session.user.name,
       userRole: session.user.role,
-      content: content.trim()
+      content,
+      visibility
     });
 
     await comment.save();
+    await indexTicket(ticket._id.toString());
+
+    const attachments = await saveAttachments(files, {
+      ticketId: ticket._id.toString(),
+      commentId: comment._id.toString(),
+      userId: session.user.id,
+      userName: session.user.name,
+      visibility: isInternal ? 'internal' : 'public'
+    });
+
+    // The first staff reply stops the first-response SLA clock, internal notes don't count
+    if (session.user.role === 'admin' && !isInternal && !ticket.firstRespondedAt) {
+      ticket.firstRespondedAt = comment.createdAt;
+      await ticket.save();
+    }
 
     // Create ticket history entry
     const history = new TicketHistory({
-      ticketId: resolvedParams.id,
+      ticketId: ticket._id.toString(),
       userId: session.user.id,
       userName: session.user.name,
       userRole: session.user.role,
       action: 'commented',
-      description: `Added a comment: "${content.substring(0, 50)}${content.length > 50 ? '...' : ''}"`
+      description: `Added ${isInternal ? 'an internal note' : 'a comment'}: "${content.substring(0, 50)}${content.length > 50 ? '...' : ''}"`,
+      visibility
     });
 
     await history.save();
@@ -118,13 +169,14 @@ export async function POST(
     await createAuditLog({
       who: session.user.id,
       what: 'create_ticket', // Using existing enum value
-      details: `Added comment to ticket: ${ticket.title}`,
+      details: `Added ${isInternal ? 'internal note' : 'comment'} to ticket: ${ticket.title}`,
       ...requestInfo
     });
 
     return NextResponse.json({ 
       message: 'Comment added successfully',
-      comment 
+      comment,
+      attachments
     }, { status: 201 });
 
   } catch (error) {
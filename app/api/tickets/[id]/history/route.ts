@@ -4,6 +4,7 @@ import { authOptions } from '@/lib/auth';
 import Ticket from '@/models/Ticket';
 import TicketHistory from '@/models/TicketHistory';
 import dbConnect from '@/lib/db';
+import { ticketRefQuery } from '@/lib/ticketNumber';
 
 // GET /api/tickets/[id]/history - Get history for a ticket
 export async function GET(
@@ -21,18 +22,23 @@ export async function GET(
     const resolvedParams = await params;
 
     // Check if ticket exists and user has access
-    const ticket = await Ticket.findById(resolvedParams.id);
+    const ticket = await Ticket.findOne({ ...ticketRefQuery(resolvedParams.id), deletedAt: null });
     if (!ticket) {
       return NextResponse.json({ error: 'Ticket not found' }, { status: 404 });
     }
 
-    // Access control: users can only see history of their own tickets, admins can see all
-    if (session.user.role !== 'admin' && ticket.userId !== session.user.id) {
+    // Access control: users can only see history of their own tickets and known issues, admins can see all
+    if (session.user.role !== 'admin' && ticket.userId !== session.user.id && !ticket.knownIssue) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
-    // Get ticket history
-    const history = await TicketHistory.find({ ticketId: resolvedParams.id })
+    // Get ticket history, hiding entries about internal notes from requesters
+    const query: Record<string, unknown> = { ticketId: ticket._id.toString() };
+    if (session.user.role !== 'admin') {
+      query.visibility = { $ne: 'internal' };
+    }
+
+    const history = await TicketHistory.find(query)
       .sort({ createdAt: -1 });
 
     return NextResponse.json({ history });
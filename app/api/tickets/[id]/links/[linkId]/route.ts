@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import { authOptions } from '@/lib/auth';
+import Ticket from '@/models/Ticket';
+import TicketHistory from '@/models/TicketHistory';
+import TicketLink from '@/models/TicketLink';
+import dbConnect from '@/lib/db';
+import { createAuditLog, getRequestInfo } from '@/lib/audit';
+import { formatTicketReference, ticketRefQuery } from '@/lib/ticketNumber';
+import { LINK_RELATION_LABELS, getLinkRelation } from '@/lib/ticketLinkRules';
+
+// DELETE /api/tickets/[id]/links/[linkId] - Remove a link between two tickets
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; linkId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await dbConnect();
+    const resolvedParams = await params;
+
+    const ticket = await Ticket.findOne({ ...ticketRefQuery(resolvedParams.id), deletedAt: null });
+    if (!ticket) {
+      return NextResponse.json({ error: 'Ticket not found' }, { status: 404 });
+    }
+
+    const ticketId = ticket._id.toString();
+    const link = mongoose.isValidObjectId(resolvedParams.linkId) ? await TicketLink.findOne({
+      _id: resolvedParams.linkId,
+      $or: [{ sourceId: ticketId }, { targetId: ticketId }]
+    }) : null;
+    if (!link) {
+      return NextResponse.json({ error: 'Link not found' }, { status: 404 });
+    }
+
+    const otherId = link.sourceId === ticketId ? link.targetId : link.sourceId;
+    const other = await Ticket.findById(otherId);
+
+    // Access control: users can only unlink their own tickets from each other, admins can unlink any
+    if (session.user.role !== 'admin' && (ticket.userId !== session.user.id || other?.userId !== session.user.id)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    await TicketLink.deleteOne({ _id: link._id });
+
+    // Record the removal on both tickets (the other one may already be purged)
+    const visibility = ticket.userId === other?.userId ? 'public' : 'internal';
+    const sides = other ? [[ticketId, other], [otherId, ticket]] as const : [[ticketId, null]] as const;
+    for (const [sideId, counterpart] of sides) {
+      const sideRelation = getLinkRelation(link, sideId);
+      await TicketHistory.create({
+        ticketId: sideId,
+        userId: session.user.id,
+        userName: session.user.name,
+        userRole: session.user.role,
+        action: 'unlinked',
+        field: 'links',
+        oldValue: `${sideRelation}:${sideId === ticketId ? otherId : ticketId}`,
+        description: `Removed link: ${LINK_RELATION_LABELS[sideRelation].toLowerCase()} ${counterpart ? formatTicketReference(counterpart) : 'a deleted ticket'}`,
+        visibility
+      });
+    }
+
+    // Create audit log
+    const requestInfo = getRequestInfo(request);
+    await createAuditLog({
+      who: session.user.id,
+      what: 'update_ticket',
+      details: `Unlinked ticket ${formatTicketReference(ticket)} from ${other ? formatTicketReference(other) : otherId}`,
+      ...requestInfo
+    });
+
+    return NextResponse.json({
+      message: 'Link removed successfully'
+    });
+
+  } catch (error) {
+    console.error('Error removing ticket link:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
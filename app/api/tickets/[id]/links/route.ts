@@ -0,0 +1,215 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import Ticket from '@/models/Ticket';
+import TicketHistory from '@/models/TicketHistory';
+import TicketLink from '@/models/TicketLink';
+import dbConnect from '@/lib/db';
+import { createAuditLog, getRequestInfo } from '@/lib/audit';
+import { formatTicketReference, ticketRefQuery } from '@/lib/ticketNumber';
+import {
+  LINK_RELATION_LABELS,
+  TICKET_LINK_RELATIONS,
+  getLinkRelation,
+  supportsAutoClose,
+  toStoredLink
+} from '@/lib/ticketLinkRules';
+import { boolean, invalidRequest, oneOf, text, validateBody } from '@/lib/requestValidation';
+
+const newLinkFields = {
+  relation: oneOf(TICKET_LINK_RELATIONS),
+  // The ID or number of the other ticket
+  ticket: text({ required: true, maxLength: 50 }),
+  autoClose: boolean({ default: false })
+};
+
+// GET /api/tickets/[id]/links - List the tickets linked to a ticket
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await dbConnect();
+    const resolvedParams = await params;
+
+    const ticket = await Ticket.findOne({ ...ticketRefQuery(resolvedParams.id), deletedAt: null });
+    if (!ticket) {
+      return NextResponse.json({ error: 'Ticket not found' }, { status: 404 });
+    }
+
+    // Access control: users can only see links of their own tickets and known issues, admins can see all
+    if (session.user.role !== 'admin' && ticket.userId !== session.user.id && !ticket.knownIssue) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const ticketId = ticket._id.toString();
+    const links = await TicketLink.find({ $or: [{ sourceId: ticketId }, { targetId: ticketId }] })
+      .sort({ createdAt: 1 });
+
+    // Leave out tickets in the trash and, for requesters, tickets of other users
+    const otherQuery: Record<string, unknown> = {
+      _id: { $in: links.map(link => link.sourceId === ticketId ? link.targetId : link.sourceId) },
+      deletedAt: null
+    };
+    if (session.user.role !== 'admin') {
+      otherQuery.userId = session.user.id;
+    }
+    const others = await Ticket.find(otherQuery).select('number title status priority userId');
+
+    const result = links.flatMap(link => {
+      const otherId = link.sourceId === ticketId ? link.targetId : link.sourceId;
+      const other = others.find(t => t._id.toString() === otherId);
+      if (!other) return [];
+
+      return [{
+        _id: link._id,
+        type: link.type,
+        relation: getLinkRelation(link, ticketId),
+        autoClose: link.autoClose,
+        createdByName: link.createdByName,
+        createdAt: link.createdAt,
+        ticket: other
+      }];
+    });
+
+    return NextResponse.json({ links: result });
+
+  } catch (error) {
+    console.error('Error fetching ticket links:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/tickets/[id]/links - Link another ticket, e.g. { relation: 'duplicate_of', ticket: 'SUP-12' }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const input = await validateBody(request, newLinkFields);
+    if ('errors' in input) {
+      return invalidRequest(input.errors);
+    }
+    const { relation, ticket: otherRef, autoClose } = input.values;
+
+    await dbConnect();
+    const resolvedParams = await params;
+
+    const [ticket, other] = await Promise.all([
+      Ticket.findOne({ ...ticketRefQuery(resolvedParams.id), deletedAt: null }),
+      Ticket.findOne({ ...ticketRefQuery(otherRef), deletedAt: null })
+    ]);
+
+    if (!ticket) {
+      return NextResponse.json({ error: 'Ticket not found' }, { status: 404 });
+    }
+
+    // Access control: users can only link their own tickets to each other, admins can link any
+    const isAdmin = session.user.role === 'admin';
+    if (!isAdmin && ticket.userId !== session.user.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    // Don't reveal whether another user's ticket exists
+    if (!other || (!isAdmin && other.userId !== session.user.id)) {
+      return NextResponse.json({ error: 'Ticket to link not found' }, { status: 404 });
+    }
+
+    const ticketId = ticket._id.toString();
+    const otherId = other._id.toString();
+
+    if (ticketId === otherId) {
+      return NextResponse.json(
+        { error: 'A ticket cannot be linked to itself' },
+        { status: 400 }
+      );
+    }
+
+    const stored = toStoredLink(ticketId, otherId, relation);
+
+    // Only one link per pair of tickets, in either direction
+    const existing = await TicketLink.findOne({
+      $or: [
+        { sourceId: ticketId, targetId: otherId },
+        { sourceId: otherId, targetId: ticketId }
+      ]
+    });
+    if (existing) {
+      return NextResponse.json(
+        { error: 'These tickets are already linked' },
+        { status: 409 }
+      );
+    }
+
+    // A ticket has at most one parent
+    if (stored.type === 'parent_of') {
+      const parentLink = await TicketLink.findOne({ type: 'parent_of', targetId: stored.targetId });
+      if (parentLink) {
+        return NextResponse.json(
+          { error: 'The child ticket already has a parent' },
+          { status: 409 }
+        );
+      }
+    }
+
+    const link = await TicketLink.create({
+      ...stored,
+      autoClose: supportsAutoClose(stored.type) && autoClose,
+      createdBy: session.user.id,
+      createdByName: session.user.name
+    });
+
+    // Record the link on both tickets, as staff only when they belong to different requesters
+    const visibility = ticket.userId === other.userId ? 'public' : 'internal';
+    for (const [sideId, counterpart] of [[ticketId, other], [otherId, ticket]] as const) {
+      const sideRelation = getLinkRelation(link, sideId);
+      await TicketHistory.create({
+        ticketId: sideId,
+        userId: session.user.id,
+        userName: session.user.name,
+        userRole: session.user.role,
+        action: 'linked',
+        field: 'links',
+        newValue: `${sideRelation}:${counterpart._id.toString()}`,
+        description: `Linked: ${LINK_RELATION_LABELS[sideRelation].toLowerCase()} ${formatTicketReference(counterpart)}`,
+        visibility
+      });
+    }
+
+    // Create audit log
+    const requestInfo = getRequestInfo(request);
+    await createAuditLog({
+      who: session.user.id,
+      what: 'update_ticket',
+      details: `Linked ticket ${formatTicketReference(ticket)} ${LINK_RELATION_LABELS[relation].toLowerCase()} ${formatTicketReference(other)}`,
+      ...requestInfo
+    });
+
+    return NextResponse.json({
+      message: 'Tickets linked successfully',
+      link
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error linking tickets:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import Ticket from '@/models/Ticket';
+import TicketRevision from '@/models/TicketRevision';
+import dbConnect from '@/lib/db';
+import { ticketRefQuery } from '@/lib/ticketNumber';
+
+// GET /api/tickets/[id]/revisions - Get previous versions of a ticket's title and description
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await dbConnect();
+    const resolvedParams = await params;
+
+    // Check if ticket exists and user has access
+    const ticket = await Ticket.findOne({ ...ticketRefQuery(resolvedParams.id), deletedAt: null });
+    if (!ticket) {
+      return NextResponse.json({ error: 'Ticket not found' }, { status: 404 });
+    }
+
+    // Access control: users can only see revisions of their own tickets, admins can see all
+    if (session.user.role !== 'admin' && ticket.userId !== session.user.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    // Oldest first, so each revision can be diffed against the next (or the current text)
+    const revisions = await TicketRevision.find({ ticketId: ticket._id.toString() })
+      .sort({ revision: 1 });
+
+    return NextResponse.json({
+      revisions,
+      current: {
+        title: ticket.title,
+        description: ticket.description,
+        updatedAt: ticket.updatedAt
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching ticket revisions:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
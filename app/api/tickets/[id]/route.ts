@@ -2,9 +2,39 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import Ticket from '@/models/Ticket';
-import TicketHistory from '@/models/TicketHistory';
 import dbConnect from '@/lib/db';
+import { ticketRefQuery } from '@/lib/ticketNumber';
 import { createAuditLog, getRequestInfo } from '@/lib/audit';
+import { getSlaState } from '@/lib/sla';
+import { getActiveCalendars, getTicketAgeMinutes } from '@/lib/businessHours';
+import { applyTicketUpdate, describeChange, moveTicketToTrash } from '@/lib/ticketUpdates';
+import { TICKET_STATUSES } from '@/lib/ticketStatus';
+import {
+  boolean,
+  customFieldInput,
+  invalidRequest,
+  objectIdOrNull,
+  oneOf,
+  optional,
+  tagList,
+  text,
+  validateBody
+} from '@/lib/requestValidation';
+
+// Every field is optional, only those sent are changed
+const ticketUpdateFields = {
+  title: optional(text({ required: true, maxLength: 200 })),
+  description: optional(text({ required: true, maxLength: 2000 })),
+  status: optional(oneOf(TICKET_STATUSES)),
+  priority: optional(text({ maxLength: 50 })),
+  category: optional(text({ maxLength: 50 })),
+  // null (or empty) unassigns the ticket
+  assigneeId: optional(objectIdOrNull()),
+  addTags: optional(tagList()),
+  removeTags: optional(tagList()),
+  customFields: optional(customFieldInput()),
+  knownIssue: optional(boolean())
+};
 
 // GET /api/tickets/[id] - Get a specific ticket
 export async function GET(
@@ -22,18 +52,40 @@ export async function GET(
     const resolvedParams = await params;
 
     // Find the ticket
-    const ticket = await Ticket.findById(resolvedParams.id);
+    const ticket = await Ticket.findOne({ ...ticketRefQuery(resolvedParams.id), deletedAt: null });
 
     if (!ticket) {
       return NextResponse.json({ error: 'Ticket not found' }, { status: 404 });
     }
 
-    // Access control: users can only view their own tickets, admins can view all
-    if (session.user.role !== 'admin' && ticket.userId !== session.user.id) {
+    // Access control: users can only view their own tickets and known issues, admins can view all
+    if (session.user.role !== 'admin' && ticket.userId !== session.user.id && !ticket.knownIssue) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
-    return NextResponse.json({ ticket });
+    const calendars = await getActiveCalendars();
+
+    // Merged stubs point at the ticket they were merged into, so the UI can redirect when the user may see it
+    let mergedInto = null;
+    if (ticket.mergedInto) {
+      const target = await Ticket.findOne({ _id: ticket.mergedInto, deletedAt: null }).select('number userId');
+      if (target) {
+        mergedInto = {
+          _id: target._id.toString(),
+          number: target.number,
+          accessible: session.user.role === 'admin' || target.userId === session.user.id
+        };
+      }
+    }
+
+    return NextResponse.json({
+      ticket: {
+        ...ticket.toObject(),
+        sla: getSlaState(ticket),
+        ageMinutes: getTicketAgeMinutes(ticket, calendars)
+      },
+      mergedInto
+    });
 
   } catch (error) {
     console.error('Error fetching ticket:', error);
@@ -44,7 +96,7 @@ export async function GET(
   }
 }
 
-// PUT /api/tickets/[id] - Update ticket (status change, admin only for now)
+// PUT /api/tickets/[id] - Update ticket (admins update any field, requesters may edit and change status)
 export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -56,34 +108,16 @@ export async function PUT(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const { status, priority, category } = await request.json();
-
-    // Validation
-    if (status && !['open', 'closed'].includes(status)) {
-      return NextResponse.json(
-        { error: 'Invalid status. Must be "open" or "closed"' },
-        { status: 400 }
-      );
-    }
-
-    if (priority && !['low', 'medium', 'high', 'urgent'].includes(priority)) {
-      return NextResponse.json(
-        { error: 'Invalid priority. Must be one of: low, medium, high, urgent' },
-        { status: 400 }
-      );
-    }
-
-    if (category && !['technical', 'billing', 'general', 'feature_request', 'bug_report'].includes(category)) {
-      return NextResponse.json(
-        { error: 'Invalid category. Must be one of: technical, billing, general, feature_request, bug_report' },
-        { status: 400 }
-      );
+    const input = await validateBody(request, ticketUpdateFields);
+    if ('errors' in input) {
+      return invalidRequest(input.errors);
     }
+    const { title, description, status, priority, category, assigneeId, addTags, removeTags, customFields, knownIssue } = input.values;
 
     // At least one field must be provided
-    if (!status && !priority && !category) {
+    if (Object.values(input.values).every(value => value === undefined)) {
       return NextResponse.json(
-        { error: 'At least one field (status, priority, or category) must be provided' },
+        { error: 'At least one field (title, description, status, priority, category, assigneeId, addTags, removeTags, customFields, or knownIssue) must be provided' },
         { status: 400 }
       );
     }
@@ -94,73 +128,46 @@ export async function PUT(
     const resolvedParams = await params;
 
     // Find the ticket
-    const ticket = await Ticket.findById(resolvedParams.id);
+    const ticket = await Ticket.findOne({ ...ticketRefQuery(resolvedParams.id), deletedAt: null });
     
     if (!ticket) {
       return NextResponse.json({ error: 'Ticket not found' }, { status: 404 });
     }
 
-    // Access control: only admins can update ticket status, priority, and category
-    if (session.user.role !== 'admin') {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
-    }
-
-    // Track changes for history
-    const changes: Array<{field: string, oldValue: string, newValue: string}> = [];
-
-    if (status && status !== ticket.status) {
-      changes.push({
-        field: 'status',
-        oldValue: ticket.status,
-        newValue: status
-      });
-      ticket.status = status;
-    }
+    const result = await applyTicketUpdate(ticket, {
+      title,
+      description,
+      status,
+      priority,
+      category,
+      assigneeId,
+      addTags,
+      removeTags,
+      customFields,
+      knownIssue
+    }, {
+      id: session.user.id,
+      name: session.user.name,
+      role: session.user.role
+    });
 
-    if (priority && priority !== ticket.priority) {
-      changes.push({
-        field: 'priority',
-        oldValue: ticket.priority,
-        newValue: priority
-      });
-      ticket.priority = priority;
+    if ('error' in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
     }
 
-    if (category && category !== ticket.category) {
-      changes.push({
-        field: 'category',
-        oldValue: ticket.category,
-        newValue: category
-      });
-      ticket.category = category;
-    }
+    const { changes, autoClosed } = result;
 
-    // Save ticket if there are changes
     if (changes.length > 0) {
-      await ticket.save();
-
-      // Create history entries for each change
-      for (const change of changes) {
-        const history = new TicketHistory({
-          ticketId: ticket._id.toString(),
-          userId: session.user.id,
-          userName: session.user.name,
-          userRole: session.user.role,
-          action: `${change.field}_changed` as 'status_changed' | 'priority_changed' | 'category_changed',
-          field: change.field,
-          oldValue: change.oldValue,
-          newValue: change.newValue,
-          description: `Changed ${change.field} from "${change.oldValue}" to "${change.newValue}"`
-        });
-        await history.save();
-      }
-
       // Create audit log
       const requestInfo = getRequestInfo(request);
       await createAuditLog({
         who: session.user.id,
         what: 'update_ticket',
-        details: `Updated ticket: ${changes.map(c => `${c.field} to ${c.newValue}`).join(', ')} - ${ticket.title}`,
+        details: `Updated ticket: ${changes.map(describeChange).join(', ')} - ${ticket.title}` +
+          (autoClosed.length > 0 ? ` (also closed ${autoClosed.join(', ')})` : ''),
         ...requestInfo
       });
     }
@@ -168,7 +175,8 @@ export async function PUT(
     return NextResponse.json({
       message: 'Ticket updated successfully',
       ticket,
-      changes: changes.length
+      changes: changes.length,
+      autoClosed
     });
 
   } catch (error) {
@@ -180,7 +188,7 @@ export async function PUT(
   }
 }
 
-// DELETE /api/tickets/[id] - Delete ticket
+// DELETE /api/tickets/[id] - Move ticket to the trash
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -198,7 +206,7 @@ export async function DELETE(
     const resolvedParams = await params;
 
     // Find the ticket
-    const ticket = await Ticket.findById(resolvedParams.id);
+    const ticket = await Ticket.findOne({ ...ticketRefQuery(resolvedParams.id), deletedAt: null });
     
     if (!ticket) {
       return NextResponse.json({ error: 'Ticket not found' }, { status: 404 });
@@ -209,23 +217,24 @@ export async function DELETE(
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
-    // Store ticket info for audit log before deletion
-    const ticketTitle = ticket.title;
-
-    // Delete ticket
-    await Ticket.findByIdAndDelete(resolvedParams.id);
+    // Move the ticket to the trash, admins can restore or purge it from there
+    await moveTicketToTrash(ticket, {
+      id: session.user.id,
+      name: session.user.name,
+      role: session.user.role
+    });
 
     // Create audit log
     const requestInfo = getRequestInfo(request);
     await createAuditLog({
       who: session.user.id,
       what: 'delete_ticket',
-      details: `Deleted ticket: ${ticketTitle}`,
+      details: `Moved ticket to trash: ${ticket.title}`,
       ...requestInfo
     });
 
     return NextResponse.json({ 
-      message: 'Ticket deleted successfully'
+      message: 'Ticket moved to trash'
     });
 
   } catch (error) {
@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import Ticket from '@/models/Ticket';
+import dbConnect from '@/lib/db';
+import { createAuditLog, getRequestInfo } from '@/lib/audit';
+import { formatTicketNumber, ticketRefQuery } from '@/lib/ticketNumber';
+import { BULK_ACTIONS, BULK_ACTION_LABELS, BulkResult, MAX_BULK_TICKETS } from '@/lib/bulkActions';
+import { TicketUpdateInput, applyTicketUpdate, moveTicketToTrash } from '@/lib/ticketUpdates';
+import { Rule, invalidRequest, objectIdOrNull, oneOf, tagList, text, validateFields } from '@/lib/requestValidation';
+
+// The tickets to change, by ID or number
+const ticketRefs: Rule<string[]> = (raw) => {
+  if (!Array.isArray(raw) || raw.length === 0 || raw.some(id => typeof id !== 'string')) {
+    return { error: 'Select at least one ticket' };
+  }
+  if (raw.length > MAX_BULK_TICKETS) {
+    return { error: `At most ${MAX_BULK_TICKETS} tickets can be changed at once` };
+  }
+  return { value: raw as string[] };
+};
+
+// The value each action needs is checked once the action is known
+const bulkFields = {
+  ids: ticketRefs,
+  action: oneOf(BULK_ACTIONS)
+};
+
+// POST /api/tickets/bulk - Apply one action to many tickets, e.g. { ids: [...], action: 'set_priority', value: 'high' }.
+// Each ticket is checked and updated on its own, so the response lists a result per ticket.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+
+    const input = validateFields(body, bulkFields);
+    if ('errors' in input) {
+      return invalidRequest(input.errors);
+    }
+    const { ids, action } = input.values;
+
+    // Turn the action into the update applied to every ticket, checking the value it needs
+    let update: TicketUpdateInput = {};
+    switch (action) {
+      case 'close':
+        update = { status: 'closed' };
+        break;
+      case 'reopen':
+        update = { status: 'reopened' };
+        break;
+      case 'set_priority':
+      case 'set_category': {
+        const checked = validateFields(body, { value: text({ required: true, maxLength: 50 }) });
+        if ('errors' in checked) {
+          return invalidRequest(checked.errors);
+        }
+        update = action === 'set_priority' ? { priority: checked.values.value } : { category: checked.values.value };
+        break;
+      }
+      case 'assign': {
+        const checked = validateFields(body, { value: objectIdOrNull() });
+        if ('errors' in checked) {
+          return invalidRequest(checked.errors);
+        }
+        update = { assigneeId: checked.values.value };
+        break;
+      }
+      case 'add_tags':
+      case 'remove_tags': {
+        const checked = validateFields(body, { value: tagList() });
+        if ('errors' in checked) {
+          return invalidRequest(checked.errors);
+        }
+        if (checked.values.value.length === 0) {
+          return invalidRequest([{ field: 'value', message: 'At least one tag is required' }]);
+        }
+        update = action === 'add_tags' ? { addTags: checked.values.value } : { removeTags: checked.values.value };
+        break;
+      }
+    }
+
+    await dbConnect();
+
+    const actor = {
+      id: session.user.id,
+      name: session.user.name,
+      role: session.user.role
+    };
+
+    const results: BulkResult[] = [];
+    const autoClosed: string[] = [];
+
+    // One at a time, so each ticket gets the same checks and history as a single update
+    for (const id of [...new Set(ids)]) {
+      // A failure is reported for its ticket, so the tickets already changed still get their results and audit entry
+      try {
+        const ticket = await Ticket.findOne({ ...ticketRefQuery(id), deletedAt: null });
+
+        if (!ticket) {
+          results.push({ id, success: false, error: 'Ticket not found' });
+          continue;
+        }
+
+        const base = { id: ticket._id.toString(), number: ticket.number };
+
+        if (action === 'delete') {
+          // Users can only delete their own tickets, admins can delete any
+          if (session.user.role !== 'admin' && ticket.userId !== session.user.id) {
+            results.push({ ...base, success: false, error: 'Forbidden' });
+            continue;
+          }
+
+          await moveTicketToTrash(ticket, actor);
+          results.push({ ...base, success: true, changes: 1 });
+          continue;
+        }
+
+        const result = await applyTicketUpdate(ticket, update, actor);
+
+        if ('error' in result) {
+          results.push({ ...base, success: false, error: result.error });
+        } else {
+          results.push({ ...base, success: true, changes: result.changes.length });
+          autoClosed.push(...result.autoClosed);
+        }
+      } catch (error) {
+        console.error('Error applying bulk action to ticket:', error);
+        results.push({ id, success: false, error: 'Internal server error' });
+      }
+    }
+
+    const succeeded = results.filter(result => result.success);
+    const failed = results.length - succeeded.length;
+
+    // One audit entry summarizes the whole request
+    if (succeeded.length > 0) {
+      const numbers = succeeded.map(result => result.number ? formatTicketNumber(result.number) : result.id);
+      const requestInfo = getRequestInfo(request);
+      await createAuditLog({
+        who: session.user.id,
+        what: action === 'delete' ? 'delete_ticket' : 'update_ticket',
+        details: `Bulk ${BULK_ACTION_LABELS[action].toLowerCase()}${typeof body.value === 'string' && body.value ? ` (${body.value})` : ''}` +
+          ` on ${succeeded.length} ticket(s)${failed > 0 ? `, ${failed} failed` : ''}: ${numbers.join(', ')}` +
+          (autoClosed.length > 0 ? ` (also closed ${autoClosed.join(', ')})` : ''),
+        ...requestInfo
+      });
+    }
+
+    return NextResponse.json({
+      message: `${succeeded.length} of ${results.length} ticket(s) updated`,
+      results,
+      succeeded: succeeded.length,
+      failed,
+      autoClosed
+    });
+
+  } catch (error) {
+    console.error('Error applying bulk action:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,64 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
-import Ticket from '@/models/Ticket';
+import Ticket, { ITicket } from '@/models/Ticket';
 import TicketHistory from '@/models/TicketHistory';
 import dbConnect from '@/lib/db';
 import { createAuditLog, getRequestInfo } from '@/lib/audit';
+import { ACTIVE_STATUSES, TICKET_STATUSES, storedStatuses } from '@/lib/ticketStatus';
+import { applySlaTargets, getSlaState, slaAtRiskQuery, slaBreachedQuery } from '@/lib/sla';
+import { getActiveCalendars, getTicketAgeMinutes } from '@/lib/businessHours';
+import { readRequestWithFiles, saveAttachments } from '@/lib/attachments';
+import { validateAttachments } from '@/lib/attachmentRules';
+import { formatTicketReference, parseTicketNumber } from '@/lib/ticketNumber';
+import { normalizeTag } from '@/lib/tags';
+import { coerceCustomFieldValue, isValidCustomFieldKey, validateCustomFields } from '@/lib/customFields';
+import { getCategoryFields } from '@/models/CustomField';
+import { getTicketOptions } from '@/models/TicketOption';
+import { getDefaultOptionValue, invalidOptionMessage, isSelectableOption } from '@/lib/ticketOptions';
+import { indexTicket } from '@/lib/searchIndex';
+import { COUNT_MODES, CursorSort, Page, countMatches, decodeCursor, findPage, pageSorted } from '@/lib/pagination';
+import { buildTicketSearch, getSearchMatches, rankSearchMatches } from '@/lib/ticketSearch';
+import {
+  customFieldInput,
+  integer,
+  invalidRequest,
+  objectId,
+  oneOf,
+  text,
+  validateFields,
+  validateQuery
+} from '@/lib/requestValidation';
+
+// Fields the list can be sorted by; relevance only applies to text searches
+const TICKET_SORT_FIELDS = ['createdAt', 'updatedAt', 'number', 'title', 'priority', 'status', 'relevance'] as const;
+
+// The board view loads this many tickets at once
+const MAX_TICKETS_PER_PAGE = 200;
+
+const ticketListParams = {
+  cursor: text({ maxLength: 1000 }),
+  limit: integer({ min: 1, max: MAX_TICKETS_PER_PAGE, default: 10 }),
+  count: oneOf(COUNT_MODES, 'exact'),
+  status: oneOf(['all', 'active', ...TICKET_STATUSES], 'all'),
+  priority: text({ maxLength: 50, default: 'all' }),
+  category: text({ maxLength: 50, default: 'all' }),
+  assignee: objectId({ keywords: ['all', 'me', 'unassigned'], default: 'all' }),
+  sla: oneOf(['all', 'breached', 'at_risk'], 'all'),
+  tags: text({ maxLength: 500 }),
+  tagMode: oneOf(['any', 'all'], 'any'),
+  search: text(),
+  sortBy: oneOf(TICKET_SORT_FIELDS, 'createdAt'),
+  sortOrder: oneOf(['asc', 'desc'], 'desc')
+};
+
+const newTicketFields = {
+  title: text({ required: true, maxLength: 200 }),
+  description: text({ required: true, maxLength: 2000 }),
+  priority: text({ maxLength: 50 }),
+  category: text({ maxLength: 50 }),
+  customFields: customFieldInput()
+};
 
 // GET /api/tickets - Get tickets with filtering, sorting, and pagination
 export async function GET(request: NextRequest) {
@@ -19,17 +73,14 @@ export async function GET(request: NextRequest) {
 
     // Parse query parameters
     const { searchParams } = new URL(request.url);
-    const page = parseInt(searchParams.get('page') || '1');
-    const limit = parseInt(searchParams.get('limit') || '10');
-    const status = searchParams.get('status');
-    const priority = searchParams.get('priority');
-    const category = searchParams.get('category');
-    const search = searchParams.get('search');
-    const sortBy = searchParams.get('sortBy') || 'createdAt';
-    const sortOrder = searchParams.get('sortOrder') || 'desc';
-
-    // Build query
-    const query: Record<string, unknown> = {};
+    const params = validateQuery(searchParams, ticketListParams);
+    if ('errors' in params) {
+      return invalidRequest(params.errors);
+    }
+    const { cursor, limit, count, status, priority, category, assignee, sla, tags, tagMode, search, sortBy, sortOrder } = params.values;
+
+    // Build query, leaving out tickets in the trash
+    const query: Record<string, unknown> = { deletedAt: null };
 
     // Access control: users can only see their own tickets
     if (session.user.role !== 'admin') {
@@ -37,58 +88,162 @@ export async function GET(request: NextRequest) {
     }
 
     // Apply filters
-    if (status && status !== 'all') {
-      query.status = status;
+    if (status !== 'all') {
+      // 'active' groups every status that still needs work
+      query.status = { $in: storedStatuses(status === 'active' ? ACTIVE_STATUSES : [status]) };
     }
-    if (priority && priority !== 'all') {
+    if (priority !== 'all') {
       query.priority = priority;
     }
-    if (category && category !== 'all') {
+    if (category !== 'all') {
       query.category = category;
     }
+    if (assignee !== 'all') {
+      // 'me' and 'unassigned' are shortcuts for the "My queue" views
+      if (assignee === 'me') {
+        query.assigneeId = session.user.id;
+      } else if (assignee === 'unassigned') {
+        query.assigneeId = null;
+      } else {
+        query.assigneeId = assignee;
+      }
+    }
+    if (sla === 'breached' || sla === 'at_risk') {
+      // Nested under $and so the SLA query's own status condition doesn't replace the status filter
+      query.$and = [sla === 'breached' ? slaBreachedQuery() : slaAtRiskQuery()];
+    }
+    if (tags) {
+      // Comma-separated; "any" matches tickets with at least one of the tags, "all" with every one
+      const tagList = tags.split(',').map(normalizeTag).filter(Boolean);
+      if (tagList.length > 0) {
+        query.tags = tagMode === 'all' ? { $all: tagList } : { $in: tagList };
+      }
+    }
+    // Custom field filters are passed as cf.<key>=value and only apply within a category
+    const customFilters = Array.from(searchParams.entries())
+      .filter(([name, value]) => name.startsWith('cf.') && value !== '');
+    if (customFilters.length > 0 && category !== 'all') {
+      const fields = await getCategoryFields(category);
+      for (const [name, value] of customFilters) {
+        const key = name.slice(3);
+        const field = fields.find(f => f.key === key);
+        if (!isValidCustomFieldKey(key) || !field) {
+          return NextResponse.json(
+            { error: `Unknown custom field: ${key}` },
+            { status: 400 }
+          );
+        }
+        const coerced = coerceCustomFieldValue(field, value);
+        if ('error' in coerced) {
+          return NextResponse.json(
+            { error: coerced.error },
+            { status: 400 }
+          );
+        }
+        // Text fields match on a case-insensitive substring, everything else exactly
+        query[`customFields.${key}`] = field.type === 'text'
+          ? { $regex: String(coerced.value).replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), $options: 'i' }
+          : coerced.value;
+      }
+    }
+    // Relevance by ticket ID and the words to highlight, when the search has words or phrases
+    let relevance: Map<string, number> | null = null;
+    let highlightWords: string[] | null = null;
+
     if (search) {
-      query.$text = { $search: search };
+      // A ticket number such as SUP-1042 jumps straight to that ticket
+      const ticketNumber = parseTicketNumber(search);
+      if (ticketNumber !== null) {
+        query.number = ticketNumber;
+      } else {
+        // Anything else is read as the search language, see lib/searchQuery.ts
+        const searchQuery = await buildTicketSearch(search, session.user.id);
+        if ('error' in searchQuery) {
+          return NextResponse.json(
+            { error: `Invalid search: ${searchQuery.error}`, position: searchQuery.position },
+            { status: 400 }
+          );
+        }
+        if (searchQuery.conditions.length > 0) {
+          query.$and = [...(query.$and as Record<string, unknown>[] || []), ...searchQuery.conditions];
+        }
+        if (searchQuery.text) {
+          // Words are looked up in titles, descriptions and comments, which decides the candidate tickets
+          const ranked = await rankSearchMatches(
+            query,
+            { text: searchQuery.text, words: searchQuery.words, phrases: searchQuery.phrases },
+            session.user.role === 'admin'
+          );
+          relevance = ranked.scores;
+          query._id = { $in: [...relevance.keys()] };
+          highlightWords = ranked.words;
+        }
+      }
     }
 
-    // Build sort object
-    const sort: Record<string, 1 | -1> = {};
-    sort[sortBy] = sortOrder === 'asc' ? 1 : -1;
+    // Relevance only applies to text searches and falls back to newest first
+    const rankByRelevance = relevance !== null && sortBy === 'relevance';
+    const sort: CursorSort = sortBy === 'relevance'
+      ? (rankByRelevance ? { field: 'relevance', order: 'desc' } : { field: 'createdAt', order: 'desc' })
+      : { field: sortBy, order: sortOrder };
 
-    // Calculate pagination
-    const skip = (page - 1) * limit;
+    const position = cursor ? decodeCursor(cursor, sort) : null;
+    if (cursor && !position) {
+      return invalidRequest([{ field: 'cursor', message: 'Is malformed or belongs to another sort. Start again from the first page' }]);
+    }
 
     // Execute query
-    const [tickets, totalCount] = await Promise.all([
-      Ticket.find(query)
-        .sort(sort)
-        .skip(skip)
-        .limit(limit),
-      Ticket.countDocuments(query)
-    ]);
+    let page: Page<ITicket>;
+    let counted: { totalCount: number | null; approximate: boolean };
+    if (rankByRelevance) {
+      // Text matches are capped, so they can be ranked and paged in memory
+      const scores = relevance!;
+      const matching: ITicket[] = await Ticket.find(query);
+      const getKey = (ticket: ITicket) => ({ value: scores.get(ticket._id.toString()) || 0, id: ticket._id.toString() });
+      matching.sort((a, b) => getKey(b).value - getKey(a).value || (getKey(a).id < getKey(b).id ? 1 : -1));
+      page = pageSorted(matching, sort, position, limit, getKey);
+      counted = { totalCount: matching.length, approximate: false };
+    } else {
+      [page, counted] = await Promise.all([
+        findPage<ITicket>(Ticket, query, sort, position, limit),
+        countMatches(Ticket, query, count)
+      ]);
+    }
+    const tickets = page.items;
+
+    // Which fields matched the search, with highlighted snippets
+    const matches = highlightWords
+      ? await getSearchMatches(tickets, highlightWords, session.user.role === 'admin')
+      : {};
 
-    // Get statistics
-    const stats = await getTicketStats(session.user.role === 'admin' ? {} : { userId: session.user.id });
+    // The calendars used to compute ticket ages
+    const calendars = await getActiveCalendars();
 
     // Create audit log
     const requestInfo = getRequestInfo(request);
     await createAuditLog({
       who: session.user.id,
       what: 'view_tickets',
-      details: `User viewed ${tickets.length} tickets (page ${page})`,
+      details: `User viewed ${tickets.length} tickets`,
       ...requestInfo
     });
 
     return NextResponse.json({
-      tickets,
+      tickets: tickets.map(ticket => ({
+        ...ticket.toObject(),
+        sla: getSlaState(ticket),
+        ageMinutes: getTicketAgeMinutes(ticket, calendars),
+        ...(highlightWords ? { matches: matches[ticket._id.toString()] || [] } : {})
+      })),
       pagination: {
-        page,
         limit,
-        totalCount,
-        totalPages: Math.ceil(totalCount / limit),
-        hasNext: page < Math.ceil(totalCount / limit),
-        hasPrev: page > 1
-      },
-      stats
+        totalCount: counted.totalCount,
+        countIsApproximate: counted.approximate,
+        hasNext: page.hasNext,
+        hasPrev: page.hasPrev,
+        nextCursor: page.nextCursor,
+        prevCursor: page.prevCursor
+      }
     });
 
   } catch (error) {
@@ -100,43 +255,6 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// Helper function to get ticket statistics
-async function getTicketStats(baseQuery: Record<string, unknown> = {}) {
-  const [
-    totalTickets,
-    openTickets,
-    closedTickets,
-    priorityStats,
-    categoryStats
-  ] = await Promise.all([
-    Ticket.countDocuments(baseQuery),
-    Ticket.countDocuments({ ...baseQuery, status: 'open' }),
-    Ticket.countDocuments({ ...baseQuery, status: 'closed' }),
-    Ticket.aggregate([
-      { $match: baseQuery },
-      { $group: { _id: '$priority', count: { $sum: 1 } } }
-    ]),
-    Ticket.aggregate([
-      { $match: baseQuery },
-      { $group: { _id: '$category', count: { $sum: 1 } } }
-    ])
-  ]);
-
-  return {
-    total: totalTickets,
-    open: openTickets,
-    closed: closedTickets,
-    byPriority: priorityStats.reduce((acc: Record<string, number>, item: { _id: string; count: number }) => {
-      acc[item._id] = item.count;
-      return acc;
-    }, {}),
-    byCategory: categoryStats.reduce((acc: Record<string, number>, item: { _id: string; count: number }) => {
-      acc[item._id] = item.count;
-      return acc;
-    }, {})
-  };
-}
-
 // POST /api/tickets - Create a new ticket
 export async function POST(request: NextRequest) {
   try {
@@ -146,61 +264,82 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const { title, description, priority, category } = await request.json();
-
-    // Validation
-    if (!title || !description) {
-      return NextResponse.json(
-        { error: 'Title and description are required' },
-        { status: 400 }
-      );
+    // Accepts JSON, or multipart form data when files are attached
+    const body = await readRequestWithFiles(request);
+    if ('errors' in body) {
+      return invalidRequest(body.errors);
+    }
+    const { fields, files } = body;
+    const input = validateFields(fields, newTicketFields);
+    if ('errors' in input) {
+      return invalidRequest(input.errors);
     }
+    const { title, description, priority, category, customFields } = input.values;
 
-    // Validate priority
-    const validPriorities = ['low', 'medium', 'high', 'urgent'];
-    if (priority && !validPriorities.includes(priority)) {
+    const attachmentError = validateAttachments(files);
+    if (attachmentError) {
       return NextResponse.json(
-        { error: 'Invalid priority. Must be one of: low, medium, high, urgent' },
+        { error: attachmentError },
         { status: 400 }
       );
     }
 
-    // Validate category
-    const validCategories = ['technical', 'billing', 'general', 'feature_request', 'bug_report'];
-    if (category && !validCategories.includes(category)) {
+    await dbConnect();
+
+    // Validate priority and category against the configured (non-retired) options
+    const [priorities, categories] = await Promise.all([
+      getTicketOptions('priority'),
+      getTicketOptions('category')
+    ]);
+
+    if (priority && !isSelectableOption(priorities, priority)) {
       return NextResponse.json(
-        { error: 'Invalid category. Must be one of: technical, billing, general, feature_request, bug_report' },
+        { error: invalidOptionMessage('priority', priorities) },
         { status: 400 }
       );
     }
 
-    if (title.length > 200) {
+    if (category && !isSelectableOption(categories, category)) {
       return NextResponse.json(
-        { error: 'Title cannot exceed 200 characters' },
+        { error: invalidOptionMessage('category', categories) },
         { status: 400 }
       );
     }
 
-    if (description.length > 2000) {
+    const ticketPriority = priority || getDefaultOptionValue('priority', priorities);
+    const ticketCategory = category || getDefaultOptionValue('category', categories);
+
+    // Check the values against the fields defined for the category
+    const customFieldResult = validateCustomFields(await getCategoryFields(ticketCategory), customFields);
+    if ('error' in customFieldResult) {
       return NextResponse.json(
-        { error: 'Description cannot exceed 2000 characters' },
+        { error: customFieldResult.error },
         { status: 400 }
       );
     }
 
-    await dbConnect();
-
     // Create ticket
     const ticket = new Ticket({
-      title: title.trim(),
-      description: description.trim(),
-      priority: priority || 'medium',
-      category: category || 'general',
+      title,
+      description,
+      priority: ticketPriority,
+      category: ticketCategory,
+      customFields: customFieldResult.values,
       userId: session.user.id,
-      status: 'open'
+      status: 'new'
     });
 
+    // Start the first-response and resolution clocks
+    await applySlaTargets(ticket);
+
     await ticket.save();
+    await indexTicket(ticket._id.toString());
+
+    const attachments = await saveAttachments(files, {
+      ticketId: ticket._id.toString(),
+      userId: session.user.id,
+      userName: session.user.name
+    });
 
     // Create initial history entry
     const history = new TicketHistory({
@@ -209,7 +348,8 @@ export async function POST(request: NextRequest) {
       userName: session.user.name,
       userRole: session.user.role,
       action: 'created',
-      description: `Created ticket with priority: ${ticket.priority}, category: ${ticket.category}`
+      description: `Created ticket with priority: ${ticket.priority}, category: ${ticket.category}` +
+        (attachments.length > 0 ? `, ${attachments.length} attachment(s)` : '')
     });
     await history.save();
 
@@ -218,13 +358,14 @@ export async function POST(request: NextRequest) {
     await createAuditLog({
       who: session.user.id,
       what: 'create_ticket',
-      details: `Created ticket: ${ticket.title}`,
+      details: `Created ticket ${formatTicketReference(ticket)}: ${ticket.title}`,
       ...requestInfo
     });
 
     return NextResponse.json({
       message: 'Ticket created successfully',
-      ticket
+      ticket,
+      attachments
     }, { status: 201 });
 
   } catch (error) {
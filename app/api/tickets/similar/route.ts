@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import dbConnect from '@/lib/db';
+import { findSimilarTickets } from '@/lib/similarTickets';
+import { invalidRequest, text, validateQuery } from '@/lib/requestValidation';
+
+// Shorter titles match too much to be useful
+const MIN_TITLE_LENGTH = 3;
+
+// The limits of the ticket being written
+const similarTicketParams = {
+  title: text({ maxLength: 200 }),
+  description: text({ maxLength: 2000 })
+};
+
+// GET /api/tickets/similar?title=...&description=... - Suggest existing tickets while a new one is being written
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const params = validateQuery(searchParams, similarTicketParams);
+    if ('errors' in params) {
+      return invalidRequest(params.errors);
+    }
+    const { title, description } = params.values;
+
+    if (title.length < MIN_TITLE_LENGTH) {
+      return NextResponse.json({ tickets: [] });
+    }
+
+    await dbConnect();
+
+    // Users are pointed at their own tickets and at known issues, admins at any ticket
+    const scope = session.user.role === 'admin'
+      ? {}
+      : { $or: [{ userId: session.user.id }, { knownIssue: true }] };
+
+    const tickets = await findSimilarTickets(`${title} ${description}`, scope);
+
+    return NextResponse.json({ tickets });
+
+  } catch (error) {
+    console.error('Error finding similar tickets:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import dbConnect from '@/lib/db';
+import { getTicketStats } from '@/lib/ticketStats';
+
+// GET /api/tickets/stats - Ticket statistics: of every ticket for admins, of their own tickets for users
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await dbConnect();
+
+    const stats = await getTicketStats(session.user);
+
+    return NextResponse.json({ stats });
+
+  } catch (error) {
+    console.error('Error fetching ticket statistics:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
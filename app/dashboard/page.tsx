@@ -4,38 +4,109 @@ import { useState, useEffect } from 'react';
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
 import { SkeletonStats, SkeletonListItem } from '@/components/Skeleton';
-import { ConfirmDialog } from '@/components/Dialog';
+import { ConfirmDialog, Dialog } from '@/components/Dialog';
 import { useToast } from '@/components/Toast';
+import { TagBadge } from '@/components/TagBadge';
+import { CustomFieldInput } from '@/components/CustomFieldInput';
+import { SearchBox } from '@/components/SearchBox';
+import { BoardGroupBy, BoardMove, BoardTicket, TicketBoard } from '@/components/TicketBoard';
+import { TICKET_STATUSES, STATUS_LABELS, TicketStatus, getAllowedTransitions, normalizeStatus } from '@/lib/ticketStatus';
+import { formatTicketNumber } from '@/lib/ticketNumber';
+import { CustomFieldDefinition, CustomFieldValue } from '@/lib/customFields';
+import { TicketOption, getActiveOptions, getDefaultOptionValue, getOptionLabel, getOptionStyle } from '@/lib/ticketOptions';
+import { DEFAULT_FILTERS, DashboardFilters, filtersToQuery, hasFilterQuery, normalizeViewQuery, queryToFilters } from '@/lib/savedViews';
+import { BULK_ACTIONS, BULK_ACTION_LABELS, BulkAction, BulkResult, REQUESTER_BULK_ACTIONS } from '@/lib/bulkActions';
+import { hasTextSearch } from '@/lib/searchQuery';
+import { SEARCH_MATCH_LABELS, SearchMatch, splitHighlights } from '@/lib/searchHighlight';
+import { ALLOWED_ATTACHMENT_TYPES, MAX_ATTACHMENTS_PER_UPLOAD, MAX_ATTACHMENT_SIZE, formatFileSize, validateAttachments } from '@/lib/attachmentRules';
 
 interface Ticket {
   _id: string;
+  number?: number;
   title: string;
   description: string;
-  status: 'open' | 'closed';
-  priority: 'low' | 'medium' | 'high' | 'urgent';
-  category: 'technical' | 'billing' | 'general' | 'feature_request' | 'bug_report';
+  status: TicketStatus;
+  priority: string;
+  category: string;
   userId: string;
+  assigneeId?: string | null;
+  assigneeName?: string | null;
+  tags?: string[];
+  resolvedAt?: string | null;
+  resolutionDueAt?: string | null;
+  ageMinutes?: number;
+  sla?: {
+    firstResponse: string;
+    resolution: string;
+    breached: boolean;
+    atRisk: boolean;
+  };
+  matches?: SearchMatch[];
   createdAt: string;
   updatedAt: string;
 }
 
 interface TicketStats {
   total: number;
-  open: number;
+  active: number;
+  resolved: number;
   closed: number;
+  slaBreached: number;
+  slaAtRisk: number;
+  byStatus: Record<string, number>;
   byPriority: Record<string, number>;
   byCategory: Record<string, number>;
+  byTag: Record<string, number>;
+}
+
+interface CatalogTag {
+  _id: string;
+  name: string;
+  color: string;
+}
+
+interface CatalogCustomField extends CustomFieldDefinition {
+  _id: string;
+}
+
+interface SavedView {
+  _id: string;
+  name: string;
+  query: string;
+  ownerId: string;
+  ownerName: string;
+  shared: boolean;
+}
+
+interface StaffMember {
+  _id: string;
+  name: string;
+}
+
+interface SimilarTicket {
+  _id: string;
+  number?: number;
+  title: string;
+  status: TicketStatus;
+  knownIssue: boolean;
 }
 
 interface PaginationInfo {
-  page: number;
   limit: number;
-  totalCount: number;
-  totalPages: number;
+  totalCount: number | null;
+  countIsApproximate: boolean; // there are at least totalCount tickets
   hasNext: boolean;
   hasPrev: boolean;
+  nextCursor: string | null;
+  prevCursor: string | null;
 }
 
+// The board loads this many tickets at most, since it isn't paged
+const BOARD_TICKET_LIMIT = 200;
+
+// Similar tickets are looked up once typing pauses for this long (ms)
+const SIMILAR_TICKETS_DELAY = 400;
+
 export default function EnhancedDashboardPage() {
   const { data: session, status } = useSession();
   const router = useRouter();
@@ -50,27 +121,49 @@ export default function EnhancedDashboardPage() {
   const [formData, setFormData] = useState({
     title: '',
     description: '',
-    priority: 'medium' as 'low' | 'medium' | 'high' | 'urgent',
-    category: 'general' as 'technical' | 'billing' | 'general' | 'feature_request' | 'bug_report'
+    priority: 'medium',
+    category: 'general'
   });
+  const [attachments, setAttachments] = useState<File[]>([]);
+  const [tagCatalog, setTagCatalog] = useState<CatalogTag[]>([]);
+  const [priorityOptions, setPriorityOptions] = useState<TicketOption[]>([]);
+  const [categoryOptions, setCategoryOptions] = useState<TicketOption[]>([]);
+  const [customFieldDefs, setCustomFieldDefs] = useState<CatalogCustomField[]>([]);
+  const [customFieldValues, setCustomFieldValues] = useState<Record<string, CustomFieldValue>>({});
   const [submitting, setSubmitting] = useState(false);
+  const [similarTickets, setSimilarTickets] = useState<SimilarTicket[]>([]);
   const [deleteDialog, setDeleteDialog] = useState<{ isOpen: boolean; ticketId: string; ticketTitle: string }>({
     isOpen: false,
     ticketId: '',
     ticketTitle: ''
   });
   
+  // Tickets selected for a bulk action, by ID
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [bulkAction, setBulkAction] = useState<BulkAction | ''>('');
+  const [bulkValue, setBulkValue] = useState('');
+  const [bulkRunning, setBulkRunning] = useState(false);
+  const [bulkDeleteDialog, setBulkDeleteDialog] = useState(false);
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+
+  // Board view (admin only): every matching ticket in status columns instead of the paged list
+  const [viewMode, setViewMode] = useState<'list' | 'board'>('list');
+  const [boardGroupBy, setBoardGroupBy] = useState<BoardGroupBy>('none');
+  const [boardTickets, setBoardTickets] = useState<Ticket[]>([]);
+  const [boardTotal, setBoardTotal] = useState(0);
+  
   // Filter and search states
-  const [filters, setFilters] = useState({
-    status: 'all',
-    priority: 'all',
-    category: 'all',
-    search: '',
-    sortBy: 'createdAt',
-    sortOrder: 'desc',
-    page: 1,
-    limit: 10
-  });
+  const [filters, setFilters] = useState<DashboardFilters>(DEFAULT_FILTERS);
+  // Custom field filters by key, only offered once a category is selected
+  const [customFilters, setCustomFilters] = useState<Record<string, string>>({});
+  // Set once the filters were read from the URL or the default view, so tickets aren't fetched twice
+  const [filtersReady, setFiltersReady] = useState(false);
+
+  // Saved views
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [defaultViewId, setDefaultViewId] = useState<string | null>(null);
+  const [viewDialog, setViewDialog] = useState({ isOpen: false, name: '', shared: false, saving: false });
+  const [deleteViewDialog, setDeleteViewDialog] = useState(false);
 
   // Redirect to login if not authenticated
   useEffect(() => {
@@ -80,23 +173,36 @@ export default function EnhancedDashboardPage() {
   }, [status, router]);
 
   // Fetch tickets with filters
+  const buildTicketParams = (overrides: Partial<DashboardFilters> = {}) => {
+    const params = new URLSearchParams();
+    Object.entries({ ...filters, ...overrides }).forEach(([key, value]) => {
+      if (value && value !== 'all') {
+        params.append(key, value.toString());
+      }
+    });
+    Object.entries(customFilters).forEach(([key, value]) => {
+      if (value) {
+        params.append(`cf.${key}`, value);
+      }
+    });
+    return params;
+  };
+
   const fetchTickets = async () => {
     try {
       setTicketsLoading(true);
 
-      const params = new URLSearchParams();
-      Object.entries(filters).forEach(([key, value]) => {
-        if (value && value !== 'all') {
-          params.append(key, value.toString());
-        }
-      });
+      const params = buildTicketParams();
+      // Exact counts get slow on large lists, and the list only needs a rough idea
+      params.set('count', 'approximate');
 
       const response = await fetch(`/api/tickets?${params.toString()}`);
       const data = await response.json();
 
       if (response.ok) {
         setTickets(data.tickets);
-        setStats(data.stats);
+        // Keep only the selected tickets that are still listed
+        setSelectedIds(prev => prev.filter(id => data.tickets.some((t: Ticket) => t._id === id)));
         setPagination(data.pagination);
       } else {
         setError(data.error || 'Failed to fetch tickets');
@@ -108,57 +214,364 @@ export default function EnhancedDashboardPage() {
     }
   };
 
+  // Statistics cover all of the user's tickets whatever the filters, so they're only fetched again after changes
+  const fetchStats = async () => {
+    try {
+      const response = await fetch('/api/tickets/stats');
+      const data = await response.json();
+
+      if (response.ok) {
+        setStats(data.stats);
+      } else {
+        console.error('Failed to fetch ticket statistics:', data.error);
+      }
+    } catch {
+      console.error('Failed to fetch ticket statistics');
+    }
+  };
+
+  // Fetch tickets for the board; the columns stand in for the status filter
+  const fetchBoardTickets = async () => {
+    try {
+      const params = buildTicketParams({ status: 'all', cursor: '', limit: BOARD_TICKET_LIMIT });
+
+      const response = await fetch(`/api/tickets?${params.toString()}`);
+      const data = await response.json();
+
+      if (response.ok) {
+        setBoardTickets(data.tickets);
+        setBoardTotal(data.pagination.totalCount);
+      } else {
+        setError(data.error || 'Failed to fetch tickets');
+      }
+    } catch {
+      setError('Failed to fetch tickets');
+    }
+  };
+
+  // Fetch the tag catalog for tag colors and the tag filter
+  useEffect(() => {
+    if (status !== 'authenticated') return;
+
+    fetchStats();
+
+    fetch('/api/tags')
+      .then(response => response.ok ? response.json() : { tags: [] })
+      .then(data => setTagCatalog(data.tags))
+      .catch(() => console.error('Failed to fetch tags'));
+
+    fetch('/api/ticket-options')
+      .then(response => response.ok ? response.json() : { priorities: [], categories: [] })
+      .then(data => {
+        setPriorityOptions(data.priorities);
+        setCategoryOptions(data.categories);
+        // Start the create form on the configured defaults
+        setFormData(prev => ({
+          ...prev,
+          priority: getDefaultOptionValue('priority', data.priorities),
+          category: getDefaultOptionValue('category', data.categories)
+        }));
+      })
+      .catch(() => console.error('Failed to fetch priorities and categories'));
+
+    fetch('/api/custom-fields')
+      .then(response => response.ok ? response.json() : { fields: [] })
+      .then(data => setCustomFieldDefs(data.fields))
+      .catch(() => console.error('Failed to fetch custom fields'));
+  }, [status]);
+
+  // Existing tickets similar to the one being written, so users can spot a duplicate before creating it
+  useEffect(() => {
+    if (!showCreateForm || formData.title.trim().length < 3) {
+      setSimilarTickets([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      const params = new URLSearchParams({ title: formData.title, description: formData.description.slice(0, 500) });
+      fetch(`/api/tickets/similar?${params}`, { signal: controller.signal })
+        .then(response => response.ok ? response.json() : { tickets: [] })
+        .then(data => setSimilarTickets(data.tickets))
+        .catch(error => {
+          if (error.name !== 'AbortError') console.error('Failed to fetch similar tickets');
+        });
+    }, SIMILAR_TICKETS_DELAY);
+
+    // Typing again cancels the pending lookup
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [showCreateForm, formData.title, formData.description]);
+
+  // Staff members that tickets can be bulk-assigned to (admin only)
+  useEffect(() => {
+    if (session?.user.role !== 'admin') return;
+
+    fetch('/api/admin/users?role=admin')
+      .then(response => response.ok ? response.json() : { users: [] })
+      .then(data => setStaff(data.users))
+      .catch(() => console.error('Failed to fetch staff'));
+  }, [session?.user.role]);
+
+  // Replace all filters with the ones in a query string
+  const applyQuery = (query: string) => {
+    const parsed = queryToFilters(query);
+    setFilters(parsed.filters);
+    setCustomFilters(parsed.customFilters);
+  };
+
+  // Start from the filters in the URL, or else the user's default view
+  useEffect(() => {
+    if (status !== 'authenticated') return;
+
+    const query = window.location.search.slice(1);
+
+    fetch('/api/saved-views')
+      .then(response => response.ok ? response.json() : { views: [], defaultViewId: null })
+      .then(data => {
+        setViews(data.views);
+        setDefaultViewId(data.defaultViewId);
+
+        const defaultView = (data.views as SavedView[]).find(view => view._id === data.defaultViewId);
+        if (!hasFilterQuery(query) && defaultView) {
+          applyQuery(defaultView.query);
+        }
+      })
+      .catch(() => console.error('Failed to fetch saved views'))
+      .finally(() => setFiltersReady(true));
+
+    if (hasFilterQuery(query)) {
+      applyQuery(query);
+    }
+  }, [status]);
+
   useEffect(() => {
-    if (session && status === 'authenticated') {
+    if (session && status === 'authenticated' && filtersReady) {
+      // Keep the URL in step with the filters so they survive a reload and can be shared
+      const query = filtersToQuery(filters, customFilters);
+      router.replace(query ? `/dashboard?${query}` : '/dashboard', { scroll: false });
+
       fetchTickets();
+      if (viewMode === 'board') {
+        fetchBoardTickets();
+      }
       setLoading(false);
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [session, filters, status]);
+  }, [session, filters, customFilters, status, filtersReady, viewMode]);
+
+  // The view matching the current filters, if any
+  const currentViewQuery = normalizeViewQuery(filtersToQuery(filters, customFilters));
+  const activeView = views.find(view => view.query === currentViewQuery);
+
+  const fetchViews = async () => {
+    try {
+      const response = await fetch('/api/saved-views');
+      const data = await response.json();
+
+      if (response.ok) {
+        setViews(data.views);
+        setDefaultViewId(data.defaultViewId);
+      } else {
+        console.error('Failed to fetch saved views:', data.error);
+      }
+    } catch {
+      console.error('Failed to fetch saved views');
+    }
+  };
+
+  const handleSelectView = (viewId: string) => {
+    const view = views.find(v => v._id === viewId);
+    applyQuery(view ? view.query : '');
+  };
+
+  // Save the current filters as a new view
+  const handleSaveView = async () => {
+    setViewDialog(prev => ({ ...prev, saving: true }));
+    try {
+      const response = await fetch('/api/saved-views', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ name: viewDialog.name, query: currentViewQuery, shared: viewDialog.shared })
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setViewDialog({ isOpen: false, name: '', shared: false, saving: false });
+        fetchViews();
+        addToast({
+          type: 'success',
+          title: 'View Saved',
+          message: `"${data.view.name}" is now in your views.`
+        });
+      } else {
+        setViewDialog(prev => ({ ...prev, saving: false }));
+        addToast({
+          type: 'error',
+          title: 'Failed to Save View',
+          message: data.error || 'An error occurred while saving the view.'
+        });
+      }
+    } catch {
+      setViewDialog(prev => ({ ...prev, saving: false }));
+      setError('Failed to save view');
+    }
+  };
+
+  // Make a view (or none) the one the dashboard opens with
+  const handleSetDefaultView = async (viewId: string | null) => {
+    try {
+      const response = await fetch('/api/saved-views/default', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ viewId })
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setDefaultViewId(data.defaultViewId);
+        addToast({
+          type: 'success',
+          title: viewId ? 'Default View Set' : 'Default View Cleared',
+          message: viewId ? 'The dashboard will open with this view.' : 'The dashboard will open without filters.'
+        });
+      } else {
+        setError(data.error || 'Failed to update default view');
+      }
+    } catch {
+      setError('Failed to update default view');
+    }
+  };
+
+  const confirmDeleteView = async () => {
+    if (!activeView) return;
+
+    try {
+      const response = await fetch(`/api/saved-views/${activeView._id}`, {
+        method: 'DELETE'
+      });
+
+      setDeleteViewDialog(false);
+      if (response.ok) {
+        fetchViews();
+        addToast({
+          type: 'success',
+          title: 'View Deleted',
+          message: `"${activeView.name}" has been deleted.`
+        });
+      } else {
+        const data = await response.json();
+        setError(data.error || 'Failed to delete view');
+      }
+    } catch {
+      setDeleteViewDialog(false);
+      setError('Failed to delete view');
+    }
+  };
 
   // Handle filter changes
   const handleFilterChange = (key: string, value: string) => {
-    setFilters(prev => ({ ...prev, [key]: value, page: 1 }));
+    setFilters(prev => ({ ...prev, [key]: value, cursor: '' }));
+    // Custom fields belong to a category, so their filters don't carry over
+    if (key === 'category') {
+      setCustomFilters({});
+    }
   };
 
+  const handleCustomFilterChange = (key: string, value: string) => {
+    setCustomFilters(prev => ({ ...prev, [key]: value }));
+    setFilters(prev => ({ ...prev, cursor: '' }));
+  };
+
+  const getCategoryFields = (category: string) => customFieldDefs.filter(f => f.category === category);
+
+  // Tag filters are kept as a comma-separated list
+  const filterTags = filters.tags ? filters.tags.split(',') : [];
+
+  const toggleTagFilter = (tag: string) => {
+    const next = filterTags.includes(tag)
+      ? filterTags.filter(t => t !== tag)
+      : [...filterTags, tag];
+    handleFilterChange('tags', next.join(','));
+  };
+
+  const getTagColor = (tag: string) => tagCatalog.find(t => t.name === tag)?.color;
+
   // Handle search
-  const handleSearch = (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
-    const formData = new FormData(e.currentTarget);
-    const searchTerm = formData.get('search') as string;
-    setFilters(prev => ({ ...prev, search: searchTerm, page: 1 }));
+  // Searches for words are ranked by relevance; other sorts are kept unless they were relevance
+  const handleSearch = (searchTerm: string) => {
+    setFilters(prev => {
+      const next = { ...prev, search: searchTerm, cursor: '' };
+      if (hasTextSearch(searchTerm)) {
+        return { ...next, sortBy: 'relevance', sortOrder: 'desc' };
+      }
+      if (prev.sortBy === 'relevance') {
+        return { ...next, sortBy: 'createdAt', sortOrder: 'desc' };
+      }
+      return next;
+    });
   };
 
   // Handle pagination
-  const handlePageChange = (newPage: number) => {
-    setFilters(prev => ({ ...prev, page: newPage }));
+  const handlePageChange = (cursor: string | null) => {
+    setFilters(prev => ({ ...prev, cursor: cursor || '' }));
   };
 
+  const formatTotal = (info: PaginationInfo) => `${info.totalCount ?? 0}${info.countIsApproximate ? '+' : ''}`;
+
   // Create ticket
   const handleCreateTicket = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    const attachmentError = validateAttachments(attachments);
+    if (attachmentError) {
+      setError(attachmentError);
+      return;
+    }
+
     setSubmitting(true);
     setError('');
 
+    // Sent as multipart form data so files can be included
+    const body = new FormData();
+    Object.entries(formData).forEach(([key, value]) => body.append(key, value));
+    body.append('customFields', JSON.stringify(customFieldValues));
+    attachments.forEach(file => body.append('attachments', file));
+
     try {
       const response = await fetch('/api/tickets', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(formData)
+        body
       });
 
       const data = await response.json();
 
       if (response.ok) {
-        setFormData({ title: '', description: '', priority: 'medium', category: 'general' });
+        setFormData({
+          title: '',
+          description: '',
+          priority: getDefaultOptionValue('priority', priorityOptions),
+          category: getDefaultOptionValue('category', categoryOptions)
+        });
+        setCustomFieldValues({});
+        setAttachments([]);
         setShowCreateForm(false);
         fetchTickets(); // Refresh tickets
+        fetchStats();
         addToast({
           type: 'success',
           title: 'Ticket Created',
-          message: 'Your ticket has been created successfully.'
+          message: data.ticket.number
+            ? `Your ticket ${formatTicketNumber(data.ticket.number)} has been created successfully.`
+            : 'Your ticket has been created successfully.'
         });
       } else {
         setError(data.error || 'Failed to create ticket');
@@ -193,11 +606,12 @@ export default function EnhancedDashboardPage() {
 
       if (response.ok) {
         fetchTickets(); // Refresh tickets
+        fetchStats();
         setDeleteDialog({ isOpen: false, ticketId: '', ticketTitle: '' });
         addToast({
           type: 'success',
           title: 'Ticket Deleted',
-          message: 'The ticket has been deleted successfully.'
+          message: 'The ticket has been moved to the trash.'
         });
       } else {
         const data = await response.json();
@@ -215,8 +629,8 @@ export default function EnhancedDashboardPage() {
     }
   };
 
-  // Update ticket status (admin only)
-  const handleUpdateStatus = async (ticketId: string, newStatus: 'open' | 'closed') => {
+  // Move a ticket to another lifecycle status
+  const handleUpdateStatus = async (ticketId: string, newStatus: TicketStatus) => {
     try {
       const response = await fetch(`/api/tickets/${ticketId}`, {
         method: 'PUT',
@@ -228,10 +642,11 @@ export default function EnhancedDashboardPage() {
 
       if (response.ok) {
         fetchTickets(); // Refresh tickets
+        fetchStats();
         addToast({
           type: 'success',
           title: 'Ticket Status Updated',
-          message: `Ticket status has been changed to ${newStatus}.`
+          message: `Ticket status has been changed to ${STATUS_LABELS[newStatus]}.`
         });
       } else {
         const data = await response.json();
@@ -247,31 +662,205 @@ export default function EnhancedDashboardPage() {
     }
   };
 
-  // Helper functions for display
-  const getPriorityColor = (priority: string) => {
-    switch (priority) {
-      case 'urgent': return 'bg-red-100 text-red-800';
-      case 'high': return 'bg-orange-100 text-orange-800';
-      case 'medium': return 'bg-yellow-100 text-yellow-800';
-      case 'low': return 'bg-green-100 text-green-800';
-      default: return 'bg-gray-100 text-gray-800';
+  // Assign, claim or unassign a ticket (admin only)
+  const handleAssign = async (ticketId: string, assigneeId: string | null) => {
+    try {
+      const response = await fetch(`/api/tickets/${ticketId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ assigneeId })
+      });
+
+      if (response.ok) {
+        fetchTickets(); // Refresh tickets
+        fetchStats();
+        addToast({
+          type: 'success',
+          title: assigneeId ? 'Ticket Claimed' : 'Ticket Unassigned',
+          message: assigneeId ? 'The ticket is now in your queue.' : 'The ticket has been returned to the unassigned queue.'
+        });
+      } else {
+        const data = await response.json();
+        setError(data.error || 'Failed to update assignee');
+        addToast({
+          type: 'error',
+          title: 'Failed to Update Assignee',
+          message: data.error || 'An error occurred while updating the ticket assignee.'
+        });
+      }
+    } catch {
+      setError('Failed to update assignee');
+    }
+  };
+
+  // Select or deselect a single ticket, or every ticket on the page
+  const toggleSelected = (ticketId: string) => {
+    setSelectedIds(prev => prev.includes(ticketId) ? prev.filter(id => id !== ticketId) : [...prev, ticketId]);
+  };
+
+  const allSelected = tickets.length > 0 && tickets.every(t => selectedIds.includes(t._id));
+
+  const toggleSelectAll = () => {
+    setSelectedIds(allSelected ? [] : tickets.map(t => t._id));
+  };
+
+  const changeBulkAction = (action: BulkAction | '') => {
+    setBulkAction(action);
+    // Start value-based actions on a sensible choice
+    setBulkValue(
+      action === 'set_priority' ? getDefaultOptionValue('priority', priorityOptions)
+        : action === 'set_category' ? getDefaultOptionValue('category', categoryOptions)
+          : action === 'assign' ? session?.user.id || ''
+            : ''
+    );
+  };
+
+  // Apply the chosen action to every selected ticket, reporting the ones that failed
+  const runBulkAction = async () => {
+    if (!bulkAction || selectedIds.length === 0) return;
+
+    setBulkRunning(true);
+    setBulkDeleteDialog(false);
+    try {
+      const value = bulkAction === 'add_tags' || bulkAction === 'remove_tags'
+        ? bulkValue.split(',').map(tag => tag.trim()).filter(Boolean)
+        : bulkAction === 'assign' ? bulkValue || null : bulkValue;
+
+      const response = await fetch('/api/tickets/bulk', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ ids: selectedIds, action: bulkAction, value })
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        const failures = (data.results as BulkResult[]).filter(result => !result.success);
+        setSelectedIds(failures.map(result => result.id));
+        setBulkAction('');
+        setBulkValue('');
+        fetchTickets(); // Refresh tickets
+        fetchStats();
+
+        if (data.succeeded > 0) {
+          addToast({
+            type: 'success',
+            title: `${BULK_ACTION_LABELS[bulkAction as BulkAction]}: ${data.succeeded} ticket(s) updated`,
+            message: data.autoClosed.length > 0
+              ? `Linked tickets closed as well: ${data.autoClosed.join(', ')}`
+              : undefined
+          });
+        }
+        if (failures.length > 0) {
+          addToast({
+            type: 'error',
+            title: `${failures.length} ticket(s) could not be updated`,
+            message: failures
+              .map(result => `${result.number ? formatTicketNumber(result.number) : result.id}: ${'error' in result ? result.error : ''}`)
+              .join('; ')
+          });
+        }
+      } else {
+        setError(data.error || 'Failed to apply bulk action');
+        addToast({
+          type: 'error',
+          title: 'Bulk Action Failed',
+          message: data.error || 'An error occurred while updating the selected tickets.'
+        });
+      }
+    } catch {
+      setError('Failed to apply bulk action');
+    } finally {
+      setBulkRunning(false);
     }
   };
 
-  const getCategoryColor = (category: string) => {
-    switch (category) {
-      case 'technical': return 'bg-blue-100 text-blue-800';
-      case 'billing': return 'bg-purple-100 text-purple-800';
-      case 'feature_request': return 'bg-indigo-100 text-indigo-800';
-      case 'bug_report': return 'bg-red-100 text-red-800';
+  // Requesters only get the lifecycle and delete actions for their own tickets
+  const availableBulkActions = session?.user.role === 'admin'
+    ? [...BULK_ACTIONS]
+    : BULK_ACTIONS.filter(action => REQUESTER_BULK_ACTIONS.includes(action));
+
+  // Move a ticket on the board: show the move straight away and undo it if the update fails
+  const handleBoardMove = async (ticket: BoardTicket, move: BoardMove) => {
+    const previous = boardTickets.find(t => t._id === ticket._id);
+    if (!previous) return;
+
+    const changes: Record<string, unknown> = {};
+    if (move.status !== normalizeStatus(previous.status)) changes.status = move.status;
+    if (move.priority !== undefined && move.priority !== previous.priority) changes.priority = move.priority;
+    if (move.assigneeId !== undefined && move.assigneeId !== (previous.assigneeId || null)) changes.assigneeId = move.assigneeId;
+
+    const assigneeName = move.assigneeId !== undefined
+      ? staff.find(member => member._id === move.assigneeId)?.name ?? null
+      : previous.assigneeName;
+
+    setBoardTickets(prev => prev.map(t => t._id === ticket._id ? { ...t, ...changes, assigneeName } as Ticket : t));
+
+    const rollback = (message: string) => {
+      setBoardTickets(prev => prev.map(t => t._id === ticket._id ? previous : t));
+      addToast({
+        type: 'error',
+        title: `Could not move ${previous.number ? formatTicketNumber(previous.number) : 'ticket'}`,
+        message
+      });
+    };
+
+    try {
+      const response = await fetch(`/api/tickets/${ticket._id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(changes)
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setBoardTickets(prev => prev.map(t => t._id === ticket._id ? { ...t, ...data.ticket } : t));
+        // Linked tickets may have closed too, and the list and stats should follow the board
+        if (data.autoClosed?.length > 0) {
+          fetchBoardTickets();
+        }
+        fetchTickets();
+        fetchStats();
+      } else {
+        rollback(data.error || 'An error occurred while updating the ticket.');
+      }
+    } catch {
+      rollback('An error occurred while updating the ticket.');
+    }
+  };
+
+  // Helper functions for display
+  const getStatusColor = (ticketStatus: string) => {
+    switch (normalizeStatus(ticketStatus)) {
+      case 'new': return 'bg-green-100 text-green-800';
+      case 'in_progress': return 'bg-blue-100 text-blue-800';
+      case 'waiting_on_customer': return 'bg-yellow-100 text-yellow-800';
+      case 'resolved': return 'bg-teal-100 text-teal-800';
+      case 'reopened': return 'bg-orange-100 text-orange-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
 
-  const formatCategory = (category: string) => {
-    return category.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+  // Format a duration in minutes, e.g. "2d 3h" or "45m"
+  const formatDuration = (minutes: number) => {
+    const days = Math.floor(minutes / (24 * 60));
+    const hours = Math.floor((minutes % (24 * 60)) / 60);
+    const mins = minutes % 60;
+    if (days > 0) return `${days}d ${hours}h`;
+    if (hours > 0) return `${hours}h ${mins}m`;
+    return `${mins}m`;
   };
 
+  // The highest active priority, shown as its own stat
+  const topPriority = getActiveOptions(priorityOptions).at(-1);
+
   if (status === 'loading' || loading) {
     return (
       <div className="min-h-screen bg-gray-50">
@@ -338,7 +927,7 @@ export default function EnhancedDashboardPage() {
           onClose={() => setDeleteDialog({ isOpen: false, ticketId: '', ticketTitle: '' })}
           onConfirm={confirmDeleteTicket}
           title="Delete Ticket"
-          message={`Are you sure you want to delete "${deleteDialog.ticketTitle}"? This action cannot be undone.`}
+          message={`Are you sure you want to delete "${deleteDialog.ticketTitle}"? It will be moved to the trash, where an administrator can restore it.`}
           confirmText="Delete"
           confirmVariant="danger"
         />
@@ -377,6 +966,12 @@ export default function EnhancedDashboardPage() {
                   >
                     Audit Logs
                   </button>
+                  <button
+                    onClick={() => router.push('/admin/trash')}
+                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                  >
+                    Trash
+                  </button>
                 </>
               )}
               <button
@@ -395,22 +990,29 @@ export default function EnhancedDashboardPage() {
         <div className="px-4 py-6 sm:px-0">
           {/* Statistics Cards */}
           {stats ? (
-            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-6">
               <div className="bg-white p-4 rounded-lg shadow">
                 <h3 className="text-sm font-medium text-gray-500">Total Tickets</h3>
                 <p className="text-2xl font-bold text-gray-900">{stats.total}</p>
               </div>
               <div className="bg-white p-4 rounded-lg shadow">
-                <h3 className="text-sm font-medium text-gray-500">Open Tickets</h3>
-                <p className="text-2xl font-bold text-green-600">{stats.open}</p>
+                <h3 className="text-sm font-medium text-gray-500">Active Tickets</h3>
+                <p className="text-2xl font-bold text-green-600">{stats.active}</p>
               </div>
               <div className="bg-white p-4 rounded-lg shadow">
                 <h3 className="text-sm font-medium text-gray-500">Closed Tickets</h3>
                 <p className="text-2xl font-bold text-gray-600">{stats.closed}</p>
               </div>
               <div className="bg-white p-4 rounded-lg shadow">
-                <h3 className="text-sm font-medium text-gray-500">Urgent Tickets</h3>
-                <p className="text-2xl font-bold text-red-600">{stats.byPriority.urgent || 0}</p>
+                <h3 className="text-sm font-medium text-gray-500">{topPriority?.label || 'Urgent'} Tickets</h3>
+                <p className="text-2xl font-bold text-red-600">{stats.byPriority[topPriority?.value || 'urgent'] || 0}</p>
+              </div>
+              <div className="bg-white p-4 rounded-lg shadow">
+                <h3 className="text-sm font-medium text-gray-500">SLA Breached / At Risk</h3>
+                <p className="text-2xl font-bold text-red-600">
+                  {stats.slaBreached}
+                  <span className="text-yellow-600"> / {stats.slaAtRisk}</span>
+                </p>
               </div>
             </div>
           ) : (
@@ -419,18 +1021,74 @@ export default function EnhancedDashboardPage() {
 
           {/* Filters and Search */}
           <div className="bg-white shadow rounded-lg p-6 mb-6">
+            {/* Saved Views */}
+            <div className="flex flex-wrap items-center gap-2 mb-4 pb-4 border-b border-gray-200 text-sm">
+              <label htmlFor="saved-view" className="font-medium text-gray-700">View:</label>
+              <select
+                id="saved-view"
+                value={activeView?._id || ''}
+                onChange={(e) => handleSelectView(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                <option value="">{currentViewQuery ? 'Custom filters' : 'All tickets'}</option>
+                {views.map((view) => (
+                  <option key={view._id} value={view._id}>
+                    {view.name}
+                    {view.ownerId !== session.user.id ? ` (shared by ${view.ownerName})` : view.shared ? ' (shared)' : ''}
+                    {view._id === defaultViewId ? ' - default' : ''}
+                  </option>
+                ))}
+              </select>
+              {!activeView && currentViewQuery && (
+                <button
+                  onClick={() => setViewDialog({ isOpen: true, name: '', shared: false, saving: false })}
+                  className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                >
+                  Save view
+                </button>
+              )}
+              {activeView && activeView._id !== defaultViewId && (
+                <button
+                  onClick={() => handleSetDefaultView(activeView._id)}
+                  className="text-sm text-blue-600 hover:text-blue-800"
+                >
+                  Set as default
+                </button>
+              )}
+              {activeView && activeView._id === defaultViewId && (
+                <button
+                  onClick={() => handleSetDefaultView(null)}
+                  className="text-sm text-blue-600 hover:text-blue-800"
+                >
+                  Clear default
+                </button>
+              )}
+              {activeView && activeView.ownerId === session.user.id && (
+                <button
+                  onClick={() => setDeleteViewDialog(true)}
+                  className="text-sm text-red-600 hover:text-red-800"
+                >
+                  Delete view
+                </button>
+              )}
+            </div>
+
             <div className="flex flex-wrap gap-4 items-center justify-between">
               <div className="flex flex-wrap gap-4">
-                {/* Status Filter */}
-                <select
-                  value={filters.status}
-                  onChange={(e) => handleFilterChange('status', e.target.value)}
-                  className="px-3 py-2 border border-gray-300 rounded-md text-sm"
-                >
-                  <option value="all">All Status</option>
-                  <option value="open">Open</option>
-                  <option value="closed">Closed</option>
-                </select>
+                {/* Status Filter (the board shows every status as a column) */}
+                {viewMode === 'list' && (
+                  <select
+                    value={filters.status}
+                    onChange={(e) => handleFilterChange('status', e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  >
+                    <option value="all">All Status</option>
+                    <option value="active">Active</option>
+                    {TICKET_STATUSES.map((s) => (
+                      <option key={s} value={s}>{STATUS_LABELS[s]}</option>
+                    ))}
+                  </select>
+                )}
 
                 {/* Priority Filter */}
                 <select
@@ -439,10 +1097,11 @@ export default function EnhancedDashboardPage() {
                   className="px-3 py-2 border border-gray-300 rounded-md text-sm"
                 >
                   <option value="all">All Priorities</option>
-                  <option value="urgent">Urgent</option>
-                  <option value="high">High</option>
-                  <option value="medium">Medium</option>
-                  <option value="low">Low</option>
+                  {[...priorityOptions].reverse().map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}{option.retired ? ' (retired)' : ''}
+                    </option>
+                  ))}
                 </select>
 
                 {/* Category Filter */}
@@ -452,11 +1111,84 @@ export default function EnhancedDashboardPage() {
                   className="px-3 py-2 border border-gray-300 rounded-md text-sm"
                 >
                   <option value="all">All Categories</option>
-                  <option value="technical">Technical</option>
-                  <option value="billing">Billing</option>
-                  <option value="general">General</option>
-                  <option value="feature_request">Feature Request</option>
-                  <option value="bug_report">Bug Report</option>
+                  {categoryOptions.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}{option.retired ? ' (retired)' : ''}
+                    </option>
+                  ))}
+                </select>
+
+                {/* Assignee Filter (admin only) */}
+                {session.user.role === 'admin' && (
+                  <select
+                    value={filters.assignee}
+                    onChange={(e) => handleFilterChange('assignee', e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  >
+                    <option value="all">All Assignees</option>
+                    <option value="me">Assigned to Me</option>
+                    <option value="unassigned">Unassigned</option>
+                  </select>
+                )}
+
+                {/* SLA Filter (admin only) */}
+                {session.user.role === 'admin' && (
+                  <select
+                    value={filters.sla}
+                    onChange={(e) => handleFilterChange('sla', e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  >
+                    <option value="all">All SLA States</option>
+                    <option value="breached">SLA Breached</option>
+                    <option value="at_risk">SLA At Risk</option>
+                  </select>
+                )}
+
+                {/* Custom Field Filters (for the selected category) */}
+                {getCategoryFields(filters.category).map((field) => (
+                  field.type === 'select' || field.type === 'checkbox' ? (
+                    <select
+                      key={field._id}
+                      value={customFilters[field.key] || ''}
+                      onChange={(e) => handleCustomFilterChange(field.key, e.target.value)}
+                      className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    >
+                      <option value="">Any {field.label}</option>
+                      {field.type === 'select' ? field.options.map((option) => (
+                        <option key={option} value={option}>{option}</option>
+                      )) : (
+                        <>
+                          <option value="true">{field.label}: Yes</option>
+                          <option value="false">{field.label}: No</option>
+                        </>
+                      )}
+                    </select>
+                  ) : (
+                    <input
+                      key={field._id}
+                      type={field.type}
+                      value={customFilters[field.key] || ''}
+                      onChange={(e) => handleCustomFilterChange(field.key, e.target.value)}
+                      placeholder={field.label}
+                      title={field.label}
+                      className="px-3 py-2 border border-gray-300 rounded-md text-sm w-36"
+                    />
+                  )
+                ))}
+
+                {/* Tag Filter */}
+                <select
+                  value=""
+                  onChange={(e) => e.target.value && toggleTagFilter(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                >
+                  <option value="">Filter by Tag</option>
+                  {[...new Set([...tagCatalog.map(t => t.name), ...Object.keys(stats?.byTag || {})])]
+                    .filter(tag => !filterTags.includes(tag))
+                    .sort()
+                    .map((tag) => (
+                      <option key={tag} value={tag}>{tag}</option>
+                    ))}
                 </select>
 
                 {/* Sort Options */}
@@ -464,10 +1196,11 @@ export default function EnhancedDashboardPage() {
                   value={`${filters.sortBy}-${filters.sortOrder}`}
                   onChange={(e) => {
                     const [sortBy, sortOrder] = e.target.value.split('-');
-                    setFilters(prev => ({ ...prev, sortBy, sortOrder, page: 1 }));
+                    setFilters(prev => ({ ...prev, sortBy, sortOrder, cursor: '' }));
                   }}
                   className="px-3 py-2 border border-gray-300 rounded-md text-sm"
                 >
+                  {hasTextSearch(filters.search) && <option value="relevance-desc">Best Match</option>}
                   <option value="createdAt-desc">Newest First</option>
                   <option value="createdAt-asc">Oldest First</option>
                   <option value="title-asc">Title A-Z</option>
@@ -477,23 +1210,55 @@ export default function EnhancedDashboardPage() {
                 </select>
               </div>
 
-              {/* Search */}
-              <form onSubmit={handleSearch} className="flex gap-2">
-                <input
-                  name="search"
-                  type="text"
-                  placeholder="Search tickets..."
-                  defaultValue={filters.search}
-                  className="px-3 py-2 border border-gray-300 rounded-md text-sm w-64"
-                />
+              {/* Search, e.g. status:open priority:>=high "exact phrase" -refund */}
+              <SearchBox
+                key={filters.search}
+                defaultValue={filters.search}
+                onSearch={handleSearch}
+                values={{
+                  priority: priorityOptions.map(option => option.value),
+                  category: categoryOptions.map(option => option.value),
+                  tag: tagCatalog.map(tag => tag.name),
+                  assignee: ['me', 'unassigned', ...staff.map(member => member.name)]
+                }}
+              />
+            </div>
+
+            {/* Active Tag Filters */}
+            {filterTags.length > 0 && (
+              <div className="mt-4 flex flex-wrap items-center gap-2 text-sm text-gray-700">
+                <span>Tags:</span>
+                {filterTags.map((tag) => (
+                  <TagBadge key={tag} name={tag} color={getTagColor(tag)} onRemove={() => toggleTagFilter(tag)} />
+                ))}
+                {filterTags.length > 1 && (
+                  <select
+                    value={filters.tagMode}
+                    onChange={(e) => handleFilterChange('tagMode', e.target.value)}
+                    className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                  >
+                    <option value="any">Match any</option>
+                    <option value="all">Match all</option>
+                  </select>
+                )}
                 <button
-                  type="submit"
-                  className="px-4 py-2 bg-gray-800 text-white rounded-md text-sm hover:bg-gray-700"
+                  onClick={() => handleFilterChange('tags', '')}
+                  className="text-blue-600 hover:text-blue-800"
                 >
-                  Search
+                  Clear
                 </button>
-              </form>
-            </div>
+              </div>
+            )}
+
+            {/* Tag Counts */}
+            {stats && Object.keys(stats.byTag).length > 0 && (
+              <div className="mt-4 flex flex-wrap items-center gap-2 text-sm text-gray-700">
+                <span>Popular tags:</span>
+                {Object.entries(stats.byTag).slice(0, 10).map(([tag, count]) => (
+                  <TagBadge key={tag} name={tag} color={getTagColor(tag)} count={count} onClick={() => toggleTagFilter(tag)} />
+                ))}
+              </div>
+            )}
           </div>
 
           {/* Create Ticket Button */}
@@ -534,16 +1299,47 @@ export default function EnhancedDashboardPage() {
                     <select
                       id="priority"
                       value={formData.priority}
-                      onChange={(e) => setFormData({ ...formData, priority: e.target.value as 'low' | 'medium' | 'high' | 'urgent' })}
+                      onChange={(e) => setFormData({ ...formData, priority: e.target.value })}
                       className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-gray-500 focus:border-gray-500"
                     >
-                      <option value="low">Low</option>
-                      <option value="medium">Medium</option>
-                      <option value="high">High</option>
-                      <option value="urgent">Urgent</option>
+                      {getActiveOptions(priorityOptions).map((option) => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
                     </select>
                   </div>
                 </div>
+                {similarTickets.length > 0 && (
+                  <div className="rounded-md border border-yellow-200 bg-yellow-50 p-3">
+                    <p className="text-sm font-medium text-yellow-800">
+                      These tickets look similar. Is your issue already one of them?
+                    </p>
+                    <ul className="mt-2 space-y-1">
+                      {similarTickets.map((similar) => (
+                        <li key={similar._id} className="flex items-center gap-2 text-sm">
+                          <a
+                            href={`/tickets/${similar.number ? formatTicketNumber(similar.number) : similar._id}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-blue-600 hover:text-blue-800"
+                          >
+                            {similar.number && (
+                              <span className="font-mono text-gray-500 mr-1">{formatTicketNumber(similar.number)}</span>
+                            )}
+                            {similar.title}
+                          </a>
+                          <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${getStatusColor(similar.status)}`}>
+                            {STATUS_LABELS[normalizeStatus(similar.status)]}
+                          </span>
+                          {similar.knownIssue && (
+                            <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+                              Known issue
+                            </span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
                 <div>
                   <label htmlFor="category" className="block text-sm font-medium text-gray-700">
                     Category
@@ -551,16 +1347,25 @@ export default function EnhancedDashboardPage() {
                   <select
                     id="category"
                     value={formData.category}
-                    onChange={(e) => setFormData({ ...formData, category: e.target.value as 'technical' | 'billing' | 'general' | 'feature_request' | 'bug_report' })}
+                    onChange={(e) => {
+                      setFormData({ ...formData, category: e.target.value });
+                      setCustomFieldValues({});
+                    }}
                     className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-gray-500 focus:border-gray-500"
                   >
-                    <option value="general">General</option>
-                    <option value="technical">Technical</option>
-                    <option value="billing">Billing</option>
-                    <option value="feature_request">Feature Request</option>
-                    <option value="bug_report">Bug Report</option>
+                    {getActiveOptions(categoryOptions).map((option) => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
                   </select>
                 </div>
+                {getCategoryFields(formData.category).map((field) => (
+                  <CustomFieldInput
+                    key={field._id}
+                    field={field}
+                    value={customFieldValues[field.key]}
+                    onChange={(value) => setCustomFieldValues({ ...customFieldValues, [field.key]: value })}
+                  />
+                ))}
                 <div>
                   <label htmlFor="description" className="block text-sm font-medium text-gray-700">
                     Description
@@ -576,6 +1381,22 @@ export default function EnhancedDashboardPage() {
                     placeholder="Describe your issue"
                   />
                 </div>
+                <div>
+                  <label htmlFor="attachments" className="block text-sm font-medium text-gray-700">
+                    Attachments
+                  </label>
+                  <input
+                    type="file"
+                    id="attachments"
+                    multiple
+                    accept={ALLOWED_ATTACHMENT_TYPES.join(',')}
+                    onChange={(e) => setAttachments(Array.from(e.target.files || []))}
+                    className="mt-1 block w-full text-sm text-gray-700"
+                  />
+                  <div className="text-xs text-gray-500 mt-1">
+                    Up to {MAX_ATTACHMENTS_PER_UPLOAD} files, {formatFileSize(MAX_ATTACHMENT_SIZE)} each. Images, PDF, text, CSV, JSON or ZIP.
+                  </div>
+                </div>
                 <div className="flex space-x-3">
                   <button
                     type="submit"
@@ -606,16 +1427,136 @@ export default function EnhancedDashboardPage() {
           {/* Tickets List */}
           <div className="bg-white shadow overflow-hidden sm:rounded-md">
             <div className="px-4 py-5 sm:px-6 flex justify-between items-center">
-              <h3 className="text-lg leading-6 font-medium text-gray-900">
-                Tickets ({pagination?.totalCount || 0})
-              </h3>
-              {pagination && (
-                <div className="text-sm text-gray-500">
-                  Page {pagination.page} of {pagination.totalPages}
-                </div>
-              )}
+              <div className="flex items-center space-x-3">
+                {viewMode === 'list' && tickets.length > 0 && (
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={toggleSelectAll}
+                    aria-label="Select all tickets on this page"
+                    className="rounded border-gray-300"
+                  />
+                )}
+                <h3 className="text-lg leading-6 font-medium text-gray-900">
+                  Tickets ({viewMode === 'board' ? boardTotal : pagination ? formatTotal(pagination) : 0})
+                </h3>
+              </div>
+              <div className="flex items-center space-x-4">
+                {viewMode === 'board' && (
+                  <>
+                    {boardTotal > boardTickets.length && (
+                      <div className="text-sm text-gray-500">
+                        Showing the first {boardTickets.length}
+                      </div>
+                    )}
+                    <select
+                      value={boardGroupBy}
+                      onChange={(e) => setBoardGroupBy(e.target.value as BoardGroupBy)}
+                      aria-label="Group board by"
+                      className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                    >
+                      <option value="none">No grouping</option>
+                      <option value="priority">Group by priority</option>
+                      <option value="assignee">Group by assignee</option>
+                    </select>
+                  </>
+                )}
+                {session.user.role === 'admin' && (
+                  <div className="inline-flex rounded-md border border-gray-300 text-sm overflow-hidden">
+                    {(['list', 'board'] as const).map((mode) => (
+                      <button
+                        key={mode}
+                        onClick={() => setViewMode(mode)}
+                        className={`px-3 py-1 ${viewMode === mode ? 'bg-gray-800 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                      >
+                        {mode === 'list' ? 'List' : 'Board'}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
             </div>
-            {ticketsLoading ? (
+            {/* Bulk Actions */}
+            {viewMode === 'list' && selectedIds.length > 0 && (
+              <div className="px-4 py-3 sm:px-6 bg-gray-50 border-t border-gray-200 flex flex-wrap items-center gap-2">
+                <span className="text-sm font-medium text-gray-700">{selectedIds.length} selected</span>
+                <select
+                  value={bulkAction}
+                  onChange={(e) => changeBulkAction(e.target.value as BulkAction | '')}
+                  className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                >
+                  <option value="">Choose an action...</option>
+                  {availableBulkActions.map((action) => (
+                    <option key={action} value={action}>{BULK_ACTION_LABELS[action]}</option>
+                  ))}
+                </select>
+                {(bulkAction === 'set_priority' || bulkAction === 'set_category') && (
+                  <select
+                    value={bulkValue}
+                    onChange={(e) => setBulkValue(e.target.value)}
+                    className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                  >
+                    {getActiveOptions(bulkAction === 'set_priority' ? priorityOptions : categoryOptions).map((option) => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                )}
+                {bulkAction === 'assign' && (
+                  <select
+                    value={bulkValue}
+                    onChange={(e) => setBulkValue(e.target.value)}
+                    className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                  >
+                    <option value="">Unassigned</option>
+                    {staff.map((member) => (
+                      <option key={member._id} value={member._id}>{member.name}</option>
+                    ))}
+                  </select>
+                )}
+                {(bulkAction === 'add_tags' || bulkAction === 'remove_tags') && (
+                  <input
+                    type="text"
+                    value={bulkValue}
+                    onChange={(e) => setBulkValue(e.target.value)}
+                    placeholder="Tags, comma separated"
+                    list="bulk-tag-catalog"
+                    className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                  />
+                )}
+                <datalist id="bulk-tag-catalog">
+                  {tagCatalog.map((tag) => (
+                    <option key={tag._id} value={tag.name} />
+                  ))}
+                </datalist>
+                <button
+                  onClick={() => bulkAction === 'delete' ? setBulkDeleteDialog(true) : runBulkAction()}
+                  disabled={!bulkAction || bulkRunning || ((bulkAction === 'add_tags' || bulkAction === 'remove_tags') && !bulkValue.trim())}
+                  className={`px-3 py-1 text-sm font-medium text-white rounded-md disabled:opacity-50 ${
+                    bulkAction === 'delete' ? 'bg-red-600 hover:bg-red-700' : 'bg-gray-800 hover:bg-gray-700'
+                  }`}
+                >
+                  {bulkRunning ? 'Applying...' : 'Apply'}
+                </button>
+                <button
+                  onClick={() => setSelectedIds([])}
+                  className="text-sm text-gray-600 hover:text-gray-900"
+                >
+                  Clear selection
+                </button>
+              </div>
+            )}
+            {viewMode === 'board' ? (
+              <TicketBoard
+                tickets={boardTickets}
+                totalCount={boardTotal}
+                groupBy={boardGroupBy}
+                priorityOptions={priorityOptions}
+                staff={staff}
+                user={{ id: session.user.id, role: session.user.role }}
+                onMove={handleBoardMove}
+                onOpen={(ticket) => router.push(`/tickets/${ticket.number ? formatTicketNumber(ticket.number) : ticket._id}`)}
+              />
+            ) : ticketsLoading ? (
               <ul className="divide-y divide-gray-200">
                 {Array.from({ length: 5 }).map((_, i) => (
                   <SkeletonListItem key={i} />
@@ -623,52 +1564,130 @@ export default function EnhancedDashboardPage() {
               </ul>
             ) : tickets.length === 0 ? (
               <div className="px-4 py-5 sm:px-6 text-center text-gray-500">
-                No tickets found. {filters.search || filters.status !== 'all' || filters.priority !== 'all' || filters.category !== 'all' ? 'Try adjusting your filters.' : 'Create your first ticket above.'}
+                No tickets found. {filters.search || filters.status !== 'all' || filters.priority !== 'all' || filters.category !== 'all' || filters.assignee !== 'all' || filters.sla !== 'all' ? 'Try adjusting your filters.' : 'Create your first ticket above.'}
               </div>
             ) : (
               <ul className="divide-y divide-gray-200">
                 {tickets.map((ticket) => (
-                  <li key={ticket._id} className="px-4 py-4 sm:px-6">
+                  <li key={ticket._id} className={`px-4 py-4 sm:px-6 ${selectedIds.includes(ticket._id) ? 'bg-blue-50' : ''}`}>
                     <div className="flex items-center justify-between">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(ticket._id)}
+                        onChange={() => toggleSelected(ticket._id)}
+                        aria-label={`Select ${ticket.number ? formatTicketNumber(ticket.number) : ticket.title}`}
+                        className="mr-4 rounded border-gray-300"
+                      />
                       <div className="flex-1">
                         <div className="flex items-center justify-between">
                           <h4 className="text-lg font-medium text-gray-900">
                             <button
-                              onClick={() => router.push(`/tickets/${ticket._id}`)}
+                              onClick={() => router.push(`/tickets/${ticket.number ? formatTicketNumber(ticket.number) : ticket._id}`)}
                               className="hover:text-blue-600 text-left"
                             >
+                              {ticket.number && (
+                                <span className="font-mono text-sm text-gray-500 mr-2">{formatTicketNumber(ticket.number)}</span>
+                              )}
                               {ticket.title}
                             </button>
                           </h4>
                           <div className="flex items-center space-x-2">
-                            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getPriorityColor(ticket.priority)}`}>
-                              {ticket.priority.toUpperCase()}
+                            {session.user.role === 'admin' && ticket.sla?.breached && (
+                              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-600 text-white">
+                                SLA BREACHED
+                              </span>
+                            )}
+                            {session.user.role === 'admin' && ticket.sla?.atRisk && (
+                              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-400 text-yellow-900">
+                                SLA AT RISK
+                              </span>
+                            )}
+                            <span
+                              className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium"
+                              style={getOptionStyle(priorityOptions, ticket.priority)}
+                            >
+                              {getOptionLabel(priorityOptions, ticket.priority).toUpperCase()}
                             </span>
-                            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getCategoryColor(ticket.category)}`}>
-                              {formatCategory(ticket.category)}
+                            <span
+                              className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium"
+                              style={getOptionStyle(categoryOptions, ticket.category)}
+                            >
+                              {getOptionLabel(categoryOptions, ticket.category)}
                             </span>
-                            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                              ticket.status === 'open'
-                                ? 'bg-green-100 text-green-800'
-                                : 'bg-gray-100 text-gray-800'
-                            }`}>
-                              {ticket.status.toUpperCase()}
+                            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(ticket.status)}`}>
+                              {STATUS_LABELS[normalizeStatus(ticket.status)].toUpperCase()}
                             </span>
                           </div>
                         </div>
                         <p className="mt-2 text-sm text-gray-600">{ticket.description}</p>
+                        {ticket.matches && ticket.matches.length > 0 && (
+                          <div className="mt-2 space-y-1">
+                            {ticket.matches.map((match) => (
+                              <p key={`${match.field}-${match.commentId || ''}`} className="text-xs text-gray-600">
+                                <span className="font-medium text-gray-500">Matched in {SEARCH_MATCH_LABELS[match.field].toLowerCase()}: </span>
+                                {splitHighlights(match).map((part, i) => part.highlighted
+                                  ? <mark key={i} className="bg-yellow-200 rounded-sm">{part.text}</mark>
+                                  : <span key={i}>{part.text}</span>
+                                )}
+                              </p>
+                            ))}
+                          </div>
+                        )}
+                        {ticket.tags && ticket.tags.length > 0 && (
+                          <div className="mt-2 flex flex-wrap gap-1">
+                            {ticket.tags.map((tag) => (
+                              <TagBadge key={tag} name={tag} color={getTagColor(tag)} onClick={() => toggleTagFilter(tag)} />
+                            ))}
+                          </div>
+                        )}
                         <p className="mt-2 text-xs text-gray-500">
                           Created: {new Date(ticket.createdAt).toLocaleString()}
+                          {' · '}
+                          Assignee: {ticket.assigneeName || 'Unassigned'}
+                          {ticket.ageMinutes !== undefined && (
+                            <>
+                              {' · '}
+                              Age: {formatDuration(ticket.ageMinutes)} (business time)
+                            </>
+                          )}
+                          {session.user.role === 'admin' && ticket.resolutionDueAt && (
+                            <>
+                              {' · '}
+                              Resolve by: {new Date(ticket.resolutionDueAt).toLocaleString()}
+                            </>
+                          )}
                         </p>
                       </div>
                     </div>
                     <div className="mt-4 flex space-x-2">
-                      {session.user.role === 'admin' && (
+                      {getAllowedTransitions({
+                        status: ticket.status,
+                        resolvedAt: ticket.resolvedAt,
+                        role: session.user.role,
+                        isOwner: ticket.userId === session.user.id
+                      }).map((nextStatus) => (
+                        <button
+                          key={nextStatus}
+                          onClick={() => handleUpdateStatus(ticket._id, nextStatus)}
+                          className="text-sm text-blue-600 hover:text-blue-800"
+                        >
+                          {nextStatus === 'reopened' ? 'Reopen' : `Mark as ${STATUS_LABELS[nextStatus]}`}
+                        </button>
+                      ))}
+                      {session.user.role === 'admin' && ticket.assigneeId !== session.user.id && (
                         <button
-                          onClick={() => handleUpdateStatus(ticket._id, ticket.status === 'open' ? 'closed' : 'open')}
+                          onClick={() => handleAssign(ticket._id, session.user.id)}
                           className="text-sm text-blue-600 hover:text-blue-800"
                         >
-                          Mark as {ticket.status === 'open' ? 'Closed' : 'Open'}
+                          Claim
+                        </button>
+                      )}
+                      {session.user.role === 'admin' && ticket.assigneeId && (
+                        <button
+                          onClick={() => handleAssign(ticket._id, null)}
+                          className="text-sm text-blue-600 hover:text-blue-800"
+                        >
+                          Unassign
                         </button>
                       )}
                       <button
@@ -684,43 +1703,23 @@ export default function EnhancedDashboardPage() {
             )}
 
             {/* Pagination */}
-            {pagination && pagination.totalPages > 1 && (
+            {viewMode === 'list' && pagination && (pagination.hasPrev || pagination.hasNext) && (
               <div className="px-4 py-3 border-t border-gray-200 sm:px-6">
                 <div className="flex items-center justify-between">
                   <div className="text-sm text-gray-700">
-                    Showing {((pagination.page - 1) * pagination.limit) + 1} to {Math.min(pagination.page * pagination.limit, pagination.totalCount)} of {pagination.totalCount} results
+                    Showing {tickets.length} of {formatTotal(pagination)} results
                   </div>
                   <div className="flex space-x-2">
                     <button
-                      onClick={() => handlePageChange(pagination.page - 1)}
+                      onClick={() => handlePageChange(pagination.prevCursor)}
                       disabled={!pagination.hasPrev}
                       className="px-3 py-1 text-sm bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                       Previous
                     </button>
 
-                    {/* Page numbers */}
-                    {Array.from({ length: Math.min(5, pagination.totalPages) }, (_, i) => {
-                      const pageNum = Math.max(1, pagination.page - 2) + i;
-                      if (pageNum > pagination.totalPages) return null;
-
-                      return (
-                        <button
-                          key={pageNum}
-                          onClick={() => handlePageChange(pageNum)}
-                          className={`px-3 py-1 text-sm rounded-md ${
-                            pageNum === pagination.page
-                              ? 'bg-gray-800 text-white'
-                              : 'bg-white border border-gray-300 hover:bg-gray-50'
-                          }`}
-                        >
-                          {pageNum}
-                        </button>
-                      );
-                    })}
-
                     <button
-                      onClick={() => handlePageChange(pagination.page + 1)}
+                      onClick={() => handlePageChange(pagination.nextCursor)}
                       disabled={!pagination.hasNext}
                       className="px-3 py-1 text-sm bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
                     >
@@ -739,10 +1738,84 @@ export default function EnhancedDashboardPage() {
         onClose={() => setDeleteDialog({ isOpen: false, ticketId: '', ticketTitle: '' })}
         onConfirm={confirmDeleteTicket}
         title="Delete Ticket"
-        message={`Are you sure you want to delete "${deleteDialog.ticketTitle}"? This action cannot be undone.`}
+        message={`Are you sure you want to delete "${deleteDialog.ticketTitle}"? It will be moved to the trash, where an administrator can restore it.`}
         confirmText="Delete"
         confirmVariant="danger"
       />
+
+      <ConfirmDialog
+        isOpen={bulkDeleteDialog}
+        onClose={() => setBulkDeleteDialog(false)}
+        onConfirm={runBulkAction}
+        title="Delete Tickets"
+        message={`Are you sure you want to delete ${selectedIds.length} ticket(s)? They will be moved to the trash, where an administrator can restore them.`}
+        confirmText="Delete"
+        confirmVariant="danger"
+        loading={bulkRunning}
+      />
+
+      <ConfirmDialog
+        isOpen={deleteViewDialog}
+        onClose={() => setDeleteViewDialog(false)}
+        onConfirm={confirmDeleteView}
+        title="Delete View"
+        message={`Are you sure you want to delete the view "${activeView?.name || ''}"?${activeView?.shared ? ' It is shared, so other admins will lose it too.' : ''}`}
+        confirmText="Delete"
+        confirmVariant="danger"
+      />
+
+      <Dialog
+        isOpen={viewDialog.isOpen}
+        onClose={() => setViewDialog({ isOpen: false, name: '', shared: false, saving: false })}
+        title="Save View"
+        size="sm"
+        actions={
+          <>
+            <button
+              onClick={() => setViewDialog({ isOpen: false, name: '', shared: false, saving: false })}
+              disabled={viewDialog.saving}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSaveView}
+              disabled={viewDialog.saving || !viewDialog.name.trim()}
+              className="px-4 py-2 text-sm font-medium text-white bg-gray-800 rounded-md hover:bg-gray-700 disabled:opacity-50"
+            >
+              {viewDialog.saving ? 'Saving...' : 'Save'}
+            </button>
+          </>
+        }
+      >
+        <div className="space-y-3">
+          <div>
+            <label htmlFor="view-name" className="block text-sm font-medium text-gray-700">
+              Name
+            </label>
+            <input
+              type="text"
+              id="view-name"
+              value={viewDialog.name}
+              onChange={(e) => setViewDialog(prev => ({ ...prev, name: e.target.value }))}
+              maxLength={50}
+              placeholder="e.g. Urgent billing"
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-gray-500 focus:border-gray-500"
+            />
+          </div>
+          {session.user.role === 'admin' && (
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={viewDialog.shared}
+                onChange={(e) => setViewDialog(prev => ({ ...prev, shared: e.target.checked }))}
+                className="rounded border-gray-300"
+              />
+              <span>Share with all admins</span>
+            </label>
+          )}
+        </div>
+      </Dialog>
     </div>
   );
 }
@@ -4,19 +4,64 @@ import { useState, useEffect } from 'react';
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
 import { SkeletonCard, SkeletonForm } from '@/components/Skeleton';
+import { TagBadge } from '@/components/TagBadge';
+import { CustomFieldInput } from '@/components/CustomFieldInput';
+import { Dialog } from '@/components/Dialog';
+import { STATUS_LABELS, TicketStatus, getAllowedTransitions, normalizeStatus } from '@/lib/ticketStatus';
+import { diffWords } from '@/lib/diff';
+import { formatTicketNumber } from '@/lib/ticketNumber';
+import { normalizeTag } from '@/lib/tags';
+import { CustomFieldDefinition, CustomFieldValue, formatCustomFieldValue } from '@/lib/customFields';
+import { TicketOption, getActiveOptions, getDefaultOptionValue, getOptionLabel, getOptionStyle, isSelectableOption } from '@/lib/ticketOptions';
+import { LINK_RELATION_LABELS, TICKET_LINK_RELATIONS, TicketLinkRelation } from '@/lib/ticketLinkRules';
+import { ALLOWED_ATTACHMENT_TYPES, formatFileSize, isPreviewable, validateAttachments } from '@/lib/attachmentRules';
 
 interface Ticket {
   _id: string;
+  number?: number;
   title: string;
   description: string;
-  status: 'open' | 'closed';
-  priority: 'low' | 'medium' | 'high' | 'urgent';
-  category: 'technical' | 'billing' | 'general' | 'feature_request' | 'bug_report';
+  status: TicketStatus;
+  priority: string;
+  category: string;
   userId: string;
+  assigneeId?: string | null;
+  assigneeName?: string | null;
+  tags?: string[];
+  customFields?: Record<string, CustomFieldValue>;
+  mergedInto?: string | null;
+  knownIssue?: boolean;
+  resolvedAt?: string | null;
+  firstResponseDueAt?: string | null;
+  resolutionDueAt?: string | null;
+  firstRespondedAt?: string | null;
+  ageMinutes?: number;
+  sla?: {
+    firstResponse: 'none' | 'on_track' | 'at_risk' | 'breached' | 'met';
+    resolution: 'none' | 'on_track' | 'at_risk' | 'breached' | 'met';
+    breached: boolean;
+    atRisk: boolean;
+  };
   createdAt: string;
   updatedAt: string;
 }
 
+interface CatalogTag {
+  _id: string;
+  name: string;
+  color: string;
+}
+
+interface CatalogCustomField extends CustomFieldDefinition {
+  _id: string;
+}
+
+interface StaffMember {
+  _id: string;
+  name: string;
+  email: string;
+}
+
 interface Comment {
   _id: string;
   ticketId: string;
@@ -24,6 +69,19 @@ interface Comment {
   userName: string;
   userRole: string;
   content: string;
+  visibility: 'public' | 'internal';
+  splitInto?: number | null;
+  createdAt: string;
+}
+
+interface Attachment {
+  _id: string;
+  ticketId: string;
+  commentId?: string | null;
+  filename: string;
+  contentType: string;
+  size: number;
+  uploadedByName: string;
   createdAt: string;
 }
 
@@ -38,21 +96,159 @@ interface HistoryEntry {
   oldValue?: string;
   newValue?: string;
   description: string;
+  mergedFrom?: number | null;
+  createdAt: string;
+}
+
+interface SimilarTicket {
+  _id: string;
+  number?: number;
+  title: string;
+  status: TicketStatus;
+  knownIssue: boolean;
   createdAt: string;
 }
 
+interface TicketLink {
+  _id: string;
+  relation: TicketLinkRelation;
+  autoClose: boolean;
+  createdByName: string;
+  ticket: {
+    _id: string;
+    number?: number;
+    title: string;
+    status: TicketStatus;
+  };
+}
+
+// Relations where the linked child or duplicate can close along with its parent or original
+const AUTO_CLOSE_RELATIONS: TicketLinkRelation[] = ['parent_of', 'child_of', 'duplicate_of', 'duplicated_by'];
+
+interface Revision {
+  _id: string;
+  revision: number;
+  title: string;
+  description: string;
+  editedByName: string;
+  createdAt: string;
+}
+
+interface RevisionText {
+  title: string;
+  description: string;
+}
+
+// Render a word diff with additions highlighted and removals struck through
+function DiffText({ oldText, newText }: { oldText: string; newText: string }) {
+  return (
+    <>
+      {diffWords(oldText, newText).map((part, i) => (
+        <span
+          key={i}
+          className={
+            part.type === 'added'
+              ? 'bg-green-100 text-green-800'
+              : part.type === 'removed'
+                ? 'bg-red-100 text-red-800 line-through'
+                : undefined
+          }
+        >
+          {part.text}
+        </span>
+      ))}
+    </>
+  );
+}
+
+// List attachments with preview and download links
+function AttachmentList({ attachments }: { attachments: Attachment[] }) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <ul className="mt-3 space-y-2">
+      {attachments.map((attachment) => (
+        <li key={attachment._id} className="flex items-center space-x-3 text-sm">
+          {attachment.contentType.startsWith('image/') && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              src={`/api/attachments/${attachment._id}`}
+              alt={attachment.filename}
+              className="h-10 w-10 object-cover rounded border border-gray-200"
+            />
+          )}
+          <span className="text-gray-900">{attachment.filename}</span>
+          <span className="text-xs text-gray-500">{formatFileSize(attachment.size)}</span>
+          {isPreviewable(attachment.contentType) && (
+            <a
+              href={`/api/attachments/${attachment._id}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-blue-600 hover:text-blue-800"
+            >
+              Preview
+            </a>
+          )}
+          <a
+            href={`/api/attachments/${attachment._id}?download=1`}
+            className="text-blue-600 hover:text-blue-800"
+          >
+            Download
+          </a>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 export default function TicketDetailPage({ params }: { params: Promise<{ id: string }> }) {
   const { data: session, status } = useSession();
   const router = useRouter();
   const [ticket, setTicket] = useState<Ticket | null>(null);
   const [comments, setComments] = useState<Comment[]>([]);
   const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [staff, setStaff] = useState<StaffMember[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [newComment, setNewComment] = useState('');
   const [submittingComment, setSubmittingComment] = useState(false);
+  const [internalNote, setInternalNote] = useState(false);
+  const [commentFiles, setCommentFiles] = useState<File[]>([]);
+  const [commentFilesKey, setCommentFilesKey] = useState(0);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [tagCatalog, setTagCatalog] = useState<CatalogTag[]>([]);
+  const [newTag, setNewTag] = useState('');
   const [activeTab, setActiveTab] = useState<'comments' | 'history'>('comments');
   const [ticketId, setTicketId] = useState<string>('');
+  const [editing, setEditing] = useState(false);
+  const [editForm, setEditForm] = useState<RevisionText>({ title: '', description: '' });
+  const [links, setLinks] = useState<TicketLink[]>([]);
+  const [linkForm, setLinkForm] = useState<{ relation: TicketLinkRelation; ticket: string; autoClose: boolean }>({
+    relation: 'related',
+    ticket: '',
+    autoClose: false
+  });
+  const [linking, setLinking] = useState(false);
+  const [mergedIntoNumber, setMergedIntoNumber] = useState<number | null>(null);
+  const [mergeDialog, setMergeDialog] = useState({ isOpen: false, target: '', loading: false });
+  const [possibleDuplicates, setPossibleDuplicates] = useState<SimilarTicket[]>([]);
+  const [splitDialog, setSplitDialog] = useState({
+    isOpen: false,
+    commentId: '',
+    title: '',
+    priority: '',
+    category: '',
+    loading: false
+  });
+  const [priorityOptions, setPriorityOptions] = useState<TicketOption[]>([]);
+  const [categoryOptions, setCategoryOptions] = useState<TicketOption[]>([]);
+  const [customFieldDefs, setCustomFieldDefs] = useState<CatalogCustomField[]>([]);
+  const [editCustomFields, setEditCustomFields] = useState<Record<string, CustomFieldValue>>({});
+  const [savingEdit, setSavingEdit] = useState(false);
+  const [showRevisions, setShowRevisions] = useState(false);
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [currentText, setCurrentText] = useState<RevisionText | null>(null);
 
   // Resolve params
   useEffect(() => {
@@ -77,6 +273,12 @@ export default function TicketDetailPage({ params }: { params: Promise<{ id: str
       const data = await response.json();
       
       if (response.ok) {
+        // Merged stubs forward to the ticket they were merged into, when the user may see it
+        if (data.mergedInto?.accessible) {
+          router.replace(`/tickets/${formatTicketNumber(data.mergedInto.number)}`);
+          return;
+        }
+        setMergedIntoNumber(data.mergedInto?.number ?? null);
         setTicket(data.ticket);
       } else {
         setError(data.error || 'Failed to fetch ticket');
@@ -122,9 +324,126 @@ export default function TicketDetailPage({ params }: { params: Promise<{ id: str
     }
   };
 
+  // Fetch attachments on the ticket and its comments
+  const fetchAttachments = async () => {
+    if (!ticketId) return;
+
+    try {
+      const response = await fetch(`/api/tickets/${ticketId}/attachments`);
+      const data = await response.json();
+
+      if (response.ok) {
+        setAttachments(data.attachments);
+      } else {
+        console.error('Failed to fetch attachments:', data.error);
+      }
+    } catch {
+      console.error('Failed to fetch attachments');
+    }
+  };
+
+  // Fetch the tickets linked to this one
+  const fetchLinks = async () => {
+    if (!ticketId) return;
+
+    try {
+      const response = await fetch(`/api/tickets/${ticketId}/links`);
+      const data = await response.json();
+
+      if (response.ok) {
+        setLinks(data.links);
+      } else {
+        console.error('Failed to fetch links:', data.error);
+      }
+    } catch {
+      console.error('Failed to fetch links');
+    }
+  };
+
+  // Fetch previous versions of the title and description
+  const fetchRevisions = async () => {
+    if (!ticketId) return;
+
+    try {
+      const response = await fetch(`/api/tickets/${ticketId}/revisions`);
+      const data = await response.json();
+
+      if (response.ok) {
+        setRevisions(data.revisions);
+        setCurrentText(data.current);
+      } else {
+        console.error('Failed to fetch revisions:', data.error);
+      }
+    } catch {
+      console.error('Failed to fetch revisions');
+    }
+  };
+
+  // Fetch staff members that tickets can be assigned to (admin only)
+  const fetchStaff = async () => {
+    try {
+      const response = await fetch('/api/admin/users?role=admin');
+      const data = await response.json();
+
+      if (response.ok) {
+        setStaff(data.users);
+      } else {
+        console.error('Failed to fetch staff:', data.error);
+      }
+    } catch {
+      console.error('Failed to fetch staff');
+    }
+  };
+
+  useEffect(() => {
+    if (session?.user.role === 'admin') {
+      fetchStaff();
+    }
+  }, [session]);
+
+  // Fetch the tag catalog for tag colors and suggestions
+  useEffect(() => {
+    if (!session) return;
+
+    fetch('/api/tags')
+      .then(response => response.ok ? response.json() : { tags: [] })
+      .then(data => setTagCatalog(data.tags))
+      .catch(() => console.error('Failed to fetch tags'));
+
+    fetch('/api/ticket-options')
+      .then(response => response.ok ? response.json() : { priorities: [], categories: [] })
+      .then(data => {
+        setPriorityOptions(data.priorities);
+        setCategoryOptions(data.categories);
+      })
+      .catch(() => console.error('Failed to fetch priorities and categories'));
+  }, [session]);
+
+  // Possible duplicates (admin only), refreshed as links are added since linked tickets are left out
+  const isAdmin = session?.user.role === 'admin';
+  useEffect(() => {
+    if (!isAdmin || !ticketId) return;
+
+    fetch(`/api/tickets/${ticketId}/similar`)
+      .then(response => response.ok ? response.json() : { tickets: [] })
+      .then(data => setPossibleDuplicates(data.tickets))
+      .catch(() => console.error('Failed to fetch possible duplicates'));
+  }, [isAdmin, ticketId, links]);
+
+  // Fetch the custom fields defined for the ticket's category
+  const ticketCategory = ticket?.category;
+  useEffect(() => {
+    if (!session || !ticketCategory) return;
+
+    fetch(`/api/custom-fields?category=${ticketCategory}`)
+      .then(response => response.ok ? response.json() : { fields: [] })
+      .then(data => setCustomFieldDefs(data.fields))
+      .catch(() => console.error('Failed to fetch custom fields'));
+  }, [session, ticketCategory]);
+
   useEffect(() => {
     if (session && ticketId) {
-      Promise.all([fetchTicket(), fetchComments(), fetchHistory()])
+      Promise.all([fetchTicket(), fetchComments(), fetchHistory(), fetchAttachments(), fetchLinks()])
         .finally(() => setLoading(false));
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -135,19 +454,38 @@ export default function TicketDetailPage({ params }: { params: Promise<{ id: str
     e.preventDefault();
     if (!newComment.trim()) return;
 
+    const attachmentError = validateAttachments(commentFiles);
+    if (attachmentError) {
+      setError(attachmentError);
+      return;
+    }
+
+    // Sent as multipart form data so files can be included
+    const body = new FormData();
+    body.append('content', newComment.trim());
+    body.append('visibility', internalNote ? 'internal' : 'public');
+    commentFiles.forEach(file => body.append('attachments', file));
+
     setSubmittingComment(true);
     try {
       const response = await fetch(`/api/tickets/${ticketId}/comments`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({ content: newComment.trim() })
+        body
       });
 
       if (response.ok) {
         setNewComment('');
+        setInternalNote(false);
+        setCommentFiles([]);
+        setCommentFilesKey(key => key + 1); // Clear the file input
         fetchComments(); // Refresh comments
+        fetchHistory(); // Refresh history
+        if (commentFiles.length > 0) {
+          fetchAttachments();
+        }
+        if (session?.user.role === 'admin' && !internalNote) {
+          fetchTicket(); // A staff reply may stop the first-response SLA clock
+        }
       } else {
         const data = await response.json();
         setError(data.error || 'Failed to add comment');
@@ -159,8 +497,8 @@ export default function TicketDetailPage({ params }: { params: Promise<{ id: str
     }
   };
 
-  // Update ticket status (admin only)
-  const handleUpdateStatus = async (newStatus: 'open' | 'closed') => {
+  // Move the ticket to another lifecycle status
+  const handleUpdateStatus = async (newStatus: TicketStatus) => {
     try {
       const response = await fetch(`/api/tickets/${ticketId}`, {
         method: 'PUT',
@@ -173,40 +511,351 @@ export default function TicketDetailPage({ params }: { params: Promise<{ id: str
       if (response.ok) {
         fetchTicket(); // Refresh ticket
         fetchHistory(); // Refresh history
+        fetchLinks(); // Linked tickets may have been closed along with this one
+      } else {
+        const data = await response.json();
+        setError(data.error || 'Failed to update ticket');
+      }
+    } catch {
+      setError('Failed to update ticket');
+    }
+  };
+
+  // Merge this ticket into another one (admin only)
+  const handleMerge = async () => {
+    if (!mergeDialog.target.trim()) return;
+
+    setMergeDialog(prev => ({ ...prev, loading: true }));
+    try {
+      const response = await fetch(`/api/admin/tickets/${ticketId}/merge`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ target: mergeDialog.target.trim() })
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setMergeDialog({ isOpen: false, target: '', loading: false });
+        router.push(`/tickets/${formatTicketNumber(data.ticket.number)}`);
+      } else {
+        setError(data.error || 'Failed to merge tickets');
+        setMergeDialog(prev => ({ ...prev, loading: false }));
+      }
+    } catch {
+      setError('Failed to merge tickets');
+      setMergeDialog(prev => ({ ...prev, loading: false }));
+    }
+  };
+
+  // Open the split dialog for a comment, starting from the original's priority and category
+  const openSplitDialog = (comment: Comment) => {
+    setSplitDialog({
+      isOpen: true,
+      commentId: comment._id,
+      title: comment.content.split('\n')[0].trim().slice(0, 100),
+      priority: ticket && isSelectableOption(priorityOptions, ticket.priority)
+        ? ticket.priority
+        : getDefaultOptionValue('priority', priorityOptions),
+      category: ticket && isSelectableOption(categoryOptions, ticket.category)
+        ? ticket.category
+        : getDefaultOptionValue('category', categoryOptions),
+      loading: false
+    });
+  };
+
+  const closeSplitDialog = () => {
+    setSplitDialog({ isOpen: false, commentId: '', title: '', priority: '', category: '', loading: false });
+  };
+
+  // Split a comment into a new ticket for the same requester (admin only)
+  const handleSplit = async () => {
+    if (!splitDialog.title.trim()) return;
+
+    setSplitDialog(prev => ({ ...prev, loading: true }));
+    try {
+      const response = await fetch(`/api/admin/tickets/${ticketId}/split`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          commentId: splitDialog.commentId,
+          title: splitDialog.title.trim(),
+          priority: splitDialog.priority || undefined,
+          category: splitDialog.category || undefined
+        })
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        closeSplitDialog();
+        router.push(`/tickets/${formatTicketNumber(data.ticket.number)}`);
+      } else {
+        setError(data.error || 'Failed to split comment');
+        setSplitDialog(prev => ({ ...prev, loading: false }));
+      }
+    } catch {
+      setError('Failed to split comment');
+      setSplitDialog(prev => ({ ...prev, loading: false }));
+    }
+  };
+
+  // Link another ticket to this one
+  const handleAddLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!linkForm.ticket.trim()) return;
+
+    setLinking(true);
+    try {
+      const response = await fetch(`/api/tickets/${ticketId}/links`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          ...linkForm,
+          autoClose: AUTO_CLOSE_RELATIONS.includes(linkForm.relation) && linkForm.autoClose
+        })
+      });
+
+      if (response.ok) {
+        setLinkForm({ relation: 'related', ticket: '', autoClose: false });
+        fetchLinks(); // Refresh links
+        fetchHistory(); // Refresh history
+      } else {
+        const data = await response.json();
+        setError(data.error || 'Failed to link ticket');
+      }
+    } catch {
+      setError('Failed to link ticket');
+    } finally {
+      setLinking(false);
+    }
+  };
+
+  // Remove a link
+  const handleRemoveLink = async (linkId: string) => {
+    try {
+      const response = await fetch(`/api/tickets/${ticketId}/links/${linkId}`, {
+        method: 'DELETE'
+      });
+
+      if (response.ok) {
+        fetchLinks(); // Refresh links
+        fetchHistory(); // Refresh history
+      } else {
+        const data = await response.json();
+        setError(data.error || 'Failed to remove link');
+      }
+    } catch {
+      setError('Failed to remove link');
+    }
+  };
+
+  // Attach files to the ticket itself
+  const handleUploadAttachments = async (files: File[]) => {
+    if (files.length === 0) return;
+
+    const attachmentError = validateAttachments(files);
+    if (attachmentError) {
+      setError(attachmentError);
+      return;
+    }
+
+    const body = new FormData();
+    files.forEach(file => body.append('attachments', file));
+
+    setUploading(true);
+    try {
+      const response = await fetch(`/api/tickets/${ticketId}/attachments`, {
+        method: 'POST',
+        body
+      });
+
+      if (response.ok) {
+        fetchAttachments(); // Refresh attachments
+        fetchHistory(); // Refresh history
+      } else {
+        const data = await response.json();
+        setError(data.error || 'Failed to upload attachments');
+      }
+    } catch {
+      setError('Failed to upload attachments');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  // Save edits to the title and description
+  const handleSaveEdit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!ticket) return;
+
+    const updates: Partial<RevisionText> & { customFields?: Record<string, CustomFieldValue> } = {};
+    if (editForm.title.trim() !== ticket.title) updates.title = editForm.title.trim();
+    if (editForm.description.trim() !== ticket.description) updates.description = editForm.description.trim();
+
+    const changedFields = customFieldDefs.filter(
+      field => (editCustomFields[field.key] ?? '') !== (ticket.customFields?.[field.key] ?? '')
+    );
+    if (changedFields.length > 0) {
+      updates.customFields = Object.fromEntries(changedFields.map(field => [field.key, editCustomFields[field.key] ?? '']));
+    }
+
+    if (Object.keys(updates).length === 0) {
+      setEditing(false);
+      return;
+    }
+
+    setSavingEdit(true);
+    try {
+      const response = await fetch(`/api/tickets/${ticketId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(updates)
+      });
+
+      if (response.ok) {
+        setEditing(false);
+        fetchTicket(); // Refresh ticket
+        fetchHistory(); // Refresh history
+        if (showRevisions) {
+          fetchRevisions();
+        }
       } else {
         const data = await response.json();
         setError(data.error || 'Failed to update ticket');
       }
     } catch {
       setError('Failed to update ticket');
+    } finally {
+      setSavingEdit(false);
+    }
+  };
+
+  const handleToggleRevisions = () => {
+    if (!showRevisions) {
+      fetchRevisions();
+    }
+    setShowRevisions(!showRevisions);
+  };
+
+  // Add or remove tags (admin only)
+  const handleUpdateTags = async (addTags: string[], removeTags: string[]) => {
+    try {
+      const response = await fetch(`/api/tickets/${ticketId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ addTags, removeTags })
+      });
+
+      if (response.ok) {
+        setNewTag('');
+        fetchTicket(); // Refresh ticket
+        fetchHistory(); // Refresh history
+      } else {
+        const data = await response.json();
+        setError(data.error || 'Failed to update tags');
+      }
+    } catch {
+      setError('Failed to update tags');
+    }
+  };
+
+  // Assign, claim or unassign the ticket (admin only)
+  const handleAssign = async (assigneeId: string | null) => {
+    try {
+      const response = await fetch(`/api/tickets/${ticketId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ assigneeId })
+      });
+
+      if (response.ok) {
+        fetchTicket(); // Refresh ticket
+        fetchHistory(); // Refresh history
+      } else {
+        const data = await response.json();
+        setError(data.error || 'Failed to update assignee');
+      }
+    } catch {
+      setError('Failed to update assignee');
+    }
+  };
+
+  const handleToggleKnownIssue = async () => {
+    if (!ticket) return;
+
+    try {
+      const response = await fetch(`/api/tickets/${ticketId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ knownIssue: !ticket.knownIssue })
+      });
+
+      if (response.ok) {
+        fetchTicket(); // Refresh ticket
+        fetchHistory(); // Refresh history
+      } else {
+        const data = await response.json();
+        setError(data.error || 'Failed to update known issue');
+      }
+    } catch {
+      setError('Failed to update known issue');
     }
   };
 
   // Helper functions
-  const getPriorityColor = (priority: string) => {
-    switch (priority) {
-      case 'urgent': return 'bg-red-100 text-red-800';
-      case 'high': return 'bg-orange-100 text-orange-800';
-      case 'medium': return 'bg-yellow-100 text-yellow-800';
-      case 'low': return 'bg-green-100 text-green-800';
+  const getStatusColor = (ticketStatus: string) => {
+    switch (normalizeStatus(ticketStatus)) {
+      case 'new': return 'bg-green-100 text-green-800';
+      case 'in_progress': return 'bg-blue-100 text-blue-800';
+      case 'waiting_on_customer': return 'bg-yellow-100 text-yellow-800';
+      case 'resolved': return 'bg-teal-100 text-teal-800';
+      case 'reopened': return 'bg-orange-100 text-orange-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
 
-  const getCategoryColor = (category: string) => {
-    switch (category) {
-      case 'technical': return 'bg-blue-100 text-blue-800';
-      case 'billing': return 'bg-purple-100 text-purple-800';
-      case 'feature_request': return 'bg-indigo-100 text-indigo-800';
-      case 'bug_report': return 'bg-red-100 text-red-800';
+  const getSlaColor = (state: string) => {
+    switch (state) {
+      case 'breached': return 'bg-red-100 text-red-800';
+      case 'at_risk': return 'bg-yellow-100 text-yellow-800';
+      case 'met': return 'bg-green-100 text-green-800';
+      case 'on_track': return 'bg-blue-100 text-blue-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
 
+  // Format a duration in minutes, e.g. "2d 3h" or "45m"
+  const formatDuration = (minutes: number) => {
+    const days = Math.floor(minutes / (24 * 60));
+    const hours = Math.floor((minutes % (24 * 60)) / 60);
+    const mins = minutes % 60;
+    if (days > 0) return `${days}d ${hours}h`;
+    if (hours > 0) return `${hours}h ${mins}m`;
+    return `${mins}m`;
+  };
+
   const formatCategory = (category: string) => {
     return category.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
   };
 
+  // Merged stubs are read-only; the conversation continues on the target
+  const canEdit = !!ticket && !!session && !ticket.mergedInto && (session.user.role === 'admin' || ticket.userId === session.user.id);
+
   if (status === 'loading' || loading) {
     return (
       <div className="min-h-screen bg-gray-50">
@@ -305,17 +954,49 @@ export default function TicketDetailPage({ params }: { params: Promise<{ id: str
               >
                 ← Back to Dashboard
               </button>
-              <h1 className="text-2xl font-bold text-gray-900">Ticket Details</h1>
+              <h1 className="text-2xl font-bold text-gray-900">
+                {ticket?.number ? `Ticket ${formatTicketNumber(ticket.number)}` : 'Ticket Details'}
+              </h1>
             </div>
             <div className="flex space-x-4">
-              {session.user.role === 'admin' && ticket && (
+              {session.user.role === 'admin' && ticket && !ticket.mergedInto && (
                 <button
-                  onClick={() => handleUpdateStatus(ticket.status === 'open' ? 'closed' : 'open')}
-                  className="px-4 py-2 text-sm font-medium text-white bg-gray-800 rounded-md hover:bg-gray-700"
+                  onClick={() => setMergeDialog({ isOpen: true, target: '', loading: false })}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
                 >
-                  Mark as {ticket.status === 'open' ? 'Closed' : 'Open'}
+                  Merge
                 </button>
               )}
+              {session.user.role === 'admin' && ticket && !ticket.mergedInto && (
+                <button
+                  onClick={handleToggleKnownIssue}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                >
+                  {ticket.knownIssue ? 'Unmark Known Issue' : 'Mark as Known Issue'}
+                </button>
+              )}
+              {session.user.role === 'admin' && ticket && !ticket.mergedInto && ticket.assigneeId !== session.user.id && (
+                <button
+                  onClick={() => handleAssign(session.user.id)}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                >
+                  Claim
+                </button>
+              )}
+              {ticket && !ticket.mergedInto && getAllowedTransitions({
+                status: ticket.status,
+                resolvedAt: ticket.resolvedAt,
+                role: session.user.role,
+                isOwner: ticket.userId === session.user.id
+              }).map((nextStatus) => (
+                <button
+                  key={nextStatus}
+                  onClick={() => handleUpdateStatus(nextStatus)}
+                  className="px-4 py-2 text-sm font-medium text-white bg-gray-800 rounded-md hover:bg-gray-700"
+                >
+                  {nextStatus === 'reopened' ? 'Reopen' : `Mark as ${STATUS_LABELS[nextStatus]}`}
+                </button>
+              ))}
             </div>
           </div>
         </div>
@@ -331,33 +1012,248 @@ export default function TicketDetailPage({ params }: { params: Promise<{ id: str
             </div>
           )}
 
+          {/* Merged Notice */}
+          {ticket?.mergedInto && (
+            <div className="bg-blue-50 border border-blue-200 text-blue-800 px-4 py-3 rounded mb-6">
+              This ticket was merged into {mergedIntoNumber ? formatTicketNumber(mergedIntoNumber) : 'another ticket'} and
+              can no longer be changed.
+            </div>
+          )}
+
           {/* Ticket Details */}
           {ticket && (
             <div className="bg-white shadow rounded-lg p-6 mb-6">
               <div className="flex items-start justify-between mb-4">
                 <div className="flex-1">
-                  <h2 className="text-2xl font-bold text-gray-900 mb-2">{ticket.title}</h2>
+                  {!editing && (
+                    <h2 className="text-2xl font-bold text-gray-900 mb-2">{ticket.title}</h2>
+                  )}
                   <div className="flex items-center space-x-2 mb-4">
-                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getPriorityColor(ticket.priority)}`}>
-                      {ticket.priority.toUpperCase()}
+                    <span
+                      className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium"
+                      style={getOptionStyle(priorityOptions, ticket.priority)}
+                    >
+                      {getOptionLabel(priorityOptions, ticket.priority).toUpperCase()}
                     </span>
-                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getCategoryColor(ticket.category)}`}>
-                      {formatCategory(ticket.category)}
+                    <span
+                      className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium"
+                      style={getOptionStyle(categoryOptions, ticket.category)}
+                    >
+                      {getOptionLabel(categoryOptions, ticket.category)}
                     </span>
-                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                      ticket.status === 'open' 
-                        ? 'bg-green-100 text-green-800' 
-                        : 'bg-gray-100 text-gray-800'
-                    }`}>
-                      {ticket.status.toUpperCase()}
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(ticket.status)}`}>
+                      {STATUS_LABELS[normalizeStatus(ticket.status)].toUpperCase()}
                     </span>
+                    {ticket.knownIssue && (
+                      <span
+                        className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800"
+                        title="Visible to all users and suggested when they create similar tickets"
+                      >
+                        KNOWN ISSUE
+                      </span>
+                    )}
                   </div>
+                  {/* Tags */}
+                  {((ticket.tags && ticket.tags.length > 0) || session.user.role === 'admin') && (
+                    <div className="flex flex-wrap items-center gap-2 mb-4">
+                      {(ticket.tags || []).map((tag) => (
+                        <TagBadge
+                          key={tag}
+                          name={tag}
+                          color={tagCatalog.find(t => t.name === tag)?.color}
+                          onRemove={session.user.role === 'admin' ? () => handleUpdateTags([], [tag]) : undefined}
+                        />
+                      ))}
+                      {session.user.role === 'admin' && (
+                        <form
+                          onSubmit={(e) => {
+                            e.preventDefault();
+                            const tag = normalizeTag(newTag);
+                            if (tag) handleUpdateTags([tag], []);
+                          }}
+                          className="flex items-center gap-1"
+                        >
+                          <input
+                            type="text"
+                            list="tag-catalog"
+                            value={newTag}
+                            onChange={(e) => setNewTag(e.target.value)}
+                            maxLength={50}
+                            placeholder="Add tag"
+                            className="px-2 py-0.5 border border-gray-300 rounded-md text-xs w-28"
+                          />
+                          <datalist id="tag-catalog">
+                            {tagCatalog
+                              .filter(t => !(ticket.tags || []).includes(t.name))
+                              .map((t) => (
+                                <option key={t._id} value={t.name} />
+                              ))}
+                          </datalist>
+                          <button
+                            type="submit"
+                            disabled={!newTag.trim()}
+                            className="text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                          >
+                            Add
+                          </button>
+                        </form>
+                      )}
+                    </div>
+                  )}
                 </div>
+                {!editing && (
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={handleToggleRevisions}
+                      className="px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                    >
+                      {showRevisions ? 'Hide Revisions' : 'View Revisions'}
+                    </button>
+                    {canEdit && (
+                      <button
+                        onClick={() => {
+                          setEditForm({ title: ticket.title, description: ticket.description });
+                          setEditCustomFields(ticket.customFields || {});
+                          setEditing(true);
+                        }}
+                        className="px-3 py-1 text-sm font-medium text-white bg-gray-800 rounded-md hover:bg-gray-700"
+                      >
+                        Edit
+                      </button>
+                    )}
+                  </div>
+                )}
               </div>
               
-              <div className="prose max-w-none">
-                <p className="text-gray-700 whitespace-pre-wrap">{ticket.description}</p>
-              </div>
+              {editing ? (
+                <form onSubmit={handleSaveEdit} className="space-y-4">
+                  <div>
+                    <label htmlFor="edit-title" className="block text-sm font-medium text-gray-700 mb-2">
+                      Title
+                    </label>
+                    <input
+                      id="edit-title"
+                      type="text"
+                      value={editForm.title}
+                      onChange={(e) => setEditForm({ ...editForm, title: e.target.value })}
+                      maxLength={200}
+                      required
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-gray-500 focus:border-gray-500"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="edit-description" className="block text-sm font-medium text-gray-700 mb-2">
+                      Description
+                    </label>
+                    <textarea
+                      id="edit-description"
+                      rows={6}
+                      value={editForm.description}
+                      onChange={(e) => setEditForm({ ...editForm, description: e.target.value })}
+                      maxLength={2000}
+                      required
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-gray-500 focus:border-gray-500"
+                    />
+                    <div className="text-xs text-gray-500 mt-1">
+                      {editForm.description.length}/2000 characters
+                    </div>
+                  </div>
+                  {customFieldDefs.map((field) => (
+                    <CustomFieldInput
+                      key={field._id}
+                      field={field}
+                      value={editCustomFields[field.key]}
+                      onChange={(value) => setEditCustomFields({ ...editCustomFields, [field.key]: value })}
+                    />
+                  ))}
+                  <div className="flex space-x-2">
+                    <button
+                      type="submit"
+                      disabled={savingEdit || !editForm.title.trim() || !editForm.description.trim()}
+                      className="px-4 py-2 text-sm font-medium text-white bg-gray-800 rounded-md hover:bg-gray-700 disabled:opacity-50"
+                    >
+                      {savingEdit ? 'Saving...' : 'Save'}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setEditing(false)}
+                      className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </form>
+              ) : (
+                <div className="prose max-w-none">
+                  <p className="text-gray-700 whitespace-pre-wrap">{ticket.description}</p>
+                </div>
+              )}
+
+              {/* Files attached to the ticket itself */}
+              {!editing && (
+                <div className="mt-6">
+                  <div className="flex items-center justify-between">
+                    <h3 className="text-sm font-medium text-gray-700">
+                      Attachments ({attachments.filter(a => !a.commentId).length})
+                    </h3>
+                    {canEdit && (
+                      <label className="px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 cursor-pointer">
+                        {uploading ? 'Uploading...' : 'Add Files'}
+                        <input
+                          type="file"
+                          multiple
+                          accept={ALLOWED_ATTACHMENT_TYPES.join(',')}
+                          disabled={uploading}
+                          onChange={(e) => {
+                            handleUploadAttachments(Array.from(e.target.files || []));
+                            e.target.value = '';
+                          }}
+                          className="hidden"
+                        />
+                      </label>
+                    )}
+                  </div>
+                  <AttachmentList attachments={attachments.filter(a => !a.commentId)} />
+                </div>
+              )}
+
+              {/* Revisions, each diffed against the version that replaced it */}
+              {showRevisions && !editing && (
+                <div className="mt-6 pt-6 border-t border-gray-200">
+                  <h3 className="text-lg font-medium text-gray-900 mb-4">Revisions</h3>
+                  {revisions.length === 0 || !currentText ? (
+                    <p className="text-sm text-gray-500">This ticket has not been edited.</p>
+                  ) : (
+                    <div className="space-y-4">
+                      {[...revisions].reverse().map((revision) => {
+                        const next = revisions.find(r => r.revision === revision.revision + 1) || currentText;
+                        return (
+                          <div key={revision._id} className="border border-gray-200 rounded-lg p-4">
+                            <div className="flex items-center justify-between mb-2 text-xs text-gray-500">
+                              <span>
+                                Revision {revision.revision} → {revision.revision === revisions.length ? 'current' : `revision ${revision.revision + 1}`}
+                              </span>
+                              <span>
+                                Edited by {revision.editedByName} on {new Date(revision.createdAt).toLocaleString()}
+                              </span>
+                            </div>
+                            {revision.title !== next.title && (
+                              <p className="font-medium text-gray-900 mb-2">
+                                <DiffText oldText={revision.title} newText={next.title} />
+                              </p>
+                            )}
+                            {revision.description !== next.description && (
+                              <p className="text-sm text-gray-700 whitespace-pre-wrap">
+                                <DiffText oldText={revision.description} newText={next.description} />
+                              </p>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              )}
               
               <div className="mt-6 pt-6 border-t border-gray-200">
                 <div className="grid grid-cols-2 gap-4 text-sm text-gray-600">
@@ -367,11 +1263,186 @@ export default function TicketDetailPage({ params }: { params: Promise<{ id: str
                   <div>
                     <span className="font-medium">Last Updated:</span> {new Date(ticket.updatedAt).toLocaleString()}
                   </div>
+                  {ticket.ageMinutes !== undefined && (
+                    <div>
+                      <span className="font-medium">Age (business time):</span> {formatDuration(ticket.ageMinutes)}
+                    </div>
+                  )}
+                  <div>
+                    <span className="font-medium">Assignee:</span>{' '}
+                    {session.user.role === 'admin' ? (
+                      <select
+                        value={ticket.assigneeId || ''}
+                        onChange={(e) => handleAssign(e.target.value || null)}
+                        className="ml-1 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                      >
+                        <option value="">Unassigned</option>
+                        {staff.map((member) => (
+                          <option key={member._id} value={member._id}>
+                            {member.name}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      ticket.assigneeName || 'Unassigned'
+                    )}
+                  </div>
+                  {customFieldDefs.map((field) => (
+                    <div key={field._id}>
+                      <span className="font-medium">{field.label}:</span> {formatCustomFieldValue(field, ticket.customFields?.[field.key])}
+                    </div>
+                  ))}
+                  {session.user.role === 'admin' && ticket.sla && (
+                    <>
+                      <div>
+                        <span className="font-medium">First Response Due:</span>{' '}
+                        {ticket.firstResponseDueAt ? new Date(ticket.firstResponseDueAt).toLocaleString() : '—'}{' '}
+                        <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${getSlaColor(ticket.sla.firstResponse)}`}>
+                          {formatCategory(ticket.sla.firstResponse)}
+                        </span>
+                      </div>
+                      <div>
+                        <span className="font-medium">Resolution Due:</span>{' '}
+                        {ticket.resolutionDueAt ? new Date(ticket.resolutionDueAt).toLocaleString() : '—'}{' '}
+                        <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${getSlaColor(ticket.sla.resolution)}`}>
+                          {formatCategory(ticket.sla.resolution)}
+                        </span>
+                      </div>
+                    </>
+                  )}
                 </div>
               </div>
             </div>
           )}
 
+          {/* Linked Tickets */}
+          {ticket && (
+            <div className="bg-white shadow rounded-lg p-6 mb-6">
+              <h2 className="text-lg font-medium text-gray-900 mb-4">Linked Tickets ({links.length})</h2>
+              {links.length === 0 ? (
+                <p className="text-sm text-gray-500 mb-4">No linked tickets.</p>
+              ) : (
+                <ul className="divide-y divide-gray-200 mb-4">
+                  {links.map((link) => (
+                    <li key={link._id} className="py-2 flex items-center justify-between text-sm">
+                      <div className="flex items-center space-x-2">
+                        <span className="text-gray-500 w-28">{LINK_RELATION_LABELS[link.relation]}</span>
+                        <a
+                          href={`/tickets/${link.ticket.number ? formatTicketNumber(link.ticket.number) : link.ticket._id}`}
+                          className="font-medium text-blue-600 hover:text-blue-800"
+                        >
+                          {link.ticket.number ? `${formatTicketNumber(link.ticket.number)} ` : ''}{link.ticket.title}
+                        </a>
+                        <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${getStatusColor(link.ticket.status)}`}>
+                          {STATUS_LABELS[normalizeStatus(link.ticket.status)]}
+                        </span>
+                        {link.autoClose && (
+                          <span className="text-xs text-gray-500" title="Closes along with its parent or original">auto-close</span>
+                        )}
+                      </div>
+                      {canEdit && (
+                        <button
+                          onClick={() => handleRemoveLink(link._id)}
+                          className="text-red-600 hover:text-red-800"
+                          aria-label="Remove link"
+                        >
+                          Remove
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {canEdit && (
+                <form onSubmit={handleAddLink} className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm text-gray-700">This ticket</span>
+                  <select
+                    value={linkForm.relation}
+                    onChange={(e) => setLinkForm({ ...linkForm, relation: e.target.value as TicketLinkRelation })}
+                    className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                  >
+                    {TICKET_LINK_RELATIONS.map((relation) => (
+                      <option key={relation} value={relation}>{LINK_RELATION_LABELS[relation].toLowerCase()}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    value={linkForm.ticket}
+                    onChange={(e) => setLinkForm({ ...linkForm, ticket: e.target.value })}
+                    placeholder="SUP-1042"
+                    className="px-2 py-1 border border-gray-300 rounded-md text-sm w-32"
+                  />
+                  {AUTO_CLOSE_RELATIONS.includes(linkForm.relation) && (
+                    <label className="flex items-center gap-1 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={linkForm.autoClose}
+                        onChange={(e) => setLinkForm({ ...linkForm, autoClose: e.target.checked })}
+                        className="rounded border-gray-300"
+                      />
+                      Close {linkForm.relation.includes('duplicate') ? 'the duplicate with the original' : 'the child with its parent'}
+                    </label>
+                  )}
+                  <button
+                    type="submit"
+                    disabled={linking || !linkForm.ticket.trim()}
+                    className="px-3 py-1 text-sm font-medium text-white bg-gray-800 rounded-md hover:bg-gray-700 disabled:opacity-50"
+                  >
+                    {linking ? 'Linking...' : 'Link'}
+                  </button>
+                </form>
+              )}
+            </div>
+          )}
+
+          {/* Possible Duplicates */}
+          {ticket && session.user.role === 'admin' && !ticket.mergedInto && possibleDuplicates.length > 0 && (
+            <div className="bg-white shadow rounded-lg p-6 mb-6">
+              <h2 className="text-lg font-medium text-gray-900 mb-1">Possible Duplicates</h2>
+              <p className="text-sm text-gray-500 mb-4">Unlinked tickets with a similar title or description.</p>
+              <ul className="divide-y divide-gray-200">
+                {possibleDuplicates.map((similar) => {
+                  const reference = similar.number ? formatTicketNumber(similar.number) : similar._id;
+                  // The older ticket is usually the original
+                  const relation: TicketLinkRelation = similar.createdAt < ticket.createdAt ? 'duplicate_of' : 'duplicated_by';
+
+                  return (
+                    <li key={similar._id} className="py-2 flex items-center justify-between text-sm">
+                      <div className="flex items-center space-x-2">
+                        <a href={`/tickets/${reference}`} className="font-medium text-blue-600 hover:text-blue-800">
+                          {similar.number ? `${formatTicketNumber(similar.number)} ` : ''}{similar.title}
+                        </a>
+                        <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${getStatusColor(similar.status)}`}>
+                          {STATUS_LABELS[normalizeStatus(similar.status)]}
+                        </span>
+                        {similar.knownIssue && (
+                          <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+                            Known issue
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-3">
+                        <button
+                          onClick={() => setLinkForm({ relation, ticket: reference, autoClose: false })}
+                          className="text-blue-600 hover:text-blue-800"
+                        >
+                          Link
+                        </button>
+                        <button
+                          onClick={() => setMergeDialog({ isOpen: true, target: reference, loading: false })}
+                          className="text-blue-600 hover:text-blue-800"
+                        >
+                          Merge into
+                        </button>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+
           {/* Tabs */}
           <div className="bg-white shadow rounded-lg">
             <div className="border-b border-gray-200">
@@ -402,33 +1473,58 @@ export default function TicketDetailPage({ params }: { params: Promise<{ id: str
             <div className="p-6">
               {activeTab === 'comments' && (
                 <div>
-                  {/* Add Comment Form */}
-                  <form onSubmit={handleAddComment} className="mb-6">
-                    <div className="mb-4">
-                      <label htmlFor="comment" className="block text-sm font-medium text-gray-700 mb-2">
-                        Add Comment
-                      </label>
-                      <textarea
-                        id="comment"
-                        rows={3}
-                        value={newComment}
-                        onChange={(e) => setNewComment(e.target.value)}
-                        maxLength={1000}
-                        className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-gray-500 focus:border-gray-500"
-                        placeholder="Enter your comment..."
-                      />
-                      <div className="text-xs text-gray-500 mt-1">
-                        {newComment.length}/1000 characters
+                  {/* Add Comment Form, for the requester and staff (known issues are also readable by everyone) */}
+                  {canEdit && (
+                    <form onSubmit={handleAddComment} className="mb-6">
+                      <div className="mb-4">
+                        <label htmlFor="comment" className="block text-sm font-medium text-gray-700 mb-2">
+                          Add Comment
+                        </label>
+                        <textarea
+                          id="comment"
+                          rows={3}
+                          value={newComment}
+                          onChange={(e) => setNewComment(e.target.value)}
+                          maxLength={1000}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-gray-500 focus:border-gray-500"
+                          placeholder="Enter your comment..."
+                        />
+                        <div className="text-xs text-gray-500 mt-1">
+                          {newComment.length}/1000 characters
+                        </div>
                       </div>
-                    </div>
-                    <button
-                      type="submit"
-                      disabled={submittingComment || !newComment.trim()}
-                      className="px-4 py-2 text-sm font-medium text-white bg-gray-800 rounded-md hover:bg-gray-700 disabled:opacity-50"
-                    >
-                      {submittingComment ? 'Adding...' : 'Add Comment'}
-                    </button>
-                  </form>
+                      <div className="mb-4">
+                        <input
+                          key={commentFilesKey}
+                          type="file"
+                          multiple
+                          accept={ALLOWED_ATTACHMENT_TYPES.join(',')}
+                          onChange={(e) => setCommentFiles(Array.from(e.target.files || []))}
+                          className="block w-full text-sm text-gray-700"
+                        />
+                      </div>
+                      <div className="flex items-center space-x-4">
+                        <button
+                          type="submit"
+                          disabled={submittingComment || !newComment.trim()}
+                          className="px-4 py-2 text-sm font-medium text-white bg-gray-800 rounded-md hover:bg-gray-700 disabled:opacity-50"
+                        >
+                          {submittingComment ? 'Adding...' : internalNote ? 'Add Internal Note' : 'Add Comment'}
+                        </button>
+                        {session.user.role === 'admin' && (
+                          <label className="flex items-center space-x-2 text-sm text-gray-700">
+                            <input
+                              type="checkbox"
+                              checked={internalNote}
+                              onChange={(e) => setInternalNote(e.target.checked)}
+                              className="rounded border-gray-300"
+                            />
+                            <span>Internal note (staff only)</span>
+                          </label>
+                        )}
+                      </div>
+                    </form>
+                  )}
 
                   {/* Comments List */}
                   <div className="space-y-4">
@@ -436,7 +1532,14 @@ export default function TicketDetailPage({ params }: { params: Promise<{ id: str
                       <p className="text-gray-500 text-center py-8">No comments yet. Be the first to comment!</p>
                     ) : (
                       comments.map((comment) => (
-                        <div key={comment._id} className="border border-gray-200 rounded-lg p-4">
+                        <div
+                          key={comment._id}
+                          className={`border rounded-lg p-4 ${
+                            comment.visibility === 'internal'
+                              ? 'border-yellow-300 bg-yellow-50'
+                              : 'border-gray-200'
+                          }`}
+                        >
                           <div className="flex items-center justify-between mb-2">
                             <div className="flex items-center space-x-2">
                               <span className="font-medium text-gray-900">{comment.userName}</span>
@@ -447,12 +1550,36 @@ export default function TicketDetailPage({ params }: { params: Promise<{ id: str
                               }`}>
                                 {comment.userRole}
                               </span>
+                              {comment.visibility === 'internal' && (
+                                <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-yellow-200 text-yellow-900">
+                                  Internal note
+                                </span>
+                              )}
+                              {comment.splitInto && (
+                                <button
+                                  onClick={() => router.push(`/tickets/${formatTicketNumber(comment.splitInto!)}`)}
+                                  className="text-xs text-blue-600 hover:text-blue-800"
+                                >
+                                  Split into {formatTicketNumber(comment.splitInto)}
+                                </button>
+                              )}
+                            </div>
+                            <div className="flex items-center space-x-3">
+                              {session.user.role === 'admin' && !ticket?.mergedInto && !comment.splitInto && comment.visibility === 'public' && (
+                                <button
+                                  onClick={() => openSplitDialog(comment)}
+                                  className="text-xs text-gray-600 hover:text-gray-900"
+                                >
+                                  Split into ticket
+                                </button>
+                              )}
+                              <span className="text-xs text-gray-500">
+                                {new Date(comment.createdAt).toLocaleString()}
+                              </span>
                             </div>
-                            <span className="text-xs text-gray-500">
-                              {new Date(comment.createdAt).toLocaleString()}
-                            </span>
                           </div>
                           <p className="text-gray-700 whitespace-pre-wrap">{comment.content}</p>
+                          <AttachmentList attachments={attachments.filter(a => a.commentId === comment._id)} />
                         </div>
                       ))
                     )}
@@ -482,7 +1609,12 @@ export default function TicketDetailPage({ params }: { params: Promise<{ id: str
                             {new Date(entry.createdAt).toLocaleString()}
                           </span>
                         </div>
-                        <p className="text-sm text-gray-700">{entry.description}</p>
+                        <p className="text-sm text-gray-700">
+                          {entry.description}
+                          {entry.mergedFrom && (
+                            <span className="ml-2 text-xs text-gray-500">(from {formatTicketNumber(entry.mergedFrom)})</span>
+                          )}
+                        </p>
                       </div>
                     ))
                   )}
@@ -492,6 +1624,125 @@ export default function TicketDetailPage({ params }: { params: Promise<{ id: str
           </div>
         </div>
       </main>
+
+      {/* Merge Dialog */}
+      <Dialog
+        isOpen={mergeDialog.isOpen}
+        onClose={() => setMergeDialog({ isOpen: false, target: '', loading: false })}
+        title="Merge Ticket"
+        actions={
+          <>
+            <button
+              onClick={() => setMergeDialog({ isOpen: false, target: '', loading: false })}
+              disabled={mergeDialog.loading}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleMerge}
+              disabled={mergeDialog.loading || !mergeDialog.target.trim()}
+              className="px-4 py-2 text-sm font-medium text-white bg-gray-800 rounded-md hover:bg-gray-700 disabled:opacity-50"
+            >
+              {mergeDialog.loading ? 'Merging...' : 'Merge'}
+            </button>
+          </>
+        }
+      >
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600">
+            Comments, attachments and history move to the ticket below, and this ticket is closed.
+            When the requesters differ, moved items become internal notes.
+          </p>
+          <label htmlFor="merge-target" className="block text-sm font-medium text-gray-700">
+            Merge into
+          </label>
+          <input
+            type="text"
+            id="merge-target"
+            value={mergeDialog.target}
+            onChange={(e) => setMergeDialog(prev => ({ ...prev, target: e.target.value }))}
+            placeholder="e.g. SUP-12"
+            className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-gray-500 focus:border-gray-500"
+          />
+        </div>
+      </Dialog>
+
+      {/* Split Dialog */}
+      <Dialog
+        isOpen={splitDialog.isOpen}
+        onClose={closeSplitDialog}
+        title="Split Comment into Ticket"
+        actions={
+          <>
+            <button
+              onClick={closeSplitDialog}
+              disabled={splitDialog.loading}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSplit}
+              disabled={splitDialog.loading || !splitDialog.title.trim()}
+              className="px-4 py-2 text-sm font-medium text-white bg-gray-800 rounded-md hover:bg-gray-700 disabled:opacity-50"
+            >
+              {splitDialog.loading ? 'Creating...' : 'Create Ticket'}
+            </button>
+          </>
+        }
+      >
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600">
+            The comment becomes the description of a new ticket for the same requester, linked to this one.
+          </p>
+          <div>
+            <label htmlFor="split-title" className="block text-sm font-medium text-gray-700">
+              Title
+            </label>
+            <input
+              type="text"
+              id="split-title"
+              value={splitDialog.title}
+              onChange={(e) => setSplitDialog(prev => ({ ...prev, title: e.target.value }))}
+              maxLength={200}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-gray-500 focus:border-gray-500"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="split-priority" className="block text-sm font-medium text-gray-700">
+                Priority
+              </label>
+              <select
+                id="split-priority"
+                value={splitDialog.priority}
+                onChange={(e) => setSplitDialog(prev => ({ ...prev, priority: e.target.value }))}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-gray-500 focus:border-gray-500"
+              >
+                {getActiveOptions(priorityOptions).map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="split-category" className="block text-sm font-medium text-gray-700">
+                Category
+              </label>
+              <select
+                id="split-category"
+                value={splitDialog.category}
+                onChange={(e) => setSplitDialog(prev => ({ ...prev, category: e.target.value }))}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-gray-500 focus:border-gray-500"
+              >
+                {getActiveOptions(categoryOptions).map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
+      </Dialog>
     </div>
   );
 }
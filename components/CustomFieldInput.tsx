@@ -0,0 +1,65 @@
+import React from 'react';
+import { CustomFieldDefinition, CustomFieldValue, MAX_CUSTOM_TEXT_LENGTH } from '@/lib/customFields';
+
+interface CustomFieldInputProps {
+  field: CustomFieldDefinition;
+  value: CustomFieldValue | undefined;
+  onChange: (value: CustomFieldValue) => void;
+  id?: string;
+}
+
+const inputClassName = 'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-gray-500 focus:border-gray-500';
+
+export const CustomFieldInput: React.FC<CustomFieldInputProps> = ({
+  field,
+  value,
+  onChange,
+  id = `cf-${field.key}`
+}) => {
+  if (field.type === 'checkbox') {
+    return (
+      <label htmlFor={id} className="flex items-center gap-2 text-sm font-medium text-gray-700">
+        <input
+          type="checkbox"
+          id={id}
+          checked={value === true}
+          onChange={(e) => onChange(e.target.checked)}
+          className="rounded border-gray-300"
+        />
+        {field.label}
+      </label>
+    );
+  }
+
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-gray-700">
+        {field.label}{field.required && <span className="text-red-600"> *</span>}
+      </label>
+      {field.type === 'select' ? (
+        <select
+          id={id}
+          value={value === undefined ? '' : String(value)}
+          onChange={(e) => onChange(e.target.value)}
+          required={field.required}
+          className={inputClassName}
+        >
+          <option value="">Select...</option>
+          {field.options.map((option) => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      ) : (
+        <input
+          type={field.type}
+          id={id}
+          value={value === undefined ? '' : String(value)}
+          onChange={(e) => onChange(e.target.value)}
+          required={field.required}
+          maxLength={field.type === 'text' ? MAX_CUSTOM_TEXT_LENGTH : undefined}
+          className={inputClassName}
+        />
+      )}
+    </div>
+  );
+};
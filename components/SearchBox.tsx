@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { SEARCH_FIELDS, STATUS_SEARCH_GROUPS, getSearchField, parseSearchQuery } from '@/lib/searchQuery';
+import { TICKET_STATUSES } from '@/lib/ticketStatus';
+
+interface SearchBoxProps {
+  defaultValue?: string;
+  onSearch: (value: string) => void;
+  // Known values offered as completions, by field name
+  values: {
+    priority: string[];
+    category: string[];
+    tag: string[];
+    assignee: string[];
+  };
+  placeholder?: string;
+}
+
+interface Suggestion {
+  text: string; // replaces the word being typed
+  label: string;
+  hint?: string;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+// Values with spaces have to be quoted to stay one term
+const quote = (value: string) => /\s/.test(value) ? `"${value}"` : value;
+
+export const SearchBox: React.FC<SearchBoxProps> = ({
+  defaultValue = '',
+  onSearch,
+  values,
+  placeholder = 'Search tickets or SUP-1042...'
+}) => {
+  const [value, setValue] = useState(defaultValue);
+  const [focused, setFocused] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  // Completions for the last word: field names, or the values of the field being typed
+  const getSuggestions = (): Suggestion[] => {
+    const word = value.match(/(\S*)$/)?.[1] ?? '';
+    if (word.includes('"')) return [];
+
+    const negation = word.startsWith('-') ? '-' : '';
+    const bare = word.slice(negation.length);
+    const colon = bare.indexOf(':');
+
+    if (colon === -1) {
+      return SEARCH_FIELDS
+        .filter(field => field.name.startsWith(bare.toLowerCase()))
+        .map(field => ({ text: `${negation}${field.name}:`, label: `${field.name}:`, hint: field.description }));
+    }
+
+    const field = getSearchField(bare.slice(0, colon).toLowerCase());
+    if (!field) return [];
+
+    const rest = bare.slice(colon + 1);
+    const operator = rest.match(/^(>=|<=|>|<|=)?/)?.[0] ?? '';
+    const prefix = rest.slice(operator.length).toLowerCase();
+
+    const candidates = field.type === 'status'
+      ? [...STATUS_SEARCH_GROUPS, ...TICKET_STATUSES]
+      : field.name === 'priority' || field.name === 'category' || field.name === 'tag' || field.name === 'assignee'
+        ? values[field.name]
+        : [];
+
+    return candidates
+      .filter(candidate => candidate.toLowerCase().startsWith(prefix) && candidate.toLowerCase() !== prefix)
+      .map(candidate => ({
+        text: `${negation}${field.name}:${operator}${quote(candidate)} `,
+        label: `${field.name}:${operator}${candidate}`
+      }));
+  };
+
+  const suggestions = focused ? getSuggestions().slice(0, MAX_SUGGESTIONS) : [];
+
+  // Syntax problems are shown while typing; values that depend on settings are checked by the server
+  const parsed = value.trim() ? parseSearchQuery(value) : null;
+  const syntaxError = parsed && 'error' in parsed ? parsed.error : null;
+
+  const applySuggestion = (suggestion: Suggestion) => {
+    setValue(value.replace(/(\S*)$/, suggestion.text));
+    setHighlighted(0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted((highlighted + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted((highlighted - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      applySuggestion(suggestions[Math.min(highlighted, suggestions.length - 1)]);
+    } else if (e.key === 'Escape') {
+      setFocused(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (syntaxError) return;
+    setFocused(false);
+    onSearch(value.trim());
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="relative flex gap-2">
+      <div className="relative">
+        <input
+          name="search"
+          type="text"
+          value={value}
+          onChange={(e) => {
+            setValue(e.target.value);
+            setHighlighted(0);
+            setFocused(true);
+          }}
+          onFocus={() => setFocused(true)}
+          onBlur={() => setFocused(false)}
+          onKeyDown={handleKeyDown}
+          placeholder={placeholder}
+          autoComplete="off"
+          aria-invalid={!!syntaxError}
+          className={`px-3 py-2 border rounded-md text-sm w-80 ${syntaxError ? 'border-red-400' : 'border-gray-300'}`}
+        />
+        {suggestions.length > 0 && (
+          <ul className="absolute z-20 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg text-sm">
+            {suggestions.map((suggestion, i) => (
+              <li
+                key={suggestion.text}
+                // Keep focus in the input while picking
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  applySuggestion(suggestion);
+                }}
+                className={`px-3 py-1.5 cursor-pointer ${i === highlighted ? 'bg-gray-100' : ''}`}
+              >
+                <span className="font-mono text-gray-900">{suggestion.label}</span>
+                {suggestion.hint && <span className="ml-2 text-xs text-gray-500">{suggestion.hint}</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+        {syntaxError && (
+          <p className="absolute mt-1 text-xs text-red-600">{syntaxError}</p>
+        )}
+      </div>
+      <button
+        type="submit"
+        disabled={!!syntaxError}
+        className="px-4 py-2 bg-gray-800 text-white rounded-md text-sm hover:bg-gray-700 disabled:opacity-50"
+      >
+        Search
+      </button>
+    </form>
+  );
+};
@@ -0,0 +1,49 @@
+import React from 'react';
+import { DEFAULT_TAG_COLOR, getTagTextColor } from '@/lib/tags';
+
+interface TagBadgeProps {
+  name: string;
+  color?: string;
+  onClick?: () => void;
+  onRemove?: () => void;
+  count?: number;
+}
+
+export const TagBadge: React.FC<TagBadgeProps> = ({
+  name,
+  color = DEFAULT_TAG_COLOR,
+  onClick,
+  onRemove,
+  count
+}) => {
+  const style: React.CSSProperties = {
+    backgroundColor: color,
+    color: getTagTextColor(color)
+  };
+
+  return (
+    <span
+      className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium"
+      style={style}
+    >
+      {onClick ? (
+        <button type="button" onClick={onClick} className="hover:underline">
+          {name}
+        </button>
+      ) : (
+        name
+      )}
+      {count !== undefined && <span className="ml-1 opacity-75">{count}</span>}
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          className="ml-1 opacity-75 hover:opacity-100"
+          aria-label={`Remove tag ${name}`}
+        >
+          ×
+        </button>
+      )}
+    </span>
+  );
+};
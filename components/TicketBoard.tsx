@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import { TICKET_STATUSES, STATUS_LABELS, TicketStatus, getAllowedTransitions, normalizeStatus } from '@/lib/ticketStatus';
+import { formatTicketNumber } from '@/lib/ticketNumber';
+import { TicketOption, getOptionLabel, getOptionStyle } from '@/lib/ticketOptions';
+
+export type BoardGroupBy = 'none' | 'priority' | 'assignee';
+
+export interface BoardTicket {
+  _id: string;
+  number?: number;
+  title: string;
+  status: TicketStatus;
+  priority: string;
+  userId: string;
+  assigneeId?: string | null;
+  assigneeName?: string | null;
+  resolvedAt?: string | null;
+}
+
+// Where a card was dropped: a status column, and the lane value when grouped
+export interface BoardMove {
+  status: TicketStatus;
+  priority?: string;
+  assigneeId?: string | null;
+}
+
+interface TicketBoardProps {
+  tickets: BoardTicket[];
+  // How many tickets match in all; when only some of them were loaded, column counts are of the loaded ones
+  totalCount: number;
+  groupBy: BoardGroupBy;
+  priorityOptions: TicketOption[];
+  staff: { _id: string; name: string }[];
+  user: { id: string; role: string };
+  onMove: (ticket: BoardTicket, move: BoardMove) => void;
+  onOpen: (ticket: BoardTicket) => void;
+}
+
+interface Lane {
+  key: string; // priority value or assignee ID, '' for unassigned
+  label: string;
+}
+
+const UNGROUPED: Lane[] = [{ key: '', label: '' }];
+
+export const TicketBoard: React.FC<TicketBoardProps> = ({
+  tickets,
+  totalCount,
+  groupBy,
+  priorityOptions,
+  staff,
+  user,
+  onMove,
+  onOpen
+}) => {
+  const [dragging, setDragging] = useState<BoardTicket | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  // Lanes, highest priority first; values only found on tickets (e.g. retired ones) are added at the end
+  const getLanes = (): Lane[] => {
+    if (groupBy === 'priority') {
+      const lanes = [...priorityOptions]
+        .sort((a, b) => b.sortOrder - a.sortOrder)
+        .map(option => ({ key: option.value, label: option.label }));
+      for (const ticket of tickets) {
+        if (!lanes.some(lane => lane.key === ticket.priority)) {
+          lanes.push({ key: ticket.priority, label: getOptionLabel(priorityOptions, ticket.priority) });
+        }
+      }
+      return lanes;
+    }
+
+    if (groupBy === 'assignee') {
+      const lanes = [{ key: '', label: 'Unassigned' }, ...staff.map(member => ({ key: member._id, label: member.name }))];
+      for (const ticket of tickets) {
+        if (ticket.assigneeId && !lanes.some(lane => lane.key === ticket.assigneeId)) {
+          lanes.push({ key: ticket.assigneeId, label: ticket.assigneeName || 'Unknown' });
+        }
+      }
+      return lanes;
+    }
+
+    return UNGROUPED;
+  };
+
+  const getLaneKey = (ticket: BoardTicket) =>
+    groupBy === 'priority' ? ticket.priority : groupBy === 'assignee' ? ticket.assigneeId || '' : '';
+
+  // Staying in the same column is always fine, other columns must be an allowed transition
+  const canDropOn = (ticket: BoardTicket, status: TicketStatus) =>
+    normalizeStatus(ticket.status) === status || getAllowedTransitions({
+      status: ticket.status,
+      resolvedAt: ticket.resolvedAt,
+      role: user.role,
+      isOwner: ticket.userId === user.id
+    }).includes(status);
+
+  const handleDrop = (status: TicketStatus, lane: Lane) => {
+    const ticket = dragging;
+    setDragging(null);
+    setDropTarget(null);
+    if (!ticket || !canDropOn(ticket, status)) return;
+
+    const move: BoardMove = { status };
+    if (groupBy === 'priority') move.priority = lane.key;
+    if (groupBy === 'assignee') move.assigneeId = lane.key || null;
+
+    const unchanged = normalizeStatus(ticket.status) === status && getLaneKey(ticket) === lane.key;
+    if (!unchanged) {
+      onMove(ticket, move);
+    }
+  };
+
+  const lanes = getLanes();
+  const partial = totalCount > tickets.length;
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="inline-flex min-w-full gap-4 p-4">
+        {TICKET_STATUSES.map((status) => {
+          const columnTickets = tickets.filter(ticket => normalizeStatus(ticket.status) === status);
+          const droppable = !dragging || canDropOn(dragging, status);
+
+          return (
+            <div
+              key={status}
+              className={`w-64 flex-shrink-0 rounded-lg bg-gray-100 ${droppable ? '' : 'opacity-50'}`}
+            >
+              <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200">
+                <h4 className="text-sm font-semibold text-gray-700">{STATUS_LABELS[status]}</h4>
+                <span
+                  className="text-xs font-medium text-gray-500 bg-white rounded-full px-2 py-0.5"
+                  title={partial ? `Of the first ${tickets.length} of ${totalCount} tickets` : undefined}
+                >
+                  {partial ? `${columnTickets.length} loaded` : columnTickets.length}
+                </span>
+              </div>
+
+              {lanes.map((lane) => {
+                const cellId = `${status}:${lane.key}`;
+                const laneTickets = columnTickets.filter(ticket => getLaneKey(ticket) === lane.key);
+
+                return (
+                  <div
+                    key={lane.key}
+                    onDragOver={(e) => {
+                      if (!droppable) return;
+                      e.preventDefault();
+                      setDropTarget(cellId);
+                    }}
+                    onDragLeave={() => setDropTarget(prev => prev === cellId ? null : prev)}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      handleDrop(status, lane);
+                    }}
+                    className={`p-2 min-h-[4rem] space-y-2 ${dropTarget === cellId ? 'bg-blue-50' : ''} ${
+                      groupBy !== 'none' ? 'border-b border-gray-200 last:border-b-0' : ''
+                    }`}
+                  >
+                    {groupBy !== 'none' && (
+                      <div className="flex items-center justify-between text-xs text-gray-500">
+                        <span>{lane.label}</span>
+                        <span>{laneTickets.length}</span>
+                      </div>
+                    )}
+                    {laneTickets.map((ticket) => (
+                      <div
+                        key={ticket._id}
+                        draggable
+                        onDragStart={(e) => {
+                          e.dataTransfer.effectAllowed = 'move';
+                          setDragging(ticket);
+                        }}
+                        onDragEnd={() => {
+                          setDragging(null);
+                          setDropTarget(null);
+                        }}
+                        onClick={() => onOpen(ticket)}
+                        className={`bg-white rounded-md shadow-sm p-2 cursor-move hover:shadow ${
+                          dragging?._id === ticket._id ? 'opacity-50' : ''
+                        }`}
+                      >
+                        <div className="flex items-center justify-between mb-1">
+                          {ticket.number && (
+                            <span className="font-mono text-xs text-gray-500">{formatTicketNumber(ticket.number)}</span>
+                          )}
+                          <span
+                            className="inline-flex items-center px-1.5 py-0.5 rounded-full text-[10px] font-medium"
+                            style={getOptionStyle(priorityOptions, ticket.priority)}
+                          >
+                            {getOptionLabel(priorityOptions, ticket.priority)}
+                          </span>
+                        </div>
+                        <p className="text-sm text-gray-900 line-clamp-2">{ticket.title}</p>
+                        <p className="mt-1 text-xs text-gray-500">{ticket.assigneeName || 'Unassigned'}</p>
+                      </div>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
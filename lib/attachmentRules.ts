@@ -0,0 +1,55 @@
+/**
+ * Attachment limits
+ * Shared by the API (to reject uploads) and the UI (to check files before sending them)
+ */
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024; // 10 MB per file
+export const MAX_ATTACHMENTS_PER_UPLOAD = 5;
+
+export const ALLOWED_ATTACHMENT_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+  'text/csv',
+  'application/json',
+  'application/zip'
+];
+
+// Types that are safe to show inline in the browser
+const PREVIEWABLE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'application/pdf', 'text/plain'];
+
+export function isPreviewable(contentType: string): boolean {
+  return PREVIEWABLE_TYPES.includes(contentType);
+}
+
+/**
+ * Check a set of files against the limits, returning an error message or null
+ */
+export function validateAttachments(files: Array<{ name: string; size: number; type: string }>): string | null {
+  if (files.length > MAX_ATTACHMENTS_PER_UPLOAD) {
+    return `You can attach at most ${MAX_ATTACHMENTS_PER_UPLOAD} files at a time`;
+  }
+
+  for (const file of files) {
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      return `"${file.name}" exceeds the ${formatFileSize(MAX_ATTACHMENT_SIZE)} limit`;
+    }
+    if (!ALLOWED_ATTACHMENT_TYPES.includes(file.type)) {
+      return `"${file.name}" has an unsupported file type`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Format a size in bytes, e.g. "1.5 MB"
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,82 @@
+import { randomUUID } from 'crypto';
+import { NextRequest } from 'next/server';
+import Attachment, { IAttachment } from '@/models/Attachment';
+import { getStorage } from './storage';
+import { FieldError } from './requestValidation';
+
+/**
+ * Read a request body that may be JSON or multipart form data.
+ * Files sent under the "attachments" field are returned separately; the fields are left to be checked
+ * against a schema (see lib/requestValidation.ts), and a body that can't be read is reported like an invalid field.
+ */
+export async function readRequestWithFiles(
+  request: NextRequest
+): Promise<{ fields: unknown; files: File[] } | { errors: FieldError[] }> {
+  const contentType = request.headers.get('content-type') || '';
+
+  if (!contentType.includes('multipart/form-data')) {
+    try {
+      return { fields: await request.json(), files: [] };
+    } catch {
+      return { errors: [{ field: 'body', message: 'Must be JSON' }] };
+    }
+  }
+
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return { errors: [{ field: 'body', message: 'Must be multipart form data' }] };
+  }
+  const fields: Record<string, unknown> = {};
+  const files: File[] = [];
+
+  form.forEach((value, key) => {
+    if (key === 'attachments') {
+      if (typeof value !== 'string' && value.size > 0) {
+        files.push(value);
+      }
+    } else if (typeof value === 'string') {
+      fields[key] = value;
+    }
+  });
+
+  return { fields, files };
+}
+
+interface AttachmentOwner {
+  ticketId: string;
+  commentId?: string | null;
+  userId: string;
+  userName: string;
+  visibility?: 'public' | 'internal';
+}
+
+/**
+ * Store uploaded files and record them as attachments.
+ * Files must already have been checked with validateAttachments.
+ */
+export async function saveAttachments(files: File[], owner: AttachmentOwner): Promise<IAttachment[]> {
+  const storage = getStorage();
+  const attachments: IAttachment[] = [];
+
+  for (const file of files) {
+    // The key never contains the user's filename, which is only kept as metadata
+    const storageKey = `${owner.ticketId}/${randomUUID()}`;
+    await storage.save(storageKey, Buffer.from(await file.arrayBuffer()));
+
+    attachments.push(await Attachment.create({
+      ticketId: owner.ticketId,
+      commentId: owner.commentId || null,
+      filename: file.name.slice(0, 255),
+      contentType: file.type,
+      size: file.size,
+      storageKey,
+      uploadedBy: owner.userId,
+      uploadedByName: owner.userName,
+      visibility: owner.visibility || 'public'
+    }));
+  }
+
+  return attachments;
+}
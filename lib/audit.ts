@@ -1,5 +1,6 @@
-import AuditLog from '@/models/AuditLog';
+import AuditLog, { IAuditLog } from '@/models/AuditLog';
 import dbConnect from './db';
+import { CountMode, CursorPosition, CursorSort, Page, countMatches, findPage } from './pagination';
 
 export type AuditAction = 
   | 'login'
@@ -8,8 +9,10 @@ export type AuditAction =
   | 'create_ticket'
   | 'update_ticket'
   | 'delete_ticket'
+  | 'merge_tickets'
   | 'view_tickets'
-  | 'view_audit_logs';
+  | 'view_audit_logs'
+  | 'update_settings';
 
 interface AuditLogData {
   who: string;
@@ -44,25 +47,27 @@ export async function createAuditLog(data: AuditLogData): Promise<void> {
   }
 }
 
+// Newest first; cursors for audit logs are read with this sort
+export const AUDIT_LOG_SORT: CursorSort = { field: 'when', order: 'desc' };
+
 /**
- * Get audit logs (admin only)
+ * Get a page of audit logs (admin only), continuing from the position of a cursor returned with the previous page
  */
-export async function getAuditLogs(limit: number = 100, skip: number = 0) {
+export async function getAuditLogs(limit: number = 100, position: CursorPosition | null = null, count: CountMode = 'approximate') {
   try {
     await dbConnect();
-    
-    const logs = await AuditLog.find({})
-      .sort({ when: -1 })
-      .limit(limit)
-      .skip(skip)
-      .lean();
 
-    const total = await AuditLog.countDocuments({});
+    const [page, counted]: [Page<IAuditLog>, { totalCount: number | null; approximate: boolean }] = await Promise.all([
+      findPage<IAuditLog>(AuditLog, {}, AUDIT_LOG_SORT, position, limit),
+      countMatches(AuditLog, {}, count)
+    ]);
 
     return {
-      logs,
-      total,
-      hasMore: skip + limit < total
+      logs: page.items,
+      total: counted.totalCount,
+      totalIsApproximate: counted.approximate,
+      hasMore: page.hasNext,
+      nextCursor: page.nextCursor
     };
   } catch (error) {
     console.error('Failed to fetch audit logs:', error);
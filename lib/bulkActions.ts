@@ -0,0 +1,39 @@
+/**
+ * Actions that can be applied to many tickets at once from the dashboard
+ * Shared by the API (to validate bulk requests) and the UI (to offer the actions)
+ */
+
+export const BULK_ACTIONS = [
+  'close',
+  'reopen',
+  'set_priority',
+  'set_category',
+  'assign',
+  'add_tags',
+  'remove_tags',
+  'delete'
+] as const;
+
+export type BulkAction = typeof BULK_ACTIONS[number];
+
+export const BULK_ACTION_LABELS: Record<BulkAction, string> = {
+  close: 'Close',
+  reopen: 'Reopen',
+  set_priority: 'Change priority',
+  set_category: 'Change category',
+  assign: 'Assign',
+  add_tags: 'Add tags',
+  remove_tags: 'Remove tags',
+  delete: 'Delete'
+};
+
+// Actions requesters may apply to their own tickets; the rest are staff only
+export const REQUESTER_BULK_ACTIONS: BulkAction[] = ['close', 'reopen', 'delete'];
+
+// Keeps one request (and its history writes) to a reasonable size
+export const MAX_BULK_TICKETS = 100;
+
+// Outcome for one ticket of a bulk request
+export type BulkResult =
+  | { id: string; number?: number; success: true; changes: number }
+  | { id: string; number?: number; success: false; error: string };
@@ -0,0 +1,250 @@
+import BusinessCalendar, { IHoliday, IWorkingHours } from '@/models/BusinessCalendar';
+import { ACTIVE_STATUSES, normalizeStatus } from './ticketStatus';
+
+export interface CalendarConfig {
+  timezone: string;
+  workingHours: IWorkingHours[];
+  holidays: IHoliday[];
+}
+
+type Interval = [number, number];
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// Stop looking for working time after this long, e.g. for a calendar without any hours
+const MAX_SEARCH_DAYS = 366;
+
+// Intl formatters are expensive to create, so keep one per timezone
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check that a timezone is a valid IANA name
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function getZonedParts(time: number, timezone: string) {
+  const parts = getFormatter(timezone).formatToParts(new Date(time));
+  const get = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0');
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second')
+  };
+}
+
+// Offset of the timezone from UTC at the given instant, in milliseconds
+function getTimezoneOffset(time: number, timezone: string): number {
+  const p = getZonedParts(time, timezone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - (time - (time % 1000));
+}
+
+// Convert a wall-clock time in a timezone to a UTC timestamp
+function zonedTimeToUtc(year: number, month: number, day: number, minutes: number, timezone: string): number {
+  const guess = Date.UTC(year, month - 1, day, 0, minutes);
+  const offset = getTimezoneOffset(guess, timezone);
+  // Look the offset up again at the shifted time in case it crosses a DST change
+  const corrected = getTimezoneOffset(guess - offset, timezone);
+  return guess - corrected;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function getCalendarIntervals(calendar: CalendarConfig, from: number, to: number): Interval[] {
+  const intervals: Interval[] = [];
+  const holidays = new Set(calendar.holidays.map(h => h.date));
+
+  // Walk the calendar's local dates, starting a day early to cover the timezone offset
+  const first = getZonedParts(from - DAY, calendar.timezone);
+  for (let cursor = Date.UTC(first.year, first.month - 1, first.day); cursor <= to + DAY; cursor += DAY) {
+    const date = new Date(cursor);
+    if (holidays.has(date.toISOString().slice(0, 10))) continue;
+
+    for (const hours of calendar.workingHours) {
+      if (hours.day !== date.getUTCDay()) continue;
+
+      const year = date.getUTCFullYear();
+      const month = date.getUTCMonth() + 1;
+      const day = date.getUTCDate();
+      const start = zonedTimeToUtc(year, month, day, toMinutes(hours.start), calendar.timezone);
+      const end = zonedTimeToUtc(year, month, day, toMinutes(hours.end), calendar.timezone);
+
+      if (end > start && end > from && start < to) {
+        intervals.push([Math.max(start, from), Math.min(end, to)]);
+      }
+    }
+  }
+
+  return intervals;
+}
+
+/**
+ * Get the working intervals between two instants. When several calendars are
+ * configured (e.g. offices in two timezones) their hours are combined.
+ */
+function getWorkingIntervals(calendars: CalendarConfig[], from: number, to: number): Interval[] {
+  const intervals = calendars
+    .flatMap(calendar => getCalendarIntervals(calendar, from, to))
+    .sort((a, b) => a[0] - b[0]);
+
+  const merged: Interval[] = [];
+  for (const interval of intervals) {
+    const last = merged[merged.length - 1];
+    if (last && interval[0] <= last[1]) {
+      last[1] = Math.max(last[1], interval[1]);
+    } else {
+      merged.push([...interval]);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Add business minutes to a start time.
+ * Without any calendars every minute counts, i.e. plain elapsed time.
+ */
+export function addBusinessMinutes(start: Date, minutes: number, calendars: CalendarConfig[]): Date {
+  if (calendars.length === 0 || minutes <= 0) {
+    return new Date(start.getTime() + minutes * MINUTE);
+  }
+
+  let remaining = minutes * MINUTE;
+  let cursor = start.getTime();
+  const limit = cursor + MAX_SEARCH_DAYS * DAY;
+
+  while (cursor < limit) {
+    const windowEnd = cursor + 7 * DAY;
+    for (const [intervalStart, intervalEnd] of getWorkingIntervals(calendars, cursor, windowEnd)) {
+      const length = intervalEnd - intervalStart;
+      if (remaining <= length) {
+        return new Date(intervalStart + remaining);
+      }
+      remaining -= length;
+    }
+    cursor = windowEnd;
+  }
+
+  // No working time found, fall back to elapsed time for what is left
+  return new Date(cursor + remaining);
+}
+
+/**
+ * Count the business minutes between two instants
+ */
+export function businessMinutesBetween(from: Date, to: Date, calendars: CalendarConfig[]): number {
+  const start = from.getTime();
+  const end = to.getTime();
+
+  if (end <= start) return 0;
+
+  if (calendars.length === 0) {
+    return Math.floor((end - start) / MINUTE);
+  }
+
+  const total = getWorkingIntervals(calendars, start, end)
+    .reduce((sum, [intervalStart, intervalEnd]) => sum + (intervalEnd - intervalStart), 0);
+
+  return Math.floor(total / MINUTE);
+}
+
+/**
+ * Age of a ticket in business minutes, stopping once it is resolved or closed
+ */
+export function getTicketAgeMinutes(
+  ticket: { status: string; createdAt: Date; resolvedAt?: Date | null; closedAt?: Date | null },
+  calendars: CalendarConfig[],
+  now: Date = new Date()
+): number {
+  const isActive = ACTIVE_STATUSES.includes(normalizeStatus(ticket.status));
+  const end = isActive ? now : (ticket.resolvedAt || ticket.closedAt || now);
+  return businessMinutesBetween(new Date(ticket.createdAt), new Date(end), calendars);
+}
+
+/**
+ * Load the active business calendars
+ */
+export async function getActiveCalendars(): Promise<CalendarConfig[]> {
+  return BusinessCalendar.find({ active: true })
+    .select('timezone workingHours holidays')
+    .lean<CalendarConfig[]>();
+}
+
+/**
+ * Validate calendar fields sent to the admin API, returning an error message or null
+ */
+export function validateCalendarInput(input: {
+  name?: unknown;
+  timezone?: unknown;
+  workingHours?: unknown;
+  holidays?: unknown;
+}): string | null {
+  if (input.name !== undefined && (typeof input.name !== 'string' || !input.name.trim())) {
+    return 'Name is required';
+  }
+
+  if (input.timezone !== undefined && (typeof input.timezone !== 'string' || !isValidTimezone(input.timezone))) {
+    return 'Invalid timezone. Use an IANA name such as America/New_York';
+  }
+
+  if (input.workingHours !== undefined) {
+    if (!Array.isArray(input.workingHours)) {
+      return 'Working hours must be a list';
+    }
+    for (const hours of input.workingHours as Partial<IWorkingHours>[]) {
+      if (!Number.isInteger(hours.day) || hours.day! < 0 || hours.day! > 6) {
+        return 'Working hours day must be between 0 (Sunday) and 6 (Saturday)';
+      }
+      if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(hours.start || '') || !/^([01]\d|2[0-3]):[0-5]\d$/.test(hours.end || '')) {
+        return 'Working hours must use HH:MM times';
+      }
+      if (toMinutes(hours.end!) <= toMinutes(hours.start!)) {
+        return 'Working hours must end after they start';
+      }
+    }
+  }
+
+  if (input.holidays !== undefined) {
+    if (!Array.isArray(input.holidays)) {
+      return 'Holidays must be a list';
+    }
+    for (const holiday of input.holidays as Partial<IHoliday>[]) {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(holiday.date || '')) {
+        return 'Holiday dates must use YYYY-MM-DD';
+      }
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,170 @@
+/**
+ * Admin-defined custom fields per ticket category
+ * Shared by the API (to validate values) and the UI (to render inputs)
+ */
+
+export const CUSTOM_FIELD_TYPES = ['text', 'number', 'select', 'date', 'checkbox'] as const;
+
+export type CustomFieldType = typeof CUSTOM_FIELD_TYPES[number];
+
+export type CustomFieldValue = string | number | boolean;
+
+export interface CustomFieldDefinition {
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  category: string;
+  options: string[]; // choices for select fields
+  required: boolean;
+}
+
+export const MAX_CUSTOM_TEXT_LENGTH = 500;
+
+// Keys are used in Mongo paths (customFields.<key>), so keep them to safe characters
+export function isValidCustomFieldKey(key: string): boolean {
+  return /^[a-z][a-z0-9_]{0,49}$/.test(key);
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+/**
+ * Coerce a raw value (e.g. from a form or query string) to the field's type,
+ * returning an error message when it doesn't fit
+ */
+export function coerceCustomFieldValue(
+  field: CustomFieldDefinition,
+  raw: unknown
+): { value: CustomFieldValue } | { error: string } {
+  switch (field.type) {
+    case 'text': {
+      if (typeof raw !== 'string') return { error: `${field.label} must be text` };
+      const value = raw.trim();
+      if (value.length > MAX_CUSTOM_TEXT_LENGTH) {
+        return { error: `${field.label} cannot exceed ${MAX_CUSTOM_TEXT_LENGTH} characters` };
+      }
+      return { value };
+    }
+    case 'number': {
+      const value = typeof raw === 'string' ? Number(raw.trim()) : raw;
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return { error: `${field.label} must be a number` };
+      }
+      return { value };
+    }
+    case 'select': {
+      if (typeof raw !== 'string' || !field.options.includes(raw)) {
+        return { error: `${field.label} must be one of: ${field.options.join(', ')}` };
+      }
+      return { value: raw };
+    }
+    case 'date': {
+      if (typeof raw !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(raw) || isNaN(Date.parse(raw))) {
+        return { error: `${field.label} must be a date (YYYY-MM-DD)` };
+      }
+      return { value: raw };
+    }
+    case 'checkbox': {
+      if (raw === true || raw === 'true' || raw === 'on') return { value: true };
+      if (raw === false || raw === 'false') return { value: false };
+      return { error: `${field.label} must be true or false` };
+    }
+  }
+}
+
+/**
+ * Validate custom field values for a category's fields.
+ * Unknown keys are dropped, empty values are removed and required fields are enforced
+ * (unless enforceRequired is off, e.g. when a ticket moves to a new category).
+ */
+export function validateCustomFields(
+  fields: CustomFieldDefinition[],
+  values: Record<string, unknown>,
+  enforceRequired = true
+): { values: Record<string, CustomFieldValue> } | { error: string } {
+  const result: Record<string, CustomFieldValue> = {};
+
+  for (const field of fields) {
+    const raw = values[field.key];
+
+    if (isEmpty(raw)) {
+      // An unchecked checkbox is a valid answer, anything else required must be filled in
+      if (enforceRequired && field.required && field.type !== 'checkbox') {
+        return { error: `${field.label} is required` };
+      }
+      continue;
+    }
+
+    const coerced = coerceCustomFieldValue(field, raw);
+    if ('error' in coerced) {
+      return coerced;
+    }
+    if (coerced.value !== '') {
+      result[field.key] = coerced.value;
+    }
+  }
+
+  return { values: result };
+}
+
+/**
+ * Read custom field values sent either as an object (JSON) or a JSON string (multipart form)
+ */
+export function parseCustomFieldsInput(input: unknown): Record<string, unknown> | null {
+  if (input === undefined || input === null || input === '') return {};
+
+  if (typeof input === 'string') {
+    try {
+      return parseCustomFieldsInput(JSON.parse(input));
+    } catch {
+      return null;
+    }
+  }
+
+  return typeof input === 'object' && !Array.isArray(input) ? input as Record<string, unknown> : null;
+}
+
+/**
+ * Format a stored value for display
+ */
+export function formatCustomFieldValue(field: CustomFieldDefinition, value: unknown): string {
+  if (isEmpty(value)) return '—';
+  if (field.type === 'checkbox') return value ? 'Yes' : 'No';
+  if (field.type === 'date') return new Date(`${value}T00:00:00`).toLocaleDateString();
+  return String(value);
+}
+
+/**
+ * Validate a custom field definition sent to the admin API, returning an error message or null
+ */
+export function validateCustomFieldDefinition(input: {
+  key?: unknown;
+  label?: unknown;
+  type?: unknown;
+  options?: unknown;
+}): string | null {
+  if (input.key !== undefined && (typeof input.key !== 'string' || !isValidCustomFieldKey(input.key))) {
+    return 'Key must start with a letter and contain only lowercase letters, numbers and underscores';
+  }
+
+  if (input.label !== undefined && (typeof input.label !== 'string' || !input.label.trim())) {
+    return 'Label is required';
+  }
+
+  if (input.type !== undefined && !(CUSTOM_FIELD_TYPES as readonly unknown[]).includes(input.type)) {
+    return `Invalid type. Must be one of: ${CUSTOM_FIELD_TYPES.join(', ')}`;
+  }
+
+  if (input.options !== undefined) {
+    if (!Array.isArray(input.options) || input.options.some(option => typeof option !== 'string' || !option.trim())) {
+      return 'Options must be a list of non-empty strings';
+    }
+  }
+
+  if (input.type === 'select' && (!Array.isArray(input.options) || input.options.length === 0)) {
+    return 'Select fields need at least one option';
+  }
+
+  return null;
+}
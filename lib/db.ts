@@ -157,6 +157,13 @@ export async function testDatabaseConnection(useSecondary: boolean) {
   }
 }
 
+/**
+ * Whether a write failed on a unique index, e.g. because a concurrent request inserted the same key first
+ */
+export function isDuplicateKeyError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: unknown }).code === 11000;
+}
+
 /**
  * Disconnect from database
  */
@@ -0,0 +1,69 @@
+/**
+ * Minimal word-level diff used for ticket revisions
+ * Shared by the API (to summarize edits in history) and the UI (to render the diff panel)
+ */
+
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+// Split into words while keeping the whitespace, so joining the parts restores the text
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter(token => token.length > 0);
+}
+
+/**
+ * Diff two texts word by word using a longest common subsequence table
+ */
+export function diffWords(oldText: string, newText: string): DiffPart[] {
+  const a = tokenize(oldText);
+  const b = tokenize(newText);
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      parts.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+
+  return parts;
+}
+
+/**
+ * Summarize a diff as a count of added and removed words, e.g. "+3 / -1 words"
+ */
+export function summarizeDiff(parts: DiffPart[]): string {
+  const countWords = (type: DiffPart['type']) => parts
+    .filter(part => part.type === type)
+    .reduce((sum, part) => sum + tokenize(part.text).filter(token => token.trim()).length, 0);
+
+  return `+${countWords('added')} / -${countWords('removed')} words`;
+}
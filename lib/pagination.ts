@@ -0,0 +1,234 @@
+import { Model } from 'mongoose';
+
+/**
+ * Cursor pagination: a page continues from the last item of the previous one instead of skipping a number
+ * of items, so deep pages stay fast and items aren't repeated or skipped when the list changes in between.
+ * Items are ordered by the sort field and then by _id, which makes the order total.
+ */
+
+type MongoQuery = Record<string, unknown>;
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface CursorSort {
+  field: string;
+  order: SortOrder;
+}
+
+export type CursorDirection = 'next' | 'prev';
+
+// Where a cursor points: just after (or before) the item with this sort value and ID
+export interface CursorPosition {
+  value: unknown;
+  id: string;
+  direction: CursorDirection;
+}
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+  prevCursor: string | null;
+  hasNext: boolean;
+  hasPrev: boolean;
+}
+
+export type CountMode = 'exact' | 'approximate' | 'none';
+
+export const COUNT_MODES: CountMode[] = ['exact', 'approximate', 'none'];
+
+// Approximate counts stop counting here, and are shown as e.g. "1000+"
+export const APPROXIMATE_COUNT_LIMIT = 1000;
+
+// What is stored in a cursor; it also names the sort, so it can't be replayed against another one
+interface CursorData {
+  f: string;
+  o: SortOrder;
+  d: CursorDirection;
+  v: unknown;
+  t?: 'date'; // the value is a date, stored as an ISO string
+  id: string;
+}
+
+export function encodeCursor(sort: CursorSort, value: unknown, id: string, direction: CursorDirection): string {
+  const data: CursorData = value instanceof Date
+    ? { f: sort.field, o: sort.order, d: direction, v: value.toISOString(), t: 'date', id }
+    : { f: sort.field, o: sort.order, d: direction, v: value ?? null, id };
+  return Buffer.from(JSON.stringify(data)).toString('base64url');
+}
+
+/**
+ * Read a cursor made for the given sort, or null if it is malformed or belongs to another sort
+ */
+export function decodeCursor(cursor: string, sort: CursorSort): CursorPosition | null {
+  let data: CursorData;
+  try {
+    data = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+
+  if (!data || typeof data !== 'object' || data.f !== sort.field || data.o !== sort.order) return null;
+  if (data.d !== 'next' && data.d !== 'prev') return null;
+  if (typeof data.id !== 'string' || !/^[0-9a-f]{24}$/i.test(data.id)) return null;
+  if (data.v !== null && !['string', 'number', 'boolean'].includes(typeof data.v)) return null;
+
+  if (data.t === 'date') {
+    const date = new Date(String(data.v));
+    if (isNaN(date.getTime())) return null;
+    return { value: date, id: data.id, direction: data.d };
+  }
+
+  return { value: data.v, id: data.id, direction: data.d };
+}
+
+// Whether the items wanted come after the cursor in the field's own order (larger values when ascending)
+const isForward = (sort: CursorSort, direction: CursorDirection) => (direction === 'next') === (sort.order === 'asc');
+
+/**
+ * Items beyond a cursor in the field's own order. Missing and null values sort before every other value,
+ * but comparisons such as { $gt: null } only match values of the same type, so they are handled apart.
+ */
+function beyondCursor(field: string, position: CursorPosition, forward: boolean): MongoQuery {
+  const operator = forward ? '$gt' : '$lt';
+  const sameValue = { [field]: position.value, _id: { [operator]: position.id } };
+
+  if (position.value === null) {
+    return forward ? { $or: [sameValue, { [field]: { $ne: null } }] } : sameValue;
+  }
+
+  return {
+    $or: [
+      { [field]: { [operator]: position.value } },
+      sameValue,
+      ...(forward ? [] : [{ [field]: null }])
+    ]
+  };
+}
+
+/**
+ * Fetch one page of a query, starting after (or ending before) a cursor, or the first page without one
+ */
+export async function findPage<T>(
+  model: Model<T>,
+  query: MongoQuery,
+  sort: CursorSort,
+  position: CursorPosition | null,
+  limit: number
+): Promise<Page<T>> {
+  const direction = position?.direction ?? 'next';
+  const forward = isForward(sort, direction);
+  const order = forward ? 1 : -1;
+
+  const conditions = position ? { $and: [query, beyondCursor(sort.field, position, forward)] } : query;
+
+  // One extra item tells whether there is more beyond this page
+  const found = await model.find(conditions)
+    .sort({ [sort.field]: order, _id: order })
+    .limit(limit + 1);
+
+  return toPage(found as T[], limit, position, (item) => {
+    const doc = item as unknown as { get: (path: string) => unknown; _id: unknown };
+    return { value: doc.get(sort.field), id: String(doc._id) };
+  }, sort);
+}
+
+/**
+ * Page through items that are already sorted in memory (e.g. ranked search results) the same way
+ */
+export function pageSorted<T>(
+  items: T[],
+  sort: CursorSort,
+  position: CursorPosition | null,
+  limit: number,
+  getKey: (item: T) => { value: number | string; id: string }
+): Page<T> {
+  const compare = (a: { value: number | string; id: string }, b: { value: unknown; id: string }) => {
+    const byValue = a.value < (b.value as number | string) ? -1 : a.value > (b.value as number | string) ? 1 : 0;
+    const result = byValue !== 0 ? byValue : a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+    return sort.order === 'asc' ? result : -result;
+  };
+
+  let window: T[];
+  if (!position) {
+    window = items.slice(0, limit + 1);
+  } else if (position.direction === 'next') {
+    window = items.filter(item => compare(getKey(item), position) > 0).slice(0, limit + 1);
+  } else {
+    // Nearest first, like a reversed query
+    window = items.filter(item => compare(getKey(item), position) < 0).slice(-(limit + 1)).reverse();
+  }
+
+  return toPage(window, limit, position, getKey, sort);
+}
+
+/**
+ * Turn the items fetched for a page (in fetch order, plus one extra if there are more) into the page
+ */
+function toPage<T>(
+  found: T[],
+  limit: number,
+  position: CursorPosition | null,
+  getKey: (item: T) => { value: unknown; id: string },
+  sort: CursorSort
+): Page<T> {
+  const direction = position?.direction ?? 'next';
+  const more = found.length > limit;
+  const items = found.slice(0, limit);
+
+  // Pages fetched backwards come nearest first
+  if (direction === 'prev') items.reverse();
+
+  const hasNext = direction === 'next' ? more : true;
+  const hasPrev = direction === 'prev' ? more : position !== null;
+
+  const first = items[0];
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    nextCursor: hasNext && last ? encodeCursor(sort, getKey(last).value, getKey(last).id, 'next') : null,
+    prevCursor: hasPrev && first ? encodeCursor(sort, getKey(first).value, getKey(first).id, 'prev') : null,
+    hasNext: hasNext && !!last,
+    hasPrev: hasPrev && !!first
+  };
+}
+
+// Only leaves out items in the trash, e.g. the unfiltered ticket list
+const isTrashFilterOnly = (query: MongoQuery) =>
+  Object.keys(query).length === 1 && query.deletedAt === null;
+
+/**
+ * Count the items matching a query. Approximate counts stay cheap on large collections: they stop at
+ * APPROXIMATE_COUNT_LIMIT (`approximate` is then true, meaning "at least this many"). When nothing but
+ * the trash is filtered out, the collection's metadata tells whether the limit is reached without counting
+ * (the few trashed items are counted through their index and subtracted); it is only an estimate, so
+ * smaller collections are still counted exactly.
+ */
+export async function countMatches<T>(
+  model: Model<T>,
+  query: MongoQuery,
+  mode: CountMode
+): Promise<{ totalCount: number | null; approximate: boolean }> {
+  if (mode === 'none') {
+    return { totalCount: null, approximate: false };
+  }
+
+  if (mode === 'exact') {
+    return { totalCount: await model.countDocuments(query), approximate: false };
+  }
+
+  if (Object.keys(query).length === 0 || isTrashFilterOnly(query)) {
+    const [total, trashed] = await Promise.all([
+      model.estimatedDocumentCount(),
+      isTrashFilterOnly(query) ? model.countDocuments({ deletedAt: { $ne: null } }) : 0
+    ]);
+    if (total - trashed > APPROXIMATE_COUNT_LIMIT) {
+      return { totalCount: APPROXIMATE_COUNT_LIMIT, approximate: true };
+    }
+  }
+
+  const count = await model.countDocuments(query, { limit: APPROXIMATE_COUNT_LIMIT + 1 });
+  return count > APPROXIMATE_COUNT_LIMIT
+    ? { totalCount: APPROXIMATE_COUNT_LIMIT, approximate: true }
+    : { totalCount: count, approximate: false };
+}
@@ -0,0 +1,281 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { MAX_TAG_LENGTH, isValidColor, isValidTag, normalizeTag, parseTagList } from './tags';
+import { parseCustomFieldsInput } from './customFields';
+
+/**
+ * Typed validation of request parameters and bodies for route handlers. A schema gives each field a rule
+ * that checks the raw value and coerces it to its type (query parameters are always strings), so a handler
+ * gets typed values with defaults filled in, or a 400 that lists every invalid field at once.
+ */
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+// A rule reads one raw value, undefined when it wasn't sent
+export type Rule<T> = (raw: unknown) => { value: T } | { error: string };
+
+export type Schema = Record<string, Rule<unknown>>;
+
+export type SchemaValues<S extends Schema> = { [K in keyof S]: S[K] extends Rule<infer T> ? T : never };
+
+export type ValidationResult<S extends Schema> = { values: SchemaValues<S> } | { errors: FieldError[] };
+
+// Query strings send empty parameters for cleared inputs, which count as not sent
+const isMissing = (raw: unknown) => raw === undefined || raw === null || raw === '';
+
+const REQUIRED = 'Is required';
+
+/**
+ * A field that may be left out, e.g. in a partial update: it is undefined then, and checked by the rule otherwise
+ */
+export function optional<T>(rule: Rule<T>): Rule<T | undefined> {
+  return (raw) => raw === undefined ? { value: undefined } : rule(raw);
+}
+
+/**
+ * A whole number within bounds, e.g. a page size; required unless it has a default
+ */
+export function integer(options: { min: number; max: number; default?: number }): Rule<number> {
+  return (raw) => {
+    if (isMissing(raw)) return options.default !== undefined ? { value: options.default } : { error: REQUIRED };
+
+    const value = typeof raw === 'number' ? raw : typeof raw === 'string' && /^-?\d+$/.test(raw.trim()) ? Number(raw) : NaN;
+    if (!Number.isSafeInteger(value) || value < options.min || value > options.max) {
+      return { error: `Must be a whole number between ${options.min} and ${options.max}` };
+    }
+    return { value };
+  };
+}
+
+/**
+ * One of a fixed list of values, e.g. a sort field; required unless it has a default
+ */
+export function oneOf<T extends string>(values: readonly T[], defaultValue?: T): Rule<T> {
+  return (raw) => {
+    if (isMissing(raw)) return defaultValue !== undefined ? { value: defaultValue } : { error: REQUIRED };
+
+    if (typeof raw !== 'string' || !(values as readonly string[]).includes(raw)) {
+      return { error: `Must be one of: ${values.join(', ')}` };
+    }
+    return { value: raw as T };
+  };
+}
+
+/**
+ * Free text, trimmed; blank text is required to be filled in when `required` is set
+ */
+export function text(options: { required?: boolean; maxLength?: number; default?: string } = {}): Rule<string> {
+  return (raw) => {
+    if (raw !== undefined && raw !== null && typeof raw !== 'string') {
+      return { error: 'Must be text' };
+    }
+
+    const value = (raw ?? '').trim();
+    if (!value) {
+      return options.required ? { error: 'Cannot be empty' } : { value: options.default ?? '' };
+    }
+    if (options.maxLength !== undefined && value.length > options.maxLength) {
+      return { error: `Cannot exceed ${options.maxLength} characters` };
+    }
+    return { value };
+  };
+}
+
+/**
+ * The ID of a document, or one of a few keywords that stand for one (e.g. 'me' or 'unassigned');
+ * required unless it has a default
+ */
+export function objectId<K extends string = never>(options: { keywords?: readonly K[]; default?: K } = {}): Rule<string | K> {
+  const keywords: readonly string[] = options.keywords ?? [];
+
+  return (raw) => {
+    if (isMissing(raw)) return options.default !== undefined ? { value: options.default } : { error: REQUIRED };
+
+    if (typeof raw !== 'string' || !(keywords.includes(raw) || /^[0-9a-f]{24}$/i.test(raw))) {
+      return { error: keywords.length > 0 ? `Must be an ID or one of: ${keywords.join(', ')}` : 'Must be an ID' };
+    }
+    return { value: raw };
+  };
+}
+
+/**
+ * The ID of a document, or null (also sent as an empty string) for none, e.g. to unassign a ticket
+ */
+export function objectIdOrNull(): Rule<string | null> {
+  return (raw) => {
+    if (raw === null || raw === '') return { value: null };
+
+    if (typeof raw !== 'string' || !/^[0-9a-f]{24}$/i.test(raw)) {
+      return { error: 'Must be an ID or null' };
+    }
+    return { value: raw };
+  };
+}
+
+/**
+ * A yes/no flag, sent as true/false or '1'/'0'; required unless it has a default
+ */
+export function boolean(options: { default?: boolean } = {}): Rule<boolean> {
+  return (raw) => {
+    if (isMissing(raw)) return options.default !== undefined ? { value: options.default } : { error: REQUIRED };
+
+    if (raw === true || raw === 'true' || raw === '1') return { value: true };
+    if (raw === false || raw === 'false' || raw === '0') return { value: false };
+    return { error: 'Must be true or false' };
+  };
+}
+
+/**
+ * A hex color such as #2563eb; required unless it has a default
+ */
+export function hexColor(options: { default?: string } = {}): Rule<string> {
+  return (raw) => {
+    if (isMissing(raw)) return options.default !== undefined ? { value: options.default } : { error: REQUIRED };
+
+    if (typeof raw !== 'string' || !isValidColor(raw)) {
+      return { error: 'Must be a hex color such as #2563eb' };
+    }
+    return { value: raw };
+  };
+}
+
+/**
+ * An object of further fields, checked by the caller (e.g. one entry of a list)
+ */
+export function record(): Rule<Record<string, unknown>> {
+  return (raw) => {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      return { error: 'Must be an object' };
+    }
+    return { value: raw as Record<string, unknown> };
+  };
+}
+
+/**
+ * A list whose every item is checked by a rule, e.g. list(text()); required unless it has a default
+ */
+export function list<T>(item: Rule<T>, options: { default?: T[] } = {}): Rule<T[]> {
+  return (raw) => {
+    if (raw === undefined || raw === null) {
+      return options.default !== undefined ? { value: options.default } : { error: REQUIRED };
+    }
+    if (!Array.isArray(raw)) return { error: 'Must be a list' };
+
+    const values: T[] = [];
+    for (const [index, entry] of raw.entries()) {
+      const result = item(entry);
+      if ('error' in result) return { error: `Item ${index + 1}: ${result.error}` };
+      values.push(result.value);
+    }
+    return { value: values };
+  };
+}
+
+/**
+ * A single tag, e.g. the name of a catalog tag, normalized (see lib/tags.ts)
+ */
+export function tagName(): Rule<string> {
+  return (raw) => {
+    if (isMissing(raw)) return { error: REQUIRED };
+    if (typeof raw !== 'string') return { error: 'Must be text' };
+
+    const tag = normalizeTag(raw);
+    if (!isValidTag(tag)) {
+      return { error: `Must be up to ${MAX_TAG_LENGTH} letters, numbers, "-", "_", ":" and "."` };
+    }
+    return { value: tag };
+  };
+}
+
+/**
+ * A list of tags, normalized (see lib/tags.ts)
+ */
+export function tagList(): Rule<string[]> {
+  return (raw) => {
+    const parsed = parseTagList(raw);
+    return 'error' in parsed ? parsed : { value: parsed.tags };
+  };
+}
+
+/**
+ * Custom field values by key, as an object or a JSON string (multipart form data); checked against the
+ * category's fields later, see validateCustomFields()
+ */
+export function customFieldInput(): Rule<Record<string, unknown>> {
+  return (raw) => {
+    const input = parseCustomFieldsInput(raw);
+    return input ? { value: input } : { error: 'Must be an object of values by key' };
+  };
+}
+
+/**
+ * Check every field of an input (e.g. a JSON body) against a schema; fields not in the schema are ignored
+ */
+export function validateFields<S extends Schema>(input: unknown, schema: S): ValidationResult<S> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { errors: [{ field: 'body', message: 'Must be an object of fields' }] };
+  }
+
+  const fields = input as Record<string, unknown>;
+  const values: Record<string, unknown> = {};
+  const errors: FieldError[] = [];
+
+  for (const [field, rule] of Object.entries(schema)) {
+    const result = rule(fields[field]);
+    if ('error' in result) {
+      errors.push({ field, message: result.error });
+    } else {
+      values[field] = result.value;
+    }
+  }
+
+  return errors.length > 0 ? { errors } : { values: values as SchemaValues<S> };
+}
+
+/**
+ * Check a request's query parameters against a schema. A parameter sent more than once is read from its
+ * first value, like URLSearchParams.get().
+ */
+export function validateQuery<S extends Schema>(searchParams: URLSearchParams, schema: S): ValidationResult<S> {
+  const input: Record<string, unknown> = {};
+  for (const field of Object.keys(schema)) {
+    input[field] = searchParams.get(field) ?? undefined;
+  }
+  return validateFields(input, schema);
+}
+
+/**
+ * Read a JSON body and check it against a schema; a body that isn't JSON is reported like an invalid field
+ */
+export async function validateBody<S extends Schema>(request: Request, schema: S): Promise<ValidationResult<S>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return { errors: [{ field: 'body', message: 'Must be JSON' }] };
+  }
+  return validateFields(body, schema);
+}
+
+/**
+ * The fields a model rejected on save, e.g. a value its schema limits more tightly than the request rules;
+ * null for any other error
+ */
+export function modelValidationErrors(error: unknown): FieldError[] | null {
+  if (!(error instanceof mongoose.Error.ValidationError)) return null;
+
+  return Object.entries(error.errors).map(([field, fieldError]) => ({ field, message: fieldError.message }));
+}
+
+/**
+ * The 400 response for invalid fields: `error` sums them up for display, `fields` lists what is wrong with each
+ */
+export function invalidRequest(errors: FieldError[]): NextResponse {
+  return NextResponse.json(
+    { error: errors.map(e => `${e.field}: ${e.message}`).join('; '), fields: errors },
+    { status: 400 }
+  );
+}
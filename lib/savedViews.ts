@@ -0,0 +1,100 @@
+/**
+ * Dashboard filters as URL query strings, and named views that store them
+ * Shared by the API (to normalize saved views) and the UI (to sync filters with the URL)
+ */
+
+export interface DashboardFilters {
+  status: string;
+  priority: string;
+  category: string;
+  assignee: string;
+  sla: string;
+  tags: string; // comma-separated
+  tagMode: string;
+  search: string;
+  sortBy: string;
+  sortOrder: string;
+  cursor: string; // where the page starts, from the ticket API's pagination
+  limit: number;
+}
+
+export const DEFAULT_FILTERS: DashboardFilters = {
+  status: 'all',
+  priority: 'all',
+  category: 'all',
+  assignee: 'all',
+  sla: 'all',
+  tags: '',
+  tagMode: 'any',
+  search: '',
+  sortBy: 'createdAt',
+  sortOrder: 'desc',
+  cursor: '',
+  limit: 10
+};
+
+// Custom field filters are sent as cf.<key>=value
+const CUSTOM_FILTER_PREFIX = 'cf.';
+
+export const MAX_VIEW_NAME_LENGTH = 50;
+export const MAX_VIEW_QUERY_LENGTH = 1000;
+
+/**
+ * Turn filters into a query string, leaving out defaults so URLs stay short
+ */
+export function filtersToQuery(filters: DashboardFilters, customFilters: Record<string, string> = {}): string {
+  const params = new URLSearchParams();
+
+  for (const key of Object.keys(DEFAULT_FILTERS) as (keyof DashboardFilters)[]) {
+    const value = filters[key];
+    if (value !== DEFAULT_FILTERS[key] && value !== '') {
+      params.set(key, String(value));
+    }
+  }
+
+  for (const [key, value] of Object.entries(customFilters)) {
+    if (value) {
+      params.set(`${CUSTOM_FILTER_PREFIX}${key}`, value);
+    }
+  }
+
+  return params.toString();
+}
+
+/**
+ * Read filters back from a query string; unknown parameters are ignored and missing ones use the defaults
+ */
+export function queryToFilters(query: string): { filters: DashboardFilters; customFilters: Record<string, string> } {
+  const params = new URLSearchParams(query);
+  const filters = { ...DEFAULT_FILTERS };
+  const customFilters: Record<string, string> = {};
+
+  for (const [key, value] of params) {
+    if (key.startsWith(CUSTOM_FILTER_PREFIX)) {
+      customFilters[key.slice(CUSTOM_FILTER_PREFIX.length)] = value;
+    } else if (key === 'limit') {
+      const number = parseInt(value);
+      if (number > 0) filters[key] = number;
+    } else if (key in DEFAULT_FILTERS) {
+      (filters as unknown as Record<string, string>)[key] = value;
+    }
+  }
+
+  return { filters, customFilters };
+}
+
+/**
+ * Whether a query string sets any filter at all
+ */
+export function hasFilterQuery(query: string): boolean {
+  const { filters, customFilters } = queryToFilters(query);
+  return filtersToQuery(filters, customFilters) !== '';
+}
+
+/**
+ * Normalize a query string for storing in a view: only known filters are kept, and views never pin a page
+ */
+export function normalizeViewQuery(query: string): string {
+  const { filters, customFilters } = queryToFilters(query.replace(/^\?/, ''));
+  return filtersToQuery({ ...filters, cursor: DEFAULT_FILTERS.cursor }, customFilters);
+}
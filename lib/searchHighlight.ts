@@ -0,0 +1,87 @@
+/**
+ * Snippets around search matches
+ * Shared by the API (to explain why a ticket matched) and the UI (to highlight the matched words)
+ */
+
+export type SearchMatchField = 'title' | 'description' | 'comment';
+
+export interface SearchMatch {
+  field: SearchMatchField;
+  snippet: string;
+  highlights: [number, number][]; // [start, end) offsets in the snippet
+  commentId?: string;
+}
+
+export const SEARCH_MATCH_LABELS: Record<SearchMatchField, string> = {
+  title: 'Title',
+  description: 'Description',
+  comment: 'Comment'
+};
+
+// Characters of context kept on each side of the first match
+const SNIPPET_CONTEXT = 60;
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Build a pattern for the searched words and phrases. The text index matches word stems,
+ * so single words also match when only their start appears (e.g. "errors" finds "error").
+ */
+export function buildSearchPattern(terms: string[]): RegExp | null {
+  const parts = terms
+    .map(term => term.trim())
+    .filter(Boolean)
+    .map(term => {
+      if (/\s/.test(term)) return escapeRegex(term);
+      const stem = term.length > 4 ? term.slice(0, Math.max(4, term.length - 2)) : term;
+      return `${escapeRegex(stem)}\\w*`;
+    });
+
+  return parts.length > 0 ? new RegExp(parts.join('|'), 'gi') : null;
+}
+
+/**
+ * Cut a snippet around the first match in a text and mark every match inside it, or null if nothing matches
+ */
+export function buildSnippet(text: string, terms: string[]): Omit<SearchMatch, 'field'> | null {
+  const pattern = buildSearchPattern(terms);
+  if (!pattern) return null;
+
+  const first = pattern.exec(text);
+  if (!first) return null;
+
+  const start = Math.max(0, first.index - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, first.index + first[0].length + SNIPPET_CONTEXT);
+  const prefix = start > 0 ? '...' : '';
+  const suffix = end < text.length ? '...' : '';
+  const body = text.slice(start, end);
+
+  const highlights: [number, number][] = [];
+  for (const match of body.matchAll(pattern)) {
+    if (match[0].length === 0) continue;
+    highlights.push([prefix.length + match.index!, prefix.length + match.index! + match[0].length]);
+  }
+
+  return { snippet: `${prefix}${body}${suffix}`, highlights };
+}
+
+/**
+ * Split a snippet into plain and highlighted parts for rendering
+ */
+export function splitHighlights(match: Pick<SearchMatch, 'snippet' | 'highlights'>): { text: string; highlighted: boolean }[] {
+  const parts: { text: string; highlighted: boolean }[] = [];
+  let position = 0;
+
+  for (const [start, end] of match.highlights) {
+    if (start > position) parts.push({ text: match.snippet.slice(position, start), highlighted: false });
+    parts.push({ text: match.snippet.slice(start, end), highlighted: true });
+    position = end;
+  }
+  if (position < match.snippet.length) {
+    parts.push({ text: match.snippet.slice(position), highlighted: false });
+  }
+
+  return parts;
+}
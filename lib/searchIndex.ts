@@ -0,0 +1,129 @@
+import Ticket, { matchingTicketStages } from '@/models/Ticket';
+import Comment from '@/models/Comment';
+import SearchIndex from '@/models/SearchIndex';
+import { getMinSharedTrigrams, getTrigrams, scoreWordMatch, tokenize } from './trigrams';
+
+// Tickets checked per search word, the ones sharing the most trigrams with it first
+const MAX_CANDIDATES = 2000;
+
+type MongoQuery = Record<string, unknown>;
+
+// Below this, a match is a typo rather than the word itself or a prefix of it
+const PREFIX_SCORE = 0.75;
+
+function toTrigrams(words: string[]): string[] {
+  return [...new Set(words.flatMap(getTrigrams))];
+}
+
+/**
+ * Rebuild a ticket's entry in the search index from its title, description and comments.
+ * The index only speeds up search, so failures are logged instead of failing the write that triggered them.
+ */
+export async function indexTicket(ticketId: string): Promise<void> {
+  try {
+    const ticket = await Ticket.findById(ticketId).select('title description');
+    if (!ticket) {
+      await SearchIndex.deleteOne({ ticketId });
+      return;
+    }
+
+    const comments = await Comment.find({ ticketId }).select('content visibility');
+    const publicText = comments.filter(c => c.visibility !== 'internal').map(c => c.content);
+    const internalText = comments.filter(c => c.visibility === 'internal').map(c => c.content);
+
+    const words = tokenize([ticket.title, ticket.description, ...publicText].join(' '));
+    const internalWords = tokenize(internalText.join(' ')).filter(word => !words.includes(word));
+
+    await SearchIndex.updateOne(
+      { ticketId },
+      {
+        $set: {
+          words,
+          trigrams: toTrigrams(words),
+          internalWords,
+          internalTrigrams: toTrigrams(internalWords)
+        }
+      },
+      { upsert: true }
+    );
+  } catch (error) {
+    console.error('Error indexing ticket for search:', error);
+  }
+}
+
+export async function removeTicketFromIndex(ticketId: string): Promise<void> {
+  try {
+    await SearchIndex.deleteOne({ ticketId });
+  } catch (error) {
+    console.error('Error removing ticket from search index:', error);
+  }
+}
+
+/**
+ * Score the tickets containing every search word, exactly, as a prefix ("pay" -> "payment") or with a typo
+ * ("invoce" -> "invoice"), among the tickets matching `query` (access, trash and the other filters).
+ * Also returns the words to highlight, which include the misspelled matches.
+ * Returns null when the index is empty (not built yet) or nothing in the search can be indexed,
+ * so the caller can fall back to the text index.
+ */
+export async function rankFuzzyMatches(
+  searchWords: string[],
+  includeInternal: boolean,
+  query: MongoQuery
+): Promise<{ scores: Map<string, number>; words: string[] } | null> {
+  const terms = [...new Set(searchWords.flatMap(tokenize))];
+  if (terms.length === 0 || await SearchIndex.estimatedDocumentCount() === 0) {
+    return null;
+  }
+
+  const indexedWords = includeInternal ? { $concatArrays: ['$words', '$internalWords'] } : '$words';
+  const indexedTrigrams = includeInternal ? { $concatArrays: ['$trigrams', '$internalTrigrams'] } : '$trigrams';
+  const highlights = new Set(terms);
+
+  let scores: Map<string, number> | null = null;
+
+  for (const term of terms) {
+    const trigrams = getTrigrams(term);
+
+    // Each further word only narrows down the tickets found so far
+    const candidates: { ticketId: string; words: string[] }[] = await SearchIndex.aggregate([
+      {
+        $match: {
+          $or: [
+            { trigrams: { $in: trigrams } },
+            ...(includeInternal ? [{ internalTrigrams: { $in: trigrams } }] : [])
+          ],
+          ...(scores ? { ticketId: { $in: [...scores.keys()] } } : {})
+        }
+      },
+      { $project: { ticketId: 1, words: indexedWords, shared: { $size: { $setIntersection: [trigrams, indexedTrigrams] } } } },
+      { $match: { shared: { $gte: getMinSharedTrigrams(term) } } },
+      // Before the limit, so other users' and trashed tickets don't take up the candidates;
+      // further words only look at tickets found for the first, which already match
+      ...(scores ? [] : matchingTicketStages(query, 'ticketId')),
+      { $sort: { shared: -1 } },
+      { $limit: MAX_CANDIDATES },
+      { $project: { ticketId: 1, words: 1 } }
+    ]);
+
+    const next = new Map<string, number>();
+    for (const candidate of candidates) {
+      let best = 0;
+      for (const word of candidate.words) {
+        const score = scoreWordMatch(term, word);
+        if (score === 0) continue;
+        best = Math.max(best, score);
+        // Prefixes are highlighted through the search word itself
+        if (score < PREFIX_SCORE) highlights.add(word);
+      }
+      if (best > 0) {
+        next.set(candidate.ticketId, (scores?.get(candidate.ticketId) || 0) + best);
+      }
+    }
+
+    scores = next;
+    if (scores.size === 0) break;
+  }
+
+  return { scores: scores!, words: [...highlights] };
+}
@@ -0,0 +1,195 @@
+/**
+ * Ticket search language, e.g. status:open priority:>=high created:>2026-01-01 "exact phrase" -refund
+ * Shared by the API (to turn searches into queries) and the UI (to check syntax and suggest completions)
+ */
+
+import { TICKET_STATUSES } from './ticketStatus';
+
+export const SEARCH_OPERATORS = ['=', '>', '>=', '<', '<='] as const;
+
+export type SearchOperator = typeof SEARCH_OPERATORS[number];
+
+export type SearchFieldType = 'status' | 'option' | 'ordered_option' | 'tag' | 'assignee' | 'date';
+
+export interface SearchField {
+  name: string;
+  type: SearchFieldType;
+  description: string;
+}
+
+export const SEARCH_FIELDS: SearchField[] = [
+  { name: 'status', type: 'status', description: 'Status, or open/active for every unfinished status' },
+  { name: 'priority', type: 'ordered_option', description: 'Priority, comparable e.g. priority:>=high' },
+  { name: 'category', type: 'option', description: 'Category' },
+  { name: 'tag', type: 'tag', description: 'Tag' },
+  { name: 'assignee', type: 'assignee', description: 'me, unassigned or a staff name' },
+  { name: 'created', type: 'date', description: 'Creation date, e.g. created:>2026-01-01' },
+  { name: 'updated', type: 'date', description: 'Last update date' }
+];
+
+// Groups accepted by status: besides the stored statuses
+export const STATUS_SEARCH_GROUPS = ['open', 'active'] as const;
+
+export type SearchTerm =
+  | { kind: 'field'; field: string; operator: SearchOperator; value: string; negated: boolean }
+  | { kind: 'text'; value: string; phrase: boolean; negated: boolean };
+
+export interface SearchSyntaxError {
+  error: string;
+  position: number; // offset in the query where the problem starts
+}
+
+export const MAX_SEARCH_LENGTH = 500;
+export const MAX_SEARCH_TERMS = 20;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Whether a value is a valid YYYY-MM-DD calendar date
+ */
+export function isSearchDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+export function getSearchField(name: string): SearchField | undefined {
+  return SEARCH_FIELDS.find(field => field.name === name);
+}
+
+/**
+ * Read a possibly quoted value starting at `start`, returning it and the offset after it
+ */
+function readValue(query: string, start: number): { value: string; end: number } | SearchSyntaxError {
+  if (query[start] === '"') {
+    const close = query.indexOf('"', start + 1);
+    if (close === -1) {
+      return { error: 'Missing closing quote', position: start };
+    }
+    return { value: query.slice(start + 1, close), end: close + 1 };
+  }
+
+  let end = start;
+  while (end < query.length && !/\s/.test(query[end])) end++;
+  return { value: query.slice(start, end), end };
+}
+
+/**
+ * Parse a search into terms, or return the first syntax error.
+ * Field values are checked for shape here; values that depend on configuration (priorities, categories)
+ * are checked when the query is built.
+ */
+export function parseSearchQuery(query: string): { terms: SearchTerm[] } | SearchSyntaxError {
+  if (query.length > MAX_SEARCH_LENGTH) {
+    return { error: `Search cannot exceed ${MAX_SEARCH_LENGTH} characters`, position: MAX_SEARCH_LENGTH };
+  }
+
+  const terms: SearchTerm[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const negated = query[i] === '-';
+    if (negated) i++;
+
+    if (i >= query.length || /\s/.test(query[i])) {
+      return { error: 'Expected a word, phrase or field after "-"', position: start };
+    }
+
+    // "exact phrase"
+    if (query[i] === '"') {
+      const read = readValue(query, i);
+      if ('error' in read) return read;
+      if (!read.value.trim()) {
+        return { error: 'Empty phrase', position: i };
+      }
+      terms.push({ kind: 'text', value: read.value.trim(), phrase: true, negated });
+      i = read.end;
+    } else {
+      const fieldMatch = query.slice(i).match(/^([a-z]+):/i);
+      const field = fieldMatch && getSearchField(fieldMatch[1].toLowerCase());
+
+      if (fieldMatch && !field) {
+        return {
+          error: `Unknown field "${fieldMatch[1]}". Use one of: ${SEARCH_FIELDS.map(f => f.name).join(', ')}`,
+          position: i
+        };
+      }
+
+      if (field) {
+        i += fieldMatch![0].length;
+
+        const operatorMatch = query.slice(i).match(/^(>=|<=|>|<|=)/);
+        const operator = (operatorMatch?.[1] ?? '=') as SearchOperator;
+        if (operatorMatch) i += operatorMatch[1].length;
+
+        const read = readValue(query, i);
+        if ('error' in read) return read;
+
+        const value = read.value.trim();
+        const termError = validateFieldTerm(field, operator, value);
+        if (termError) {
+          return { error: termError, position: start };
+        }
+
+        terms.push({ kind: 'field', field: field.name, operator, value, negated });
+        i = read.end;
+      } else {
+        const read = readValue(query, i);
+        if ('error' in read) return read;
+        terms.push({ kind: 'text', value: read.value, phrase: false, negated });
+        i = read.end;
+      }
+    }
+
+    if (terms.length > MAX_SEARCH_TERMS) {
+      return { error: `Search cannot have more than ${MAX_SEARCH_TERMS} terms`, position: start };
+    }
+  }
+
+  return { terms };
+}
+
+function validateFieldTerm(field: SearchField, operator: SearchOperator, value: string): string | null {
+  if (!value) {
+    return `Missing value for ${field.name}`;
+  }
+
+  const comparable = field.type === 'date' || field.type === 'ordered_option';
+  if (operator !== '=' && !comparable) {
+    return `${field.name} can only be matched exactly, e.g. ${field.name}:value`;
+  }
+
+  if (field.type === 'status') {
+    const statuses: readonly string[] = [...TICKET_STATUSES, ...STATUS_SEARCH_GROUPS];
+    if (!statuses.includes(value.toLowerCase())) {
+      return `Invalid status "${value}". Use one of: ${statuses.join(', ')}`;
+    }
+  }
+
+  if (field.type === 'date' && !isSearchDate(value)) {
+    return `Invalid date "${value}" for ${field.name}. Use YYYY-MM-DD`;
+  }
+
+  return null;
+}
+
+/**
+ * Whether a search uses any of the language (fields, phrases or exclusions), rather than plain words
+ */
+export function isAdvancedSearch(terms: SearchTerm[]): boolean {
+  return terms.some(term => term.kind === 'field' || term.phrase || term.negated);
+}
+
+/**
+ * Whether a search looks for words or phrases, which is what relevance ranking applies to
+ */
+export function hasTextSearch(query: string): boolean {
+  const parsed = parseSearchQuery(query);
+  return 'terms' in parsed && parsed.terms.some(term => term.kind === 'text' && !term.negated);
+}
@@ -0,0 +1,64 @@
+import Ticket from '@/models/Ticket';
+import TicketLink from '@/models/TicketLink';
+import { TicketStatus } from './ticketStatus';
+import { tokenize } from './trigrams';
+
+type MongoQuery = Record<string, unknown>;
+
+export const MAX_SIMILAR_TICKETS = 5;
+
+// Words of the text that are searched for; the start of a long description says enough
+const MAX_SIMILARITY_WORDS = 30;
+
+// Weaker matches are usually a single common word somewhere in a long description
+const MIN_SIMILARITY_SCORE = 0.6;
+
+export interface SimilarTicket {
+  _id: string;
+  number?: number;
+  title: string;
+  status: TicketStatus;
+  knownIssue: boolean;
+  createdAt: Date;
+  score: number;
+}
+
+/**
+ * Find the tickets most similar to a text through the ticket text index, best match first.
+ * `scope` limits the candidates, e.g. to the requester's own tickets and known issues.
+ * Deleted tickets and merged stubs are never suggested.
+ */
+export async function findSimilarTickets(
+  text: string,
+  scope: MongoQuery,
+  excludeIds: string[] = []
+): Promise<SimilarTicket[]> {
+  // Only plain words, so quotes and dashes in the text can't turn into phrases or exclusions
+  const words = tokenize(text).slice(0, MAX_SIMILARITY_WORDS);
+  if (words.length === 0) return [];
+
+  const tickets = await Ticket.find(
+    {
+      $and: [scope, { deletedAt: null, mergedInto: null, _id: { $nin: excludeIds } }],
+      $text: { $search: words.join(' ') }
+    },
+    { score: { $meta: 'textScore' } }
+  )
+    .sort({ score: { $meta: 'textScore' } })
+    .limit(MAX_SIMILAR_TICKETS)
+    .select('number title status knownIssue createdAt')
+    .lean<SimilarTicket[]>();
+
+  return tickets.filter(ticket => ticket.score >= MIN_SIMILARITY_SCORE);
+}
+
+/**
+ * Tickets that might duplicate an existing one, leaving out those already linked to it
+ */
+export async function findPossibleDuplicates(ticket: { _id: unknown; title: string; description: string }): Promise<SimilarTicket[]> {
+  const ticketId = String(ticket._id);
+  const links = await TicketLink.find({ $or: [{ sourceId: ticketId }, { targetId: ticketId }] }).select('sourceId targetId');
+  const linkedIds = links.map(link => link.sourceId === ticketId ? link.targetId : link.sourceId);
+
+  return findSimilarTickets(`${ticket.title} ${ticket.description}`, {}, [ticketId, ...linkedIds]);
+}
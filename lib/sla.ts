@@ -0,0 +1,160 @@
+import SlaPolicy from '@/models/SlaPolicy';
+import { ACTIVE_STATUSES, normalizeStatus, storedStatuses } from './ticketStatus';
+import { addBusinessMinutes, getActiveCalendars } from './businessHours';
+
+export interface SlaTargets {
+  firstResponseMinutes: number;
+  resolutionMinutes: number;
+}
+
+// Used when no policy has been configured for a priority
+export const DEFAULT_SLA_TARGETS: Record<string, SlaTargets> = {
+  urgent: { firstResponseMinutes: 60, resolutionMinutes: 4 * 60 },
+  high: { firstResponseMinutes: 4 * 60, resolutionMinutes: 24 * 60 },
+  medium: { firstResponseMinutes: 8 * 60, resolutionMinutes: 3 * 24 * 60 },
+  low: { firstResponseMinutes: 24 * 60, resolutionMinutes: 7 * 24 * 60 }
+};
+
+// Targets are whole minutes, up to a year
+export const MAX_SLA_TARGET_MINUTES = 365 * 24 * 60;
+
+// A clock is "at risk" once this fraction of its target has elapsed
+export const SLA_AT_RISK_FRACTION = 0.75;
+
+export type SlaClockState = 'none' | 'on_track' | 'at_risk' | 'breached' | 'met';
+
+export interface SlaState {
+  firstResponse: SlaClockState;
+  resolution: SlaClockState;
+  breached: boolean;
+  atRisk: boolean;
+}
+
+interface SlaTicket {
+  status: string;
+  priority: string;
+  category: string;
+  createdAt: Date;
+  resolvedAt?: Date | null;
+  closedAt?: Date | null;
+  firstRespondedAt?: Date | null;
+  firstResponseDueAt?: Date | null;
+  firstResponseAtRiskAt?: Date | null;
+  resolutionDueAt?: Date | null;
+  resolutionAtRiskAt?: Date | null;
+}
+
+/**
+ * Find the targets for a ticket, preferring a category-specific policy
+ * over a priority-wide one, and falling back to the built-in defaults
+ */
+export async function getSlaTargets(priority: string, category: string): Promise<SlaTargets> {
+  const policies = await SlaPolicy.find({
+    priority,
+    category: { $in: [category, null] }
+  }).lean<Array<SlaTargets & { category?: string | null }>>();
+
+  const policy = policies.find(p => p.category === category) || policies.find(p => !p.category);
+
+  if (policy) {
+    return {
+      firstResponseMinutes: policy.firstResponseMinutes,
+      resolutionMinutes: policy.resolutionMinutes
+    };
+  }
+
+  return DEFAULT_SLA_TARGETS[priority] || DEFAULT_SLA_TARGETS.medium;
+}
+
+/**
+ * Compute and set the due and at-risk times on a ticket from its priority and category.
+ * Targets are counted in business time. The at-risk times are stored so list
+ * filters and stats can query them directly.
+ */
+export async function applySlaTargets(ticket: SlaTicket): Promise<void> {
+  const [targets, calendars] = await Promise.all([
+    getSlaTargets(ticket.priority, ticket.category),
+    getActiveCalendars()
+  ]);
+  const start = ticket.createdAt || new Date();
+
+  ticket.firstResponseDueAt = addBusinessMinutes(start, targets.firstResponseMinutes, calendars);
+  ticket.firstResponseAtRiskAt = addBusinessMinutes(start, Math.floor(targets.firstResponseMinutes * SLA_AT_RISK_FRACTION), calendars);
+  ticket.resolutionDueAt = addBusinessMinutes(start, targets.resolutionMinutes, calendars);
+  ticket.resolutionAtRiskAt = addBusinessMinutes(start, Math.floor(targets.resolutionMinutes * SLA_AT_RISK_FRACTION), calendars);
+}
+
+function getClockState(
+  dueAt: Date | null | undefined,
+  atRiskAt: Date | null | undefined,
+  stoppedAt: Date | null | undefined,
+  now: Date
+): SlaClockState {
+  if (!dueAt) return 'none';
+
+  if (stoppedAt) {
+    return new Date(stoppedAt) <= new Date(dueAt) ? 'met' : 'breached';
+  }
+
+  if (now > new Date(dueAt)) return 'breached';
+  if (atRiskAt && now >= new Date(atRiskAt)) return 'at_risk';
+  return 'on_track';
+}
+
+/**
+ * Get the current SLA state of a ticket
+ */
+export function getSlaState(ticket: SlaTicket, now: Date = new Date()): SlaState {
+  const isActive = ACTIVE_STATUSES.includes(normalizeStatus(ticket.status));
+  // The resolution clock stops when the ticket is resolved or closed
+  const resolutionStoppedAt = isActive ? null : (ticket.resolvedAt || ticket.closedAt);
+  const firstResponseStoppedAt = ticket.firstRespondedAt || (isActive ? null : resolutionStoppedAt);
+
+  const firstResponse = getClockState(ticket.firstResponseDueAt, ticket.firstResponseAtRiskAt, firstResponseStoppedAt, now);
+  const resolution = getClockState(ticket.resolutionDueAt, ticket.resolutionAtRiskAt, resolutionStoppedAt, now);
+
+  const breached = firstResponse === 'breached' || resolution === 'breached';
+
+  return {
+    firstResponse,
+    resolution,
+    breached,
+    atRisk: !breached && (firstResponse === 'at_risk' || resolution === 'at_risk')
+  };
+}
+
+// Either clock breached: overdue, or answered after the first response was due.
+// Tickets without a first response target never breach it, though any date compares greater than null.
+const breachedConditions = (now: Date): Record<string, unknown>[] => [
+  { resolutionDueAt: { $lt: now } },
+  { firstRespondedAt: null, firstResponseDueAt: { $lt: now } },
+  { firstResponseDueAt: { $ne: null }, $expr: { $gt: ['$firstRespondedAt', '$firstResponseDueAt'] } }
+];
+
+/**
+ * Mongo query matching active tickets that have breached either SLA clock
+ */
+export function slaBreachedQuery(now: Date = new Date()): Record<string, unknown> {
+  return {
+    status: { $in: storedStatuses(ACTIVE_STATUSES) },
+    $or: breachedConditions(now)
+  };
+}
+
+/**
+ * Mongo query matching active tickets that are at risk but not yet breached
+ */
+export function slaAtRiskQuery(now: Date = new Date()): Record<string, unknown> {
+  return {
+    status: { $in: storedStatuses(ACTIVE_STATUSES) },
+    $and: [
+      {
+        $or: [
+          { resolutionAtRiskAt: { $lte: now } },
+          { firstRespondedAt: null, firstResponseAtRiskAt: { $lte: now } }
+        ]
+      },
+      { $nor: breachedConditions(now) }
+    ]
+  };
+}
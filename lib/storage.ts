@@ -0,0 +1,66 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Storage backend for uploaded files.
+ * Implement this interface to keep attachments somewhere other than local disk (e.g. S3).
+ */
+export interface StorageBackend {
+  save(key: string, data: Buffer): Promise<void>;
+  read(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Stores files under a directory on the local disk
+ */
+export class LocalDiskStorage implements StorageBackend {
+  constructor(private readonly root: string) {}
+
+  // Resolve a key to a path, refusing keys that escape the storage directory
+  private resolve(key: string): string {
+    const root = path.resolve(this.root);
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async save(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async read(key: string): Promise<Buffer> {
+    return fs.readFile(this.resolve(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+let storage: StorageBackend | null = null;
+
+/**
+ * Get the configured storage backend.
+ * STORAGE_BACKEND selects the implementation (only "local" for now) and
+ * UPLOAD_DIR sets where local files are kept.
+ */
+export function getStorage(): StorageBackend {
+  if (!storage) {
+    const backend = process.env.STORAGE_BACKEND || 'local';
+
+    switch (backend) {
+      case 'local':
+        storage = new LocalDiskStorage(process.env.UPLOAD_DIR || path.join(process.cwd(), 'uploads'));
+        break;
+      default:
+        throw new Error(`Unknown storage backend: ${backend}`);
+    }
+  }
+
+  return storage;
+}
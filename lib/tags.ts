@@ -0,0 +1,53 @@
+/**
+ * Ticket tag rules
+ * Shared by the API (to validate tags) and the UI (to normalize input and render tags)
+ */
+
+export const MAX_TAGS_PER_TICKET = 20;
+export const MAX_TAG_LENGTH = 50;
+
+// Used for tags that are not in the catalog
+export const DEFAULT_TAG_COLOR = '#6b7280';
+
+/**
+ * Normalize user input into a tag, e.g. " Needs Info " -> "needs-info"
+ */
+export function normalizeTag(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+export function isValidTag(tag: string): boolean {
+  return tag.length <= MAX_TAG_LENGTH && /^[a-z0-9][a-z0-9_:.-]*$/.test(tag);
+}
+
+export function isValidColor(color: string): boolean {
+  return /^#[0-9a-f]{6}$/i.test(color);
+}
+
+/**
+ * Pick black or white text for a tag's background color
+ */
+export function getTagTextColor(color: string): string {
+  const r = parseInt(color.slice(1, 3), 16);
+  const g = parseInt(color.slice(3, 5), 16);
+  const b = parseInt(color.slice(5, 7), 16);
+  return (r * 299 + g * 587 + b * 114) / 1000 > 150 ? '#111827' : '#ffffff';
+}
+
+/**
+ * Normalize and validate a list of tags from a request, returning an error message
+ * or the normalized, de-duplicated tags
+ */
+export function parseTagList(value: unknown): { tags: string[] } | { error: string } {
+  if (!Array.isArray(value) || value.some(tag => typeof tag !== 'string')) {
+    return { error: 'Tags must be a list of strings' };
+  }
+
+  const tags = [...new Set((value as string[]).map(normalizeTag).filter(Boolean))];
+  const invalid = tags.find(tag => !isValidTag(tag));
+  if (invalid) {
+    return { error: `Invalid tag "${invalid}". Tags may contain letters, numbers, "-", "_", ":" and "." (max ${MAX_TAG_LENGTH} characters)` };
+  }
+
+  return { tags };
+}
@@ -0,0 +1,79 @@
+/**
+ * Typed links between tickets
+ * Shared by the API (to store links in one direction) and the UI (to show them from either side)
+ */
+
+// Stored link types, each read from the source ticket's side
+export const TICKET_LINK_TYPES = ['related', 'duplicate_of', 'blocks', 'parent_of'] as const;
+
+export type TicketLinkType = typeof TICKET_LINK_TYPES[number];
+
+// How a link reads from either ticket's side
+export const TICKET_LINK_RELATIONS = [
+  'related',
+  'duplicate_of',
+  'duplicated_by',
+  'blocks',
+  'blocked_by',
+  'parent_of',
+  'child_of'
+] as const;
+
+export type TicketLinkRelation = typeof TICKET_LINK_RELATIONS[number];
+
+export const LINK_RELATION_LABELS: Record<TicketLinkRelation, string> = {
+  related: 'Related to',
+  duplicate_of: 'Duplicate of',
+  duplicated_by: 'Duplicated by',
+  blocks: 'Blocks',
+  blocked_by: 'Blocked by',
+  parent_of: 'Parent of',
+  child_of: 'Child of'
+};
+
+// Relations seen from the target's side, mapped back to the stored type
+const INVERSE_RELATIONS: Partial<Record<TicketLinkRelation, TicketLinkType>> = {
+  duplicated_by: 'duplicate_of',
+  blocked_by: 'blocks',
+  child_of: 'parent_of'
+};
+
+const TARGET_RELATIONS: Record<TicketLinkType, TicketLinkRelation> = {
+  related: 'related',
+  duplicate_of: 'duplicated_by',
+  blocks: 'blocked_by',
+  parent_of: 'child_of'
+};
+
+/**
+ * Turn "this ticket <relation> that ticket" into the stored direction
+ */
+export function toStoredLink(
+  ticketId: string,
+  otherId: string,
+  relation: TicketLinkRelation
+): { type: TicketLinkType; sourceId: string; targetId: string } {
+  const inverse = INVERSE_RELATIONS[relation];
+  if (inverse) {
+    return { type: inverse, sourceId: otherId, targetId: ticketId };
+  }
+  return { type: relation as TicketLinkType, sourceId: ticketId, targetId: otherId };
+}
+
+/**
+ * How a stored link reads from the given ticket's side
+ */
+export function getLinkRelation(
+  link: { type: TicketLinkType; sourceId: string },
+  ticketId: string
+): TicketLinkRelation {
+  return link.sourceId === ticketId ? link.type : TARGET_RELATIONS[link.type];
+}
+
+/**
+ * Whether the link can close one ticket along with the other: children close with their parent,
+ * duplicates with the ticket they duplicate
+ */
+export function supportsAutoClose(type: TicketLinkType): boolean {
+  return type === 'parent_of' || type === 'duplicate_of';
+}
@@ -0,0 +1,67 @@
+import Ticket from '@/models/Ticket';
+import TicketHistory from '@/models/TicketHistory';
+import TicketLink from '@/models/TicketLink';
+import { formatTicketReference } from './ticketNumber';
+
+interface Actor {
+  id: string;
+  name: string;
+  role: string;
+}
+
+/**
+ * Close the children and duplicates linked to a ticket that was just closed, where the link asks for it.
+ * Closing cascades, so grandchildren close with their parent too. Returns references to the closed tickets
+ * (see formatTicketReference()).
+ */
+export async function closeLinkedTickets(
+  ticket: { _id: { toString(): string }; number?: number },
+  actor: Actor
+): Promise<string[]> {
+  const ticketId = ticket._id.toString();
+  const links = await TicketLink.find({
+    autoClose: true,
+    $or: [
+      { type: 'parent_of', sourceId: ticketId },
+      { type: 'duplicate_of', targetId: ticketId }
+    ]
+  });
+
+  const linkedIds = links.map(link => link.type === 'parent_of' ? link.targetId : link.sourceId);
+  if (linkedIds.length === 0) return [];
+
+  // Every status but closed itself may move to closed
+  const linkedTickets = await Ticket.find({
+    _id: { $in: linkedIds },
+    deletedAt: null,
+    status: { $ne: 'closed' }
+  });
+
+  const closed: string[] = [];
+  const reference = formatTicketReference(ticket);
+
+  for (const linked of linkedTickets) {
+    const oldStatus = linked.status;
+    const isChild = links.some(link => link.type === 'parent_of' && link.targetId === linked._id.toString());
+
+    linked.status = 'closed';
+    linked.closedAt = new Date();
+    await linked.save();
+
+    await TicketHistory.create({
+      ticketId: linked._id.toString(),
+      userId: actor.id,
+      userName: actor.name,
+      userRole: actor.role,
+      action: 'status_changed',
+      field: 'status',
+      oldValue: oldStatus,
+      newValue: 'closed',
+      description: `Closed automatically with ${isChild ? 'parent' : 'original'} ${reference}`
+    });
+
+    closed.push(formatTicketReference(linked), ...await closeLinkedTickets(linked, actor));
+  }
+
+  return closed;
+}
@@ -0,0 +1,45 @@
+/**
+ * Human-friendly ticket numbers, e.g. SUP-1042
+ * Shared by the API (to resolve tickets by number) and the UI (to display them)
+ */
+
+export const TICKET_NUMBER_PREFIX = 'SUP';
+
+// Name of the counter sequence the numbers are drawn from
+export const TICKET_NUMBER_SEQUENCE = 'ticketNumber';
+
+export function formatTicketNumber(number: number): string {
+  return `${TICKET_NUMBER_PREFIX}-${number}`;
+}
+
+/**
+ * How to refer to a ticket in messages: its number, or its ObjectId until the backfill has given it one
+ */
+export function formatTicketReference(ticket: { _id: { toString(): string }; number?: number | null }): string {
+  return ticket.number ? formatTicketNumber(ticket.number) : ticket._id.toString();
+}
+
+/**
+ * Parse "SUP-1042", "sup-1042" or "#1042" into 1042, or null if it isn't a ticket number
+ */
+export function parseTicketNumber(value: string): number | null {
+  const match = value.trim().match(new RegExp(`^(?:${TICKET_NUMBER_PREFIX}-|#)(\\d+)$`, 'i'));
+  return match ? parseInt(match[1]) : null;
+}
+
+/**
+ * Build a query that finds a ticket by ticket number or ObjectId.
+ * Anything else yields a query that matches nothing.
+ */
+export function ticketRefQuery(ref: string): Record<string, unknown> {
+  const number = parseTicketNumber(ref);
+  if (number !== null) {
+    return { number };
+  }
+
+  if (/^[0-9a-f]{24}$/i.test(ref)) {
+    return { _id: ref };
+  }
+
+  return { _id: { $in: [] } };
+}
@@ -0,0 +1,139 @@
+/**
+ * Admin-configurable ticket priorities and categories
+ * Shared by the API (to validate values) and the UI (to render selects and badges)
+ */
+
+import { getTagTextColor, isValidColor } from './tags';
+
+export const TICKET_OPTION_KINDS = ['priority', 'category'] as const;
+
+export type TicketOptionKind = typeof TICKET_OPTION_KINDS[number];
+
+export const MAX_OPTION_LABEL_LENGTH = 50;
+
+export interface TicketOption {
+  kind: TicketOptionKind;
+  value: string; // stored on tickets, fixed once created
+  label: string;
+  color: string; // hex, e.g. #dc2626
+  sortOrder: number; // display order; for priorities, lowest to highest
+  retired: boolean; // kept for old tickets but no longer offered
+}
+
+export type TicketOptionDefaults = Omit<TicketOption, 'kind' | 'retired'>;
+
+// Seeded into the database the first time the options are loaded
+export const DEFAULT_PRIORITIES: TicketOptionDefaults[] = [
+  { value: 'low', label: 'Low', color: '#16a34a', sortOrder: 0 },
+  { value: 'medium', label: 'Medium', color: '#ca8a04', sortOrder: 1 },
+  { value: 'high', label: 'High', color: '#ea580c', sortOrder: 2 },
+  { value: 'urgent', label: 'Urgent', color: '#dc2626', sortOrder: 3 }
+];
+
+export const DEFAULT_CATEGORIES: TicketOptionDefaults[] = [
+  { value: 'general', label: 'General', color: '#4b5563', sortOrder: 0 },
+  { value: 'technical', label: 'Technical', color: '#2563eb', sortOrder: 1 },
+  { value: 'billing', label: 'Billing', color: '#9333ea', sortOrder: 2 },
+  { value: 'feature_request', label: 'Feature Request', color: '#4f46e5', sortOrder: 3 },
+  { value: 'bug_report', label: 'Bug Report', color: '#db2777', sortOrder: 4 }
+];
+
+export const DEFAULT_OPTION_VALUES: Record<TicketOptionKind, string> = {
+  priority: 'medium',
+  category: 'general'
+};
+
+export const OPTION_KIND_LABELS: Record<TicketOptionKind, string> = {
+  priority: 'Priority',
+  category: 'Category'
+};
+
+// Values are stored on tickets and used in query strings, so keep them to safe characters
+export function isValidOptionValue(value: string): boolean {
+  return /^[a-z][a-z0-9_]{0,49}$/.test(value);
+}
+
+/**
+ * Options that can still be chosen for new tickets and changes, in display order
+ */
+export function getActiveOptions<T extends Pick<TicketOption, 'retired' | 'sortOrder'>>(options: T[]): T[] {
+  return options.filter(option => !option.retired).sort((a, b) => a.sortOrder - b.sortOrder);
+}
+
+/**
+ * Check that a value may be set on a ticket, i.e. it exists and isn't retired
+ */
+export function isSelectableOption(options: Pick<TicketOption, 'value' | 'retired'>[], value: unknown): boolean {
+  return typeof value === 'string' && options.some(option => option.value === value && !option.retired);
+}
+
+/**
+ * The value new tickets get when none is chosen: the built-in default while it is active,
+ * otherwise the first active option
+ */
+export function getDefaultOptionValue(kind: TicketOptionKind, options: TicketOption[]): string {
+  const active = getActiveOptions(options);
+  return active.find(option => option.value === DEFAULT_OPTION_VALUES[kind])?.value
+    ?? active[0]?.value
+    ?? DEFAULT_OPTION_VALUES[kind];
+}
+
+/**
+ * Display name for a stored value; unknown values (e.g. from older data) are prettified
+ */
+export function getOptionLabel(options: Pick<TicketOption, 'value' | 'label'>[], value: string): string {
+  return options.find(option => option.value === value)?.label
+    ?? value.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+}
+
+/**
+ * Badge colors for a stored value, falling back to gray for unknown values
+ */
+export function getOptionStyle(options: Pick<TicketOption, 'value' | 'color'>[], value: string): { backgroundColor: string; color: string } {
+  const color = options.find(option => option.value === value)?.color ?? '#6b7280';
+  return { backgroundColor: color, color: getTagTextColor(color) };
+}
+
+/**
+ * Error message listing the values that may be chosen
+ */
+export function invalidOptionMessage(kind: TicketOptionKind, options: TicketOption[]): string {
+  return `Invalid ${kind}. Must be one of: ${getActiveOptions(options).map(option => option.value).join(', ')}`;
+}
+
+/**
+ * Validate option fields sent to the admin API, returning an error message or null
+ */
+export function validateTicketOptionInput(input: {
+  kind?: unknown;
+  value?: unknown;
+  label?: unknown;
+  color?: unknown;
+  sortOrder?: unknown;
+}): string | null {
+  if (input.kind !== undefined && !(TICKET_OPTION_KINDS as readonly unknown[]).includes(input.kind)) {
+    return `Invalid kind. Must be one of: ${TICKET_OPTION_KINDS.join(', ')}`;
+  }
+
+  if (input.value !== undefined && (typeof input.value !== 'string' || !isValidOptionValue(input.value))) {
+    return 'Value must start with a letter and contain only lowercase letters, numbers and underscores';
+  }
+
+  if (input.label !== undefined && (typeof input.label !== 'string' || !input.label.trim())) {
+    return 'Label is required';
+  }
+
+  if (typeof input.label === 'string' && input.label.trim().length > MAX_OPTION_LABEL_LENGTH) {
+    return `Label cannot exceed ${MAX_OPTION_LABEL_LENGTH} characters`;
+  }
+
+  if (input.color !== undefined && (typeof input.color !== 'string' || !isValidColor(input.color))) {
+    return 'Color must be a hex color such as #2563eb';
+  }
+
+  if (input.sortOrder !== undefined && !Number.isInteger(input.sortOrder)) {
+    return 'Sort order must be a whole number';
+  }
+
+  return null;
+}
@@ -0,0 +1,267 @@
+import User from '@/models/User';
+import Ticket, { matchingTicketStages } from '@/models/Ticket';
+import Comment from '@/models/Comment';
+import { getTicketOptions } from '@/models/TicketOption';
+import { SearchTerm, parseSearchQuery } from './searchQuery';
+import { ACTIVE_STATUSES, storedStatuses } from './ticketStatus';
+import { TicketOption } from './ticketOptions';
+import { normalizeTag } from './tags';
+import { SearchMatch, buildSearchPattern, buildSnippet } from './searchHighlight';
+import { rankFuzzyMatches } from './searchIndex';
+
+type MongoQuery = Record<string, unknown>;
+
+export type TicketSearchResult =
+  | { conditions: MongoQuery[]; text: string | null; words: string[]; phrases: boolean }
+  | { error: string; position?: number };
+
+// Text matches considered per search; relevance ranking and snippets only look at these
+export const MAX_TEXT_MATCHES = 500;
+
+// Comment matches count for less than matches in the ticket itself
+const COMMENT_SCORE_WEIGHT = 0.5;
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Match an option by value or label, so priority:urgent and priority:"Very High" both work
+function findOption(options: TicketOption[], value: string): TicketOption | undefined {
+  const lower = value.toLowerCase();
+  return options.find(option => option.value === lower || option.label.toLowerCase() === lower);
+}
+
+/**
+ * Turn a search into Mongo conditions for tickets, plus a $text search string for the plain words and phrases.
+ * Every value is matched literally (never as an operator or an unescaped pattern), so user input can't
+ * change the shape of the query.
+ */
+export async function buildTicketSearch(search: string, userId: string): Promise<TicketSearchResult> {
+  const parsed = parseSearchQuery(search);
+  if ('error' in parsed) {
+    return parsed;
+  }
+
+  const conditions: MongoQuery[] = [];
+  const textParts: string[] = [];
+  const words: string[] = [];
+  const excluded: SearchTerm[] = [];
+
+  const needs = (field: string) => parsed.terms.some(term => term.kind === 'field' && term.field === field);
+  const [priorities, categories] = await Promise.all([
+    needs('priority') ? getTicketOptions('priority') : [],
+    needs('category') ? getTicketOptions('category') : []
+  ]);
+
+  for (const term of parsed.terms) {
+    if (term.kind === 'text') {
+      if (!term.negated) {
+        // Quotes are the only syntax $text knows besides "-", and both were taken apart by the parser
+        const value = term.value.replace(/"/g, '');
+        textParts.push(term.phrase ? `"${value}"` : value);
+        words.push(value);
+      } else {
+        excluded.push(term);
+      }
+      continue;
+    }
+
+    let condition: MongoQuery;
+
+    switch (term.field) {
+      case 'status': {
+        const value = term.value.toLowerCase();
+        condition = { status: { $in: storedStatuses(value === 'open' || value === 'active' ? ACTIVE_STATUSES : [value]) } };
+        break;
+      }
+
+      case 'priority': {
+        const option = findOption(priorities, term.value);
+        if (!option) {
+          return { error: `Unknown priority "${term.value}". Use one of: ${priorities.map(o => o.value).join(', ')}` };
+        }
+        if (term.operator === '=') {
+          condition = { priority: option.value };
+        } else {
+          // Compare by the configured order, lowest to highest
+          const matches = priorities.filter(other => {
+            switch (term.operator) {
+              case '>': return other.sortOrder > option.sortOrder;
+              case '>=': return other.sortOrder >= option.sortOrder;
+              case '<': return other.sortOrder < option.sortOrder;
+              default: return other.sortOrder <= option.sortOrder;
+            }
+          });
+          condition = { priority: { $in: matches.map(other => other.value) } };
+        }
+        break;
+      }
+
+      case 'category': {
+        const option = findOption(categories, term.value);
+        if (!option) {
+          return { error: `Unknown category "${term.value}". Use one of: ${categories.map(o => o.value).join(', ')}` };
+        }
+        condition = { category: option.value };
+        break;
+      }
+
+      case 'tag':
+        condition = { tags: normalizeTag(term.value) };
+        break;
+
+      case 'assignee': {
+        const value = term.value.toLowerCase();
+        if (value === 'me') {
+          condition = { assigneeId: userId };
+        } else if (value === 'unassigned' || value === 'none') {
+          condition = { assigneeId: null };
+        } else {
+          // Staff are matched by name, so assignee:jane finds "Jane Doe"
+          const staff = await User.find({
+            role: 'admin',
+            name: { $regex: escapeRegex(term.value), $options: 'i' }
+          }).select('_id');
+          condition = { assigneeId: { $in: staff.map(member => member._id.toString()) } };
+        }
+        break;
+      }
+
+      default: {
+        // created / updated, compared by whole (UTC) days
+        const path = term.field === 'created' ? 'createdAt' : 'updatedAt';
+        const dayStart = new Date(`${term.value}T00:00:00Z`);
+        const nextDay = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+
+        switch (term.operator) {
+          case '=': condition = { [path]: { $gte: dayStart, $lt: nextDay } }; break;
+          case '>': condition = { [path]: { $gte: nextDay } }; break;
+          case '>=': condition = { [path]: { $gte: dayStart } }; break;
+          case '<': condition = { [path]: { $lt: dayStart } }; break;
+          default: condition = { [path]: { $lt: nextDay } };
+        }
+      }
+    }
+
+    conditions.push(term.negated ? { $nor: [condition] } : condition);
+  }
+
+  // Excluded words and phrases can't go through $text on their own, so they are matched as literal substrings
+  for (const term of excluded) {
+    const pattern = { $regex: escapeRegex(term.value), $options: 'i' };
+    conditions.push({ $nor: [{ title: pattern }, { description: pattern }] });
+  }
+
+  return {
+    conditions,
+    text: textParts.length > 0 ? textParts.join(' ') : null,
+    words,
+    phrases: parsed.terms.some(term => term.kind === 'text' && term.phrase && !term.negated)
+  };
+}
+
+/**
+ * Score the tickets matching a text search in their title, description or comments, among the tickets
+ * matching `query` (access, trash and the other filters). Internal notes only count for staff.
+ */
+async function rankTextMatches(
+  query: MongoQuery,
+  text: string,
+  includeInternal: boolean
+): Promise<Map<string, number>> {
+  const [ticketHits, commentHits] = await Promise.all([
+    Ticket.find({ ...query, $text: { $search: text } }, { score: { $meta: 'textScore' } })
+      .sort({ score: { $meta: 'textScore' } })
+      .limit(MAX_TEXT_MATCHES)
+      .lean<{ _id: unknown; score: number }[]>(),
+    Comment.aggregate<{ _id: string; score: number }>([
+      { $match: { $text: { $search: text }, ...(includeInternal ? {} : { visibility: { $ne: 'internal' } }) } },
+      { $project: { ticketId: 1, score: { $meta: 'textScore' } } },
+      { $group: { _id: '$ticketId', score: { $max: '$score' } } },
+      // Before the limit, so other users' and trashed tickets don't take up the matches
+      ...matchingTicketStages(query, '_id'),
+      { $sort: { score: -1 } },
+      { $limit: MAX_TEXT_MATCHES }
+    ])
+  ]);
+
+  const scores = new Map<string, number>();
+  for (const hit of ticketHits) {
+    scores.set(String(hit._id), hit.score);
+  }
+  for (const hit of commentHits) {
+    scores.set(hit._id, (scores.get(hit._id) || 0) + hit.score * COMMENT_SCORE_WEIGHT);
+  }
+
+  return scores;
+}
+
+/**
+ * Score the tickets matching the words and phrases of a search, and pick the words to highlight.
+ * Words go through the fuzzy search index, so prefixes and typos match too; phrases, and searches
+ * made before the index is built, fall back to the text index.
+ */
+export async function rankSearchMatches(
+  query: MongoQuery,
+  search: { text: string; words: string[]; phrases: boolean },
+  includeInternal: boolean
+): Promise<{ scores: Map<string, number>; words: string[] }> {
+  if (!search.phrases) {
+    try {
+      const fuzzy = await rankFuzzyMatches(search.words, includeInternal, query);
+      if (fuzzy) {
+        const ranked = [...fuzzy.scores]
+          .sort((a, b) => b[1] - a[1])
+          .slice(0, MAX_TEXT_MATCHES);
+        return { scores: new Map(ranked), words: fuzzy.words };
+      }
+    } catch (error) {
+      console.error('Error searching the search index:', error);
+    }
+  }
+
+  return { scores: await rankTextMatches(query, search.text, includeInternal), words: search.words };
+}
+
+/**
+ * Explain why each ticket matched a text search: the matching fields with highlighted snippets
+ */
+export async function getSearchMatches(
+  tickets: { _id: unknown; title: string; description: string }[],
+  words: string[],
+  includeInternal: boolean
+): Promise<Record<string, SearchMatch[]>> {
+  const pattern = buildSearchPattern(words);
+  if (!pattern) return {};
+
+  const ticketIds = tickets.map(ticket => String(ticket._id));
+  const comments = await Comment.find({
+    ticketId: { $in: ticketIds },
+    content: { $regex: pattern.source, $options: 'i' },
+    ...(includeInternal ? {} : { visibility: { $ne: 'internal' } })
+  })
+    .sort({ createdAt: -1 })
+    .select('ticketId content');
+
+  const matches: Record<string, SearchMatch[]> = {};
+
+  for (const ticket of tickets) {
+    const ticketId = String(ticket._id);
+    const found: SearchMatch[] = [];
+
+    for (const field of ['title', 'description'] as const) {
+      const snippet = buildSnippet(ticket[field], words);
+      if (snippet) found.push({ field, ...snippet });
+    }
+
+    // The latest matching comment is enough to explain the match
+    const comment = comments.find(c => c.ticketId === ticketId && buildSnippet(c.content, words));
+    if (comment) {
+      found.push({ field: 'comment', commentId: comment._id.toString(), ...buildSnippet(comment.content, words)! });
+    }
+
+    matches[ticketId] = found;
+  }
+
+  return matches;
+}
@@ -0,0 +1,119 @@
+import Ticket from '@/models/Ticket';
+import TicketStatsCache, { GLOBAL_STATS_SCOPE, userStatsScope } from '@/models/TicketStatsCache';
+import { ACTIVE_STATUSES, normalizeStatus } from './ticketStatus';
+import { slaAtRiskQuery, slaBreachedQuery } from './sla';
+import { isDuplicateKeyError } from './db';
+
+// SLA counts change with time alone, so cached statistics are also recomputed once they are this old
+const STATS_MAX_AGE_MS = 60 * 1000;
+
+export interface TicketStats {
+  total: number;
+  active: number;
+  resolved: number;
+  closed: number;
+  slaBreached: number;
+  slaAtRisk: number;
+  byStatus: Record<string, number>;
+  byPriority: Record<string, number>;
+  byCategory: Record<string, number>;
+  byTag: Record<string, number>;
+}
+
+const toCounts = (items: { _id: string; count: number }[]) =>
+  items.reduce((acc: Record<string, number>, item) => {
+    acc[item._id] = (acc[item._id] || 0) + item.count;
+    return acc;
+  }, {});
+
+async function computeTicketStats(filter: Record<string, unknown>): Promise<TicketStats> {
+  // Tickets in the trash never count towards statistics
+  const baseQuery = { ...filter, deletedAt: null };
+
+  const [
+    statusStats,
+    priorityStats,
+    categoryStats,
+    tagStats,
+    slaBreached,
+    slaAtRisk
+  ] = await Promise.all([
+    Ticket.aggregate([
+      { $match: baseQuery },
+      { $group: { _id: '$status', count: { $sum: 1 } } }
+    ]),
+    Ticket.aggregate([
+      { $match: baseQuery },
+      { $group: { _id: '$priority', count: { $sum: 1 } } }
+    ]),
+    Ticket.aggregate([
+      { $match: baseQuery },
+      { $group: { _id: '$category', count: { $sum: 1 } } }
+    ]),
+    Ticket.aggregate([
+      { $match: baseQuery },
+      { $unwind: '$tags' },
+      { $group: { _id: '$tags', count: { $sum: 1 } } },
+      { $sort: { count: -1, _id: 1 } }
+    ]),
+    Ticket.countDocuments({ $and: [baseQuery, slaBreachedQuery()] }),
+    Ticket.countDocuments({ $and: [baseQuery, slaAtRiskQuery()] })
+  ]);
+
+  // Legacy 'open' tickets count as new
+  const byStatus = toCounts(statusStats.map((item: { _id: string; count: number }) => ({ ...item, _id: normalizeStatus(item._id) })));
+
+  return {
+    total: Object.values(byStatus).reduce((sum, count) => sum + count, 0),
+    active: ACTIVE_STATUSES.reduce((sum, s) => sum + (byStatus[s] || 0), 0),
+    resolved: byStatus.resolved || 0,
+    closed: byStatus.closed || 0,
+    slaBreached,
+    slaAtRisk,
+    byStatus,
+    byPriority: toCounts(priorityStats),
+    byCategory: toCounts(categoryStats),
+    byTag: toCounts(tagStats)
+  };
+}
+
+/**
+ * Ticket statistics for the dashboard: of every ticket for admins, of their own tickets for users.
+ * They are cached per scope and dropped whenever a ticket changes (see the hooks in models/Ticket.ts),
+ * so they're only recomputed after a change or once STATS_MAX_AGE_MS has passed.
+ */
+export async function getTicketStats(user: { id: string; role: string }): Promise<TicketStats> {
+  const isAdmin = user.role === 'admin';
+  const scope = isAdmin ? GLOBAL_STATS_SCOPE : userStatsScope(user.id);
+
+  // Created up front, so an invalidation while computing is seen through its generation
+  const findOrCreate = () => TicketStatsCache.findOneAndUpdate(
+    { scope },
+    { $setOnInsert: { generation: 0, stats: null, computedAt: null } },
+    { new: true, upsert: true }
+  );
+
+  let cached;
+  try {
+    cached = await findOrCreate();
+  } catch (error) {
+    // Another request created the entry at the same time; it exists now
+    if (!isDuplicateKeyError(error)) throw error;
+    cached = await findOrCreate();
+  }
+
+  if (cached.stats && cached.computedAt && Date.now() - cached.computedAt.getTime() < STATS_MAX_AGE_MS) {
+    return cached.stats as TicketStats;
+  }
+
+  const computedAt = new Date();
+  const stats = await computeTicketStats(isAdmin ? {} : { userId: user.id });
+
+  // Only stored if no ticket changed in the meantime
+  await TicketStatsCache.updateOne(
+    { scope, generation: cached.generation },
+    { $set: { stats, computedAt } }
+  );
+
+  return stats;
+}
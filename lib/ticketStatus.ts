@@ -0,0 +1,160 @@
+/**
+ * Ticket lifecycle state machine
+ * Shared by the API (to enforce transitions) and the UI (to offer only valid ones)
+ */
+
+export const TICKET_STATUSES = [
+  'new',
+  'in_progress',
+  'waiting_on_customer',
+  'resolved',
+  'closed',
+  'reopened'
+] as const;
+
+export type TicketStatus = typeof TICKET_STATUSES[number];
+
+// Statuses that still need work from the support team
+export const ACTIVE_STATUSES: TicketStatus[] = ['new', 'in_progress', 'waiting_on_customer', 'reopened'];
+
+export const STATUS_LABELS: Record<TicketStatus, string> = {
+  new: 'New',
+  in_progress: 'In Progress',
+  waiting_on_customer: 'Waiting on Customer',
+  resolved: 'Resolved',
+  closed: 'Closed',
+  reopened: 'Reopened'
+};
+
+// How long after resolution a requester may still reopen their ticket
+export const REOPEN_WINDOW_DAYS = 7;
+
+type Actor = 'staff' | 'requester';
+
+interface TransitionRule {
+  to: TicketStatus;
+  allowed: Actor[];
+  // Requesters may only take this transition within this many days of resolution
+  requesterWindowDays?: number;
+}
+
+/**
+ * Allowed transitions per status. Edit this table to change the lifecycle.
+ */
+export const STATUS_TRANSITIONS: Record<TicketStatus, TransitionRule[]> = {
+  new: [
+    { to: 'in_progress', allowed: ['staff'] },
+    { to: 'waiting_on_customer', allowed: ['staff'] },
+    { to: 'resolved', allowed: ['staff'] },
+    { to: 'closed', allowed: ['staff', 'requester'] }
+  ],
+  in_progress: [
+    { to: 'waiting_on_customer', allowed: ['staff'] },
+    { to: 'resolved', allowed: ['staff'] },
+    { to: 'closed', allowed: ['staff', 'requester'] }
+  ],
+  waiting_on_customer: [
+    { to: 'in_progress', allowed: ['staff'] },
+    { to: 'resolved', allowed: ['staff'] },
+    { to: 'closed', allowed: ['staff', 'requester'] }
+  ],
+  resolved: [
+    { to: 'closed', allowed: ['staff', 'requester'] },
+    { to: 'reopened', allowed: ['staff', 'requester'], requesterWindowDays: REOPEN_WINDOW_DAYS }
+  ],
+  closed: [
+    { to: 'reopened', allowed: ['staff'] }
+  ],
+  reopened: [
+    { to: 'in_progress', allowed: ['staff'] },
+    { to: 'waiting_on_customer', allowed: ['staff'] },
+    { to: 'resolved', allowed: ['staff'] },
+    { to: 'closed', allowed: ['staff', 'requester'] }
+  ]
+};
+
+// Stored by tickets created before the lifecycle was introduced, and read as 'new'
+export const LEGACY_OPEN_STATUS = 'open';
+
+/**
+ * Map legacy statuses stored before the lifecycle was introduced
+ */
+export function normalizeStatus(status: string): TicketStatus {
+  if (status === LEGACY_OPEN_STATUS) return 'new';
+  return (TICKET_STATUSES as readonly string[]).includes(status) ? status as TicketStatus : 'new';
+}
+
+/**
+ * The stored values a query for these statuses has to match: 'new' also matches legacy 'open' tickets
+ * until `npm run migrate:statuses` has rewritten them
+ */
+export function storedStatuses(statuses: readonly string[]): string[] {
+  return statuses.includes('new') ? [...statuses, LEGACY_OPEN_STATUS] : [...statuses];
+}
+
+export function isTicketStatus(value: unknown): value is TicketStatus {
+  return typeof value === 'string' && (TICKET_STATUSES as readonly string[]).includes(value);
+}
+
+interface TransitionContext {
+  status: string;
+  resolvedAt?: Date | string | null;
+  role: string;
+  isOwner: boolean;
+  now?: Date;
+}
+
+function isRuleAllowed(rule: TransitionRule, ctx: TransitionContext): boolean {
+  if (ctx.role === 'admin' && rule.allowed.includes('staff')) {
+    return true;
+  }
+
+  if (!ctx.isOwner || !rule.allowed.includes('requester')) {
+    return false;
+  }
+
+  if (rule.requesterWindowDays !== undefined) {
+    if (!ctx.resolvedAt) return false;
+    const elapsed = (ctx.now ?? new Date()).getTime() - new Date(ctx.resolvedAt).getTime();
+    return elapsed <= rule.requesterWindowDays * 24 * 60 * 60 * 1000;
+  }
+
+  return true;
+}
+
+/**
+ * Get the statuses the given user may move a ticket to
+ */
+export function getAllowedTransitions(ctx: TransitionContext): TicketStatus[] {
+  return STATUS_TRANSITIONS[normalizeStatus(ctx.status)]
+    .filter(rule => isRuleAllowed(rule, ctx))
+    .map(rule => rule.to);
+}
+
+/**
+ * Check a transition, returning an error (with the HTTP status to respond with)
+ * or null when it is allowed
+ */
+export function validateTransition(
+  ctx: TransitionContext,
+  to: TicketStatus
+): { error: string; status: 400 | 403 } | null {
+  const from = normalizeStatus(ctx.status);
+  const rule = STATUS_TRANSITIONS[from].find(r => r.to === to);
+
+  if (!rule) {
+    return { error: `Cannot change status from "${from}" to "${to}"`, status: 400 };
+  }
+
+  if (!isRuleAllowed(rule, ctx)) {
+    if (rule.requesterWindowDays !== undefined && ctx.isOwner && ctx.role !== 'admin') {
+      return {
+        error: `Resolved tickets can only be reopened within ${rule.requesterWindowDays} days`,
+        status: 403
+      };
+    }
+    return { error: `You are not allowed to change status from "${from}" to "${to}"`, status: 403 };
+  }
+
+  return null;
+}
@@ -0,0 +1,349 @@
+import mongoose from 'mongoose';
+import TicketHistory, { ITicketHistory } from '@/models/TicketHistory';
+import TicketRevision from '@/models/TicketRevision';
+import User from '@/models/User';
+import { ITicket } from '@/models/Ticket';
+import { getCategoryFields } from '@/models/CustomField';
+import { getTicketOptions } from '@/models/TicketOption';
+import { MAX_TAGS_PER_TICKET } from './tags';
+import { applySlaTargets } from './sla';
+import { diffWords, summarizeDiff } from './diff';
+import { formatCustomFieldValue, validateCustomFields } from './customFields';
+import { invalidOptionMessage, isSelectableOption } from './ticketOptions';
+import { closeLinkedTickets } from './ticketLinks';
+import { isDuplicateKeyError } from './db';
+import { indexTicket } from './searchIndex';
+import { TicketStatus, normalizeStatus, validateTransition } from './ticketStatus';
+
+interface Actor {
+  id: string;
+  name: string;
+  role: string;
+}
+
+// An already shape-checked update; undefined fields are left alone
+export interface TicketUpdateInput {
+  title?: string;
+  description?: string;
+  status?: TicketStatus;
+  priority?: string;
+  category?: string;
+  assigneeId?: string | null; // null (or empty) unassigns
+  addTags?: string[];
+  removeTags?: string[];
+  customFields?: Record<string, unknown>;
+  knownIssue?: boolean;
+}
+
+export interface TicketChange {
+  field: string;
+  oldValue: string;
+  newValue: string;
+  action?: ITicketHistory['action'];
+  description?: string;
+}
+
+export type TicketUpdateResult =
+  | { changes: TicketChange[]; autoClosed: string[] }
+  | { error: string; status: number };
+
+/**
+ * Short summary of a change for the audit log
+ */
+export function describeChange(change: TicketChange): string {
+  if (change.field === 'knownIssue') {
+    return change.newValue === 'true' ? 'marked as known issue' : 'unmarked as known issue';
+  }
+
+  switch (change.action) {
+    case 'updated': return `edited ${change.field}`;
+    case 'tagged': return `tag +${change.newValue}`;
+    case 'untagged': return `tag -${change.oldValue}`;
+    default: return `${change.field} to ${change.newValue}`;
+  }
+}
+
+/**
+ * Apply an update to a ticket on behalf of a user: checks access and the lifecycle, saves the ticket and
+ * writes a revision and history entries. Nothing is saved when an error is returned.
+ * Used by the single ticket and bulk update APIs, which write their own audit log.
+ */
+export async function applyTicketUpdate(
+  ticket: ITicket,
+  input: TicketUpdateInput,
+  actor: Actor
+): Promise<TicketUpdateResult> {
+  const { title, description, status, priority, category, assigneeId, addTags, removeTags, customFields, knownIssue } = input;
+  const assigneeProvided = assigneeId !== undefined;
+  const tagsProvided = addTags !== undefined || removeTags !== undefined;
+
+  // Access control: requesters may only edit (including custom fields) and change the status of their own tickets,
+  // everything else (priority, category, assignee, tags, known issue) is admin only
+  const isAdmin = actor.role === 'admin';
+  const isOwner = ticket.userId === actor.id;
+  if (!isAdmin && (!isOwner || priority || category || assigneeProvided || tagsProvided || knownIssue !== undefined)) {
+    return { error: 'Forbidden', status: 403 };
+  }
+
+  // The conversation continues on the ticket it was merged into
+  if (ticket.mergedInto) {
+    return { error: 'This ticket was merged into another ticket and can no longer be changed', status: 400 };
+  }
+
+  // Track changes for history
+  const changes: TicketChange[] = [];
+
+  // Remember the text being replaced so it can be kept as a revision
+  const previousText = { title: ticket.title, description: ticket.description };
+
+  for (const [field, value] of [['title', title?.trim()], ['description', description?.trim()]] as const) {
+    if (!value || value === ticket[field]) continue;
+
+    changes.push({
+      field,
+      oldValue: ticket[field],
+      newValue: value,
+      action: 'updated',
+      description: `Edited ${field} (${summarizeDiff(diffWords(ticket[field], value))})`
+    });
+    ticket[field] = value;
+  }
+
+  const currentStatus = normalizeStatus(ticket.status);
+  if (status && status !== currentStatus) {
+    // Enforce the lifecycle state machine
+    const transitionError = validateTransition({
+      status: currentStatus,
+      resolvedAt: ticket.resolvedAt,
+      role: actor.role,
+      isOwner
+    }, status);
+
+    if (transitionError) {
+      return transitionError;
+    }
+
+    changes.push({
+      field: 'status',
+      oldValue: currentStatus,
+      newValue: status
+    });
+    ticket.status = status;
+
+    if (status === 'resolved') {
+      ticket.resolvedAt = new Date();
+    } else if (status === 'closed') {
+      ticket.closedAt = new Date();
+    } else if (status === 'reopened') {
+      ticket.resolvedAt = null;
+      ticket.closedAt = null;
+    }
+  }
+
+  // Only changes are validated, so tickets can keep a priority or category that has since been retired
+  const [priorities, categories] = await Promise.all([
+    priority && priority !== ticket.priority ? getTicketOptions('priority') : [],
+    category && category !== ticket.category ? getTicketOptions('category') : []
+  ]);
+
+  if (priority && priority !== ticket.priority) {
+    if (!isSelectableOption(priorities, priority)) {
+      return { error: invalidOptionMessage('priority', priorities), status: 400 };
+    }
+
+    changes.push({
+      field: 'priority',
+      oldValue: ticket.priority,
+      newValue: priority
+    });
+    ticket.priority = priority;
+  }
+
+  if (category && category !== ticket.category) {
+    if (!isSelectableOption(categories, category)) {
+      return { error: invalidOptionMessage('category', categories), status: 400 };
+    }
+
+    changes.push({
+      field: 'category',
+      oldValue: ticket.category,
+      newValue: category
+    });
+    ticket.category = category;
+  }
+
+  if (assigneeProvided && (assigneeId || null) !== (ticket.assigneeId || null)) {
+    let assigneeName: string | null = null;
+
+    if (assigneeId) {
+      // Tickets can only be assigned to staff
+      const assignee = mongoose.isValidObjectId(assigneeId) ? await User.findById(assigneeId) : null;
+      if (!assignee || assignee.role !== 'admin') {
+        return { error: 'Assignee must be an existing admin user', status: 400 };
+      }
+      assigneeName = assignee.name;
+    }
+
+    changes.push({
+      field: 'assignee',
+      oldValue: ticket.assigneeName || 'Unassigned',
+      newValue: assigneeName || 'Unassigned',
+      action: 'assigned',
+      description: assigneeId === actor.id
+        ? 'Claimed ticket'
+        : assigneeId
+          ? `Assigned ticket to ${assigneeName}`
+          : `Unassigned ticket from ${ticket.assigneeName}`
+    });
+    ticket.assigneeId = assigneeId || null;
+    ticket.assigneeName = assigneeName;
+  }
+
+  // Values are checked against the fields of the (possibly new) category, dropping any it doesn't define
+  const categoryChanged = changes.some(c => c.field === 'category');
+  if (customFields !== undefined || categoryChanged) {
+    const fields = await getCategoryFields(ticket.category);
+    const current: Record<string, unknown> = ticket.customFields || {};
+    // Only what was sent has to be complete; a category change alone must not fail on new required fields
+    const result = validateCustomFields(fields, { ...current, ...customFields }, customFields !== undefined);
+
+    if ('error' in result) {
+      return { error: result.error, status: 400 };
+    }
+
+    for (const field of fields) {
+      const oldValue = current[field.key] ?? '';
+      const newValue = result.values[field.key] ?? '';
+      if (oldValue === newValue) continue;
+
+      changes.push({
+        field: `customFields.${field.key}`,
+        oldValue: String(oldValue),
+        newValue: String(newValue),
+        action: 'updated',
+        description: `Changed ${field.label} from "${formatCustomFieldValue(field, oldValue)}" to "${formatCustomFieldValue(field, newValue)}"`
+      });
+    }
+
+    if (categoryChanged || changes.some(c => c.field.startsWith('customFields.'))) {
+      ticket.customFields = result.values;
+      ticket.markModified('customFields');
+    }
+  }
+
+  if (tagsProvided) {
+    const added = (addTags || []).filter(tag => !ticket.tags.includes(tag));
+    const removed = (removeTags || []).filter(tag => ticket.tags.includes(tag));
+    const tags = [...ticket.tags.filter(tag => !removed.includes(tag)), ...added];
+
+    if (tags.length > MAX_TAGS_PER_TICKET) {
+      return { error: `A ticket can have at most ${MAX_TAGS_PER_TICKET} tags`, status: 400 };
+    }
+
+    for (const tag of added) {
+      changes.push({ field: 'tags', oldValue: '', newValue: tag, action: 'tagged', description: `Added tag "${tag}"` });
+    }
+    for (const tag of removed) {
+      changes.push({ field: 'tags', oldValue: tag, newValue: '', action: 'untagged', description: `Removed tag "${tag}"` });
+    }
+    ticket.tags = tags;
+  }
+
+  if (knownIssue !== undefined && knownIssue !== ticket.knownIssue) {
+    changes.push({
+      field: 'knownIssue',
+      oldValue: String(ticket.knownIssue),
+      newValue: String(knownIssue),
+      action: 'updated',
+      description: knownIssue ? 'Marked as a known issue, visible to all users' : 'No longer a known issue'
+    });
+    ticket.knownIssue = knownIssue;
+  }
+
+  // Numbers of linked tickets closed along with this one
+  let autoClosed: string[] = [];
+
+  if (changes.length === 0) {
+    return { changes, autoClosed };
+  }
+
+  // Priority and category decide the SLA targets, so re-derive the due times
+  if (changes.some(c => c.field === 'priority' || c.field === 'category')) {
+    await applySlaTargets(ticket);
+  }
+
+  await ticket.save();
+
+  if (changes.some(c => c.field === 'title' || c.field === 'description')) {
+    await indexTicket(ticket._id.toString());
+
+    await createRevision(ticket._id.toString(), previousText, actor);
+  }
+
+  // Create history entries for each change
+  for (const change of changes) {
+    const history = new TicketHistory({
+      ticketId: ticket._id.toString(),
+      userId: actor.id,
+      userName: actor.name,
+      userRole: actor.role,
+      action: change.action || `${change.field}_changed` as 'status_changed' | 'priority_changed' | 'category_changed',
+      field: change.field,
+      oldValue: change.oldValue,
+      newValue: change.newValue,
+      description: change.description || `Changed ${change.field} from "${change.oldValue}" to "${change.newValue}"`
+    });
+    await history.save();
+  }
+
+  // Children and duplicates linked with auto-close follow the ticket when it is closed
+  if (changes.some(c => c.field === 'status' && c.newValue === 'closed')) {
+    autoClosed = await closeLinkedTickets(ticket, actor);
+  }
+
+  return { changes, autoClosed };
+}
+
+// Concurrent edits of one ticket may pick the same revision number; the unique index lets one win, the other retries
+const MAX_REVISION_ATTEMPTS = 5;
+
+/**
+ * Keep the text a ticket had before an edit as its next revision
+ */
+async function createRevision(ticketId: string, previousText: { title: string; description: string }, actor: Actor): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    const latest = await TicketRevision.findOne({ ticketId }).sort({ revision: -1 }).select('revision');
+    try {
+      await TicketRevision.create({
+        ticketId,
+        revision: (latest?.revision ?? 0) + 1,
+        ...previousText,
+        editedBy: actor.id,
+        editedByName: actor.name
+      });
+      return;
+    } catch (error) {
+      if (!isDuplicateKeyError(error) || attempt === MAX_REVISION_ATTEMPTS) throw error;
+    }
+  }
+}
+
+/**
+ * Move a ticket to the trash on behalf of a user, recording it in the ticket's history.
+ * Admins can restore or purge it from there.
+ */
+export async function moveTicketToTrash(ticket: ITicket, actor: Actor): Promise<void> {
+  ticket.deletedAt = new Date();
+  ticket.deletedBy = actor.id;
+  ticket.deletedByName = actor.name;
+  await ticket.save();
+
+  await TicketHistory.create({
+    ticketId: ticket._id.toString(),
+    userId: actor.id,
+    userName: actor.name,
+    userRole: actor.role,
+    action: 'deleted',
+    description: 'Moved ticket to trash'
+  });
+}
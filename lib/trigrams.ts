@@ -0,0 +1,103 @@
+/**
+ * Trigram matching for the fuzzy search index, e.g. "pay" finds "payment" and "invoce" finds "invoice"
+ * Used by the search index (to break text into words and trigrams) and by searches (to match words against it)
+ */
+
+// Shorter words are too common to index, longer ones are almost always noise (hashes, URLs)
+export const MIN_WORD_LENGTH = 2;
+export const MAX_WORD_LENGTH = 30;
+
+// Search words shorter than this only match as exact words or prefixes, never with typos
+export const MIN_FUZZY_LENGTH = 4;
+
+// Words (only letters and digits) are padded at the start only, so every trigram of a prefix is also a trigram of the whole word
+const PADDING = '__';
+
+/**
+ * Break text into its distinct lowercase words, with accents removed
+ */
+export function tokenize(text: string): string[] {
+  const words = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length >= MIN_WORD_LENGTH && word.length <= MAX_WORD_LENGTH);
+
+  return [...new Set(words)];
+}
+
+/**
+ * The distinct trigrams of a word, e.g. "pay" -> ["__p", "_pa", "pay"]
+ */
+export function getTrigrams(word: string): string[] {
+  const padded = `${PADDING}${word}`;
+  const trigrams = new Set<string>();
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    trigrams.add(padded.slice(i, i + 3));
+  }
+  return [...trigrams];
+}
+
+/**
+ * Typos tolerated in a search word: none for short words, one up to 7 letters, two beyond
+ */
+export function getAllowedTypos(word: string): number {
+  if (word.length < MIN_FUZZY_LENGTH) return 0;
+  return word.length <= 7 ? 1 : 2;
+}
+
+/**
+ * Trigrams a candidate must share with a search word to be worth checking.
+ * One typo changes at most four trigrams (a swap of two letters), so anything sharing fewer can't match.
+ */
+export function getMinSharedTrigrams(word: string): number {
+  return Math.max(1, getTrigrams(word).length - 4 * getAllowedTypos(word));
+}
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and swaps of neighbouring letters,
+ * giving up (returning max + 1) as soon as it exceeds `max`
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let twoBack: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, twoBack[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > max) return max + 1;
+    twoBack = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * How well an indexed word matches a search word, from 1 (the same word) down to 0 (no match).
+ * Prefixes score below exact words, and typos below prefixes.
+ */
+export function scoreWordMatch(search: string, indexed: string): number {
+  if (indexed === search) return 1;
+  if (indexed.startsWith(search)) return 0.75;
+
+  const allowed = getAllowedTypos(search);
+  if (allowed === 0) return 0;
+
+  const distance = editDistance(search, indexed, allowed);
+  return distance <= allowed ? 0.5 / distance : 0;
+}
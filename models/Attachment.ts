@@ -0,0 +1,74 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IAttachment extends Document {
+  _id: string;
+  ticketId: string;
+  commentId?: string | null; // null for files attached to the ticket itself
+  filename: string;
+  contentType: string;
+  size: number; // bytes
+  storageKey: string; // location in the storage backend
+  uploadedBy: string;
+  uploadedByName: string;
+  visibility: 'public' | 'internal'; // follows the comment it is attached to
+  createdAt: Date;
+}
+
+const AttachmentSchema = new Schema<IAttachment>({
+  ticketId: {
+    type: String,
+    required: [true, 'Ticket ID is required'],
+    ref: 'Ticket'
+  },
+  commentId: {
+    type: String,
+    ref: 'Comment',
+    default: null
+  },
+  filename: {
+    type: String,
+    required: [true, 'Filename is required'],
+    trim: true,
+    maxlength: [255, 'Filename cannot exceed 255 characters']
+  },
+  contentType: {
+    type: String,
+    required: [true, 'Content type is required']
+  },
+  size: {
+    type: Number,
+    required: [true, 'Size is required'],
+    min: 0
+  },
+  storageKey: {
+    type: String,
+    required: [true, 'Storage key is required'],
+    unique: true
+  },
+  uploadedBy: {
+    type: String,
+    required: [true, 'Uploader is required'],
+    ref: 'User'
+  },
+  uploadedByName: {
+    type: String,
+    required: [true, 'Uploader name is required'],
+    trim: true
+  },
+  visibility: {
+    type: String,
+    enum: ['public', 'internal'],
+    default: 'public'
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Index for efficient queries
+AttachmentSchema.index({ ticketId: 1, createdAt: 1 });
+AttachmentSchema.index({ commentId: 1 });
+
+// Prevent re-compilation during development
+const Attachment = mongoose.models.Attachment || mongoose.model<IAttachment>('Attachment', AttachmentSchema);
+
+export default Attachment;
@@ -27,8 +27,10 @@ const AuditLogSchema = new Schema<IAuditLog>({
       'create_ticket',
       'update_ticket',
       'delete_ticket',
+      'merge_tickets',
       'view_tickets',
-      'view_audit_logs'
+      'view_audit_logs',
+      'update_settings'
     ]
   },
   when: {
@@ -55,7 +57,7 @@ const AuditLogSchema = new Schema<IAuditLog>({
 });
 
 // Index for efficient queries
-AuditLogSchema.index({ when: -1 });
+AuditLogSchema.index({ when: -1, _id: -1 }); // Cursor pagination, see lib/pagination.ts
 AuditLogSchema.index({ who: 1 });
 AuditLogSchema.index({ what: 1 });
 
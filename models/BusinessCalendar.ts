@@ -0,0 +1,90 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IWorkingHours {
+  day: number; // 0 = Sunday ... 6 = Saturday
+  start: string; // HH:MM, local to the calendar's timezone
+  end: string; // HH:MM, local to the calendar's timezone
+}
+
+export interface IHoliday {
+  date: string; // YYYY-MM-DD, local to the calendar's timezone
+  name: string;
+}
+
+export interface IBusinessCalendar extends Document {
+  _id: string;
+  name: string;
+  timezone: string; // IANA timezone, e.g. America/New_York
+  workingHours: IWorkingHours[];
+  holidays: IHoliday[];
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const WorkingHoursSchema = new Schema<IWorkingHours>({
+  day: {
+    type: Number,
+    required: [true, 'Day is required'],
+    min: [0, 'Day must be between 0 and 6'],
+    max: [6, 'Day must be between 0 and 6']
+  },
+  start: {
+    type: String,
+    required: [true, 'Start time is required'],
+    match: [timePattern, 'Start time must be in HH:MM format']
+  },
+  end: {
+    type: String,
+    required: [true, 'End time is required'],
+    match: [timePattern, 'End time must be in HH:MM format']
+  }
+}, { _id: false });
+
+const HolidaySchema = new Schema<IHoliday>({
+  date: {
+    type: String,
+    required: [true, 'Holiday date is required'],
+    match: [/^\d{4}-\d{2}-\d{2}$/, 'Holiday date must be in YYYY-MM-DD format']
+  },
+  name: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Holiday name cannot exceed 100 characters']
+  }
+}, { _id: false });
+
+const BusinessCalendarSchema = new Schema<IBusinessCalendar>({
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true,
+    maxlength: [100, 'Name cannot exceed 100 characters']
+  },
+  timezone: {
+    type: String,
+    required: [true, 'Timezone is required'],
+    trim: true
+  },
+  workingHours: {
+    type: [WorkingHoursSchema],
+    default: []
+  },
+  holidays: {
+    type: [HolidaySchema],
+    default: []
+  },
+  active: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+
+// Prevent re-compilation during development
+const BusinessCalendar = mongoose.models.BusinessCalendar || mongoose.model<IBusinessCalendar>('BusinessCalendar', BusinessCalendarSchema);
+
+export default BusinessCalendar;
@@ -1,5 +1,8 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+// Internal notes are only visible to staff
+export type CommentVisibility = 'public' | 'internal';
+
 export interface IComment extends Document {
   _id: string;
   ticketId: string;
@@ -7,6 +10,8 @@ export interface IComment extends Document {
   userName: string;
   userRole: string;
   content: string;
+  visibility: CommentVisibility;
+  splitInto?: number | null; // number of the ticket this comment was split into
   createdAt: Date;
   updatedAt: Date;
 }
@@ -37,6 +42,15 @@ const CommentSchema = new Schema<IComment>({
     required: [true, 'Comment content is required'],
     trim: true,
     maxlength: [1000, 'Comment cannot exceed 1000 characters']
+  },
+  visibility: {
+    type: String,
+    enum: ['public', 'internal'],
+    default: 'public'
+  },
+  splitInto: {
+    type: Number,
+    default: null
   }
 }, {
   timestamps: true
@@ -45,6 +59,7 @@ const CommentSchema = new Schema<IComment>({
 // Index for efficient queries
 CommentSchema.index({ ticketId: 1, createdAt: -1 });
 CommentSchema.index({ userId: 1 });
+CommentSchema.index({ content: 'text' }); // Text search index, see lib/ticketSearch.ts
 
 // Prevent re-compilation during development
 const Comment = mongoose.models.Comment || mongoose.model<IComment>('Comment', CommentSchema);
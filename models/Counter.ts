@@ -0,0 +1,34 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ICounter extends Document<string> {
+  _id: string; // name of the sequence, e.g. "ticketNumber"
+  seq: number;
+}
+
+const CounterSchema = new Schema<ICounter>({
+  _id: {
+    type: String,
+    required: true
+  },
+  seq: {
+    type: Number,
+    default: 0
+  }
+});
+
+// Prevent re-compilation during development
+const Counter = mongoose.models.Counter || mongoose.model<ICounter>('Counter', CounterSchema);
+
+/**
+ * Atomically increment a named sequence and return the new value (the first value is 1)
+ */
+export async function getNextSequence(name: string): Promise<number> {
+  const counter = await Counter.findOneAndUpdate(
+    { _id: name },
+    { $inc: { seq: 1 } },
+    { new: true, upsert: true }
+  );
+  return counter.seq;
+}
+
+export default Counter;
@@ -0,0 +1,71 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { CUSTOM_FIELD_TYPES, CustomFieldDefinition, CustomFieldType } from '../lib/customFields';
+
+export interface ICustomField extends Document {
+  _id: string;
+  key: string; // stored as customFields.<key> on tickets
+  label: string;
+  type: CustomFieldType;
+  category: string; // a category value, see models/TicketOption.ts
+  options: string[]; // choices for select fields
+  required: boolean;
+  sortOrder: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CustomFieldSchema = new Schema<ICustomField>({
+  key: {
+    type: String,
+    required: [true, 'Key is required'],
+    trim: true,
+    match: [/^[a-z][a-z0-9_]{0,49}$/, 'Key must start with a letter and contain only lowercase letters, numbers and underscores']
+  },
+  label: {
+    type: String,
+    required: [true, 'Label is required'],
+    trim: true,
+    maxlength: [100, 'Label cannot exceed 100 characters']
+  },
+  type: {
+    type: String,
+    required: [true, 'Type is required'],
+    enum: [...CUSTOM_FIELD_TYPES]
+  },
+  category: {
+    type: String,
+    required: [true, 'Category is required']
+  },
+  options: {
+    type: [String],
+    default: []
+  },
+  required: {
+    type: Boolean,
+    default: false
+  },
+  sortOrder: {
+    type: Number,
+    default: 0
+  }
+}, {
+  timestamps: true
+});
+
+// A key can only be used once per category
+CustomFieldSchema.index({ category: 1, key: 1 }, { unique: true });
+
+// Prevent re-compilation during development
+const CustomField = mongoose.models.CustomField || mongoose.model<ICustomField>('CustomField', CustomFieldSchema);
+
+/**
+ * Load the custom fields defined for a category, in display order
+ */
+export async function getCategoryFields(category: string): Promise<CustomFieldDefinition[]> {
+  return CustomField.find({ category })
+    .sort({ sortOrder: 1, label: 1 })
+    .select('key label type category options required')
+    .lean<CustomFieldDefinition[]>();
+}
+
+export default CustomField;
@@ -0,0 +1,52 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { MAX_VIEW_NAME_LENGTH, MAX_VIEW_QUERY_LENGTH } from '../lib/savedViews';
+
+export interface ISavedView extends Document {
+  _id: string;
+  name: string;
+  query: string; // dashboard filters as a query string, see lib/savedViews.ts
+  ownerId: string;
+  ownerName: string;
+  shared: boolean; // shared views are offered to every admin
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SavedViewSchema = new Schema<ISavedView>({
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true,
+    maxlength: [MAX_VIEW_NAME_LENGTH, `Name cannot exceed ${MAX_VIEW_NAME_LENGTH} characters`]
+  },
+  query: {
+    type: String,
+    default: '',
+    maxlength: [MAX_VIEW_QUERY_LENGTH, `Query cannot exceed ${MAX_VIEW_QUERY_LENGTH} characters`]
+  },
+  ownerId: {
+    type: String,
+    required: [true, 'Owner is required'],
+    ref: 'User'
+  },
+  ownerName: {
+    type: String,
+    required: [true, 'Owner name is required'],
+    trim: true
+  },
+  shared: {
+    type: Boolean,
+    default: false
+  }
+}, {
+  timestamps: true
+});
+
+// View names are unique per owner
+SavedViewSchema.index({ ownerId: 1, name: 1 }, { unique: true });
+SavedViewSchema.index({ shared: 1 });
+
+// Prevent re-compilation during development
+const SavedView = mongoose.models.SavedView || mongoose.model<ISavedView>('SavedView', SavedViewSchema);
+
+export default SavedView;
@@ -0,0 +1,49 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// The words of one ticket (title, description and comments) with their trigrams, see lib/searchIndex.ts
+export interface ISearchIndex extends Document {
+  ticketId: string;
+  words: string[];
+  trigrams: string[];
+  // Words only found in internal notes, which only staff searches can match
+  internalWords: string[];
+  internalTrigrams: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SearchIndexSchema = new Schema<ISearchIndex>({
+  ticketId: {
+    type: String,
+    required: [true, 'Ticket ID is required'],
+    ref: 'Ticket'
+  },
+  words: {
+    type: [String],
+    default: []
+  },
+  trigrams: {
+    type: [String],
+    default: []
+  },
+  internalWords: {
+    type: [String],
+    default: []
+  },
+  internalTrigrams: {
+    type: [String],
+    default: []
+  }
+}, {
+  timestamps: true
+});
+
+// Index for efficient queries
+SearchIndexSchema.index({ ticketId: 1 }, { unique: true });
+SearchIndexSchema.index({ trigrams: 1 });
+SearchIndexSchema.index({ internalTrigrams: 1 });
+
+// Prevent re-compilation during development
+const SearchIndex = mongoose.models.SearchIndex || mongoose.model<ISearchIndex>('SearchIndex', SearchIndexSchema);
+
+export default SearchIndex;
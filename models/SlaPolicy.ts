@@ -0,0 +1,49 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ISlaPolicy extends Document {
+  _id: string;
+  name: string;
+  priority: string; // a priority value, see models/TicketOption.ts
+  category?: string | null; // a category value, null applies to every category
+  firstResponseMinutes: number;
+  resolutionMinutes: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SlaPolicySchema = new Schema<ISlaPolicy>({
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true,
+    maxlength: [100, 'Name cannot exceed 100 characters']
+  },
+  priority: {
+    type: String,
+    required: [true, 'Priority is required']
+  },
+  category: {
+    type: String,
+    default: null
+  },
+  firstResponseMinutes: {
+    type: Number,
+    required: [true, 'First response target is required'],
+    min: [1, 'First response target must be at least 1 minute']
+  },
+  resolutionMinutes: {
+    type: Number,
+    required: [true, 'Resolution target is required'],
+    min: [1, 'Resolution target must be at least 1 minute']
+  }
+}, {
+  timestamps: true
+});
+
+// One policy per priority/category combination
+SlaPolicySchema.index({ priority: 1, category: 1 }, { unique: true });
+
+// Prevent re-compilation during development
+const SlaPolicy = mongoose.models.SlaPolicy || mongoose.model<ISlaPolicy>('SlaPolicy', SlaPolicySchema);
+
+export default SlaPolicy;
@@ -0,0 +1,38 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ITag extends Document {
+  _id: string;
+  name: string; // normalized, see lib/tags.ts
+  color: string; // hex, e.g. #2563eb
+  description?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TagSchema = new Schema<ITag>({
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    unique: true,
+    trim: true,
+    lowercase: true,
+    maxlength: [50, 'Name cannot exceed 50 characters']
+  },
+  color: {
+    type: String,
+    required: [true, 'Color is required'],
+    match: [/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value such as #2563eb']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Description cannot exceed 200 characters']
+  }
+}, {
+  timestamps: true
+});
+
+// Prevent re-compilation during development
+const Tag = mongoose.models.Tag || mongoose.model<ITag>('Tag', TagSchema);
+
+export default Tag;
@@ -1,18 +1,45 @@
-import mongoose, { Document, Schema } from 'mongoose';
+import mongoose, { Document, PipelineStage, Schema } from 'mongoose';
+import { LEGACY_OPEN_STATUS, TICKET_STATUSES, TicketStatus } from '../lib/ticketStatus';
+import { TICKET_NUMBER_SEQUENCE } from '../lib/ticketNumber';
+import { CustomFieldValue } from '../lib/customFields';
+import { getNextSequence } from './Counter';
+import { invalidateTicketStats } from './TicketStatsCache';
 
 export interface ITicket extends Document {
   _id: string;
+  number?: number; // sequential ticket number, displayed as e.g. SUP-1042
   title: string;
   description: string;
-  status: 'open' | 'closed';
-  priority: 'low' | 'medium' | 'high' | 'urgent';
-  category: 'technical' | 'billing' | 'general' | 'feature_request' | 'bug_report';
+  status: TicketStatus;
+  priority: string; // a priority value, see models/TicketOption.ts
+  category: string; // a category value, see models/TicketOption.ts
   userId: string;
+  assigneeId?: string | null;
+  assigneeName?: string | null;
+  tags: string[];
+  customFields?: Record<string, CustomFieldValue>; // values for the category's custom fields, by key
+  resolvedAt?: Date | null;
+  closedAt?: Date | null;
+  firstResponseDueAt?: Date | null;
+  firstResponseAtRiskAt?: Date | null;
+  resolutionDueAt?: Date | null;
+  resolutionAtRiskAt?: Date | null;
+  firstRespondedAt?: Date | null;
+  deletedAt?: Date | null; // set while the ticket is in the trash
+  deletedBy?: string | null;
+  deletedByName?: string | null;
+  mergedInto?: string | null; // set on the closed stub left behind when a ticket is merged into another
+  mergedAt?: Date | null;
+  knownIssue: boolean; // known issues can be read by every user, and are suggested when creating similar tickets
   createdAt: Date;
   updatedAt: Date;
 }
 
 const TicketSchema = new Schema<ITicket>({
+  number: {
+    type: Number,
+    min: 1
+  },
   title: {
     type: String,
     required: [true, 'Title is required'],
@@ -27,37 +54,174 @@ const TicketSchema = new Schema<ITicket>({
   },
   status: {
     type: String,
-    enum: ['open', 'closed'],
-    default: 'open'
+    enum: [...TICKET_STATUSES],
+    default: 'new'
   },
+  // Priorities and categories are admin-configurable, so the API validates them against the options
   priority: {
     type: String,
-    enum: ['low', 'medium', 'high', 'urgent'],
     default: 'medium'
   },
   category: {
     type: String,
-    enum: ['technical', 'billing', 'general', 'feature_request', 'bug_report'],
     default: 'general'
   },
   userId: {
     type: String,
     required: [true, 'User ID is required'],
     ref: 'User'
+  },
+  assigneeId: {
+    type: String,
+    ref: 'User',
+    default: null
+  },
+  assigneeName: {
+    type: String,
+    trim: true,
+    default: null
+  },
+  tags: {
+    type: [String],
+    default: []
+  },
+  customFields: {
+    type: Schema.Types.Mixed,
+    default: {}
+  },
+  resolvedAt: {
+    type: Date,
+    default: null
+  },
+  closedAt: {
+    type: Date,
+    default: null
+  },
+  firstResponseDueAt: {
+    type: Date,
+    default: null
+  },
+  firstResponseAtRiskAt: {
+    type: Date,
+    default: null
+  },
+  resolutionDueAt: {
+    type: Date,
+    default: null
+  },
+  resolutionAtRiskAt: {
+    type: Date,
+    default: null
+  },
+  firstRespondedAt: {
+    type: Date,
+    default: null
+  },
+  deletedAt: {
+    type: Date,
+    default: null
+  },
+  deletedBy: {
+    type: String,
+    ref: 'User',
+    default: null
+  },
+  deletedByName: {
+    type: String,
+    trim: true,
+    default: null
+  },
+  mergedInto: {
+    type: String,
+    ref: 'Ticket',
+    default: null
+  },
+  mergedAt: {
+    type: Date,
+    default: null
+  },
+  knownIssue: {
+    type: Boolean,
+    default: false
   }
 }, {
   timestamps: true
 });
 
+// Tickets created before the lifecycle was introduced were stored as 'open', see scripts/migrate-legacy-statuses.ts
+TicketSchema.pre('validate', function (next) {
+  if ((this.status as string) === LEGACY_OPEN_STATUS) {
+    this.status = 'new';
+  }
+  next();
+});
+
+// Number new tickets from an atomic counter so concurrent creates never share a number
+TicketSchema.pre('save', async function () {
+  if (this.isNew && this.number == null) {
+    this.number = await getNextSequence(TICKET_NUMBER_SEQUENCE);
+  }
+});
+
+// Cached statistics (see lib/ticketStats.ts) are dropped on every change to tickets
+TicketSchema.post('save', async function (ticket: ITicket) {
+  await invalidateTicketStats(ticket.userId);
+});
+
+TicketSchema.post('findOneAndDelete', async function (ticket: ITicket | null) {
+  if (ticket) {
+    await invalidateTicketStats(ticket.userId);
+  }
+});
+
+// Bulk writes may touch anyone's tickets
+TicketSchema.post(['updateOne', 'updateMany', 'deleteOne', 'deleteMany', 'findOneAndUpdate'], async function () {
+  await invalidateTicketStats();
+});
+
+TicketSchema.post('insertMany', async function () {
+  await invalidateTicketStats();
+});
+
 // Index for efficient queries by user
 TicketSchema.index({ userId: 1 });
+TicketSchema.index({ number: 1 }, { unique: true, sparse: true });
+TicketSchema.index({ assigneeId: 1 });
 TicketSchema.index({ status: 1 });
 TicketSchema.index({ priority: 1 });
 TicketSchema.index({ category: 1 });
-TicketSchema.index({ createdAt: -1 });
+TicketSchema.index({ tags: 1 });
+TicketSchema.index({ createdAt: -1, _id: -1 }); // Cursor pagination, see lib/pagination.ts
+TicketSchema.index({ resolutionDueAt: 1 });
+TicketSchema.index({ deletedAt: 1 });
+TicketSchema.index({ knownIssue: 1 });
 TicketSchema.index({ title: 'text', description: 'text' }); // Text search index
 
 // Prevent re-compilation during development
 const Ticket = mongoose.models.Ticket || mongoose.model<ITicket>('Ticket', TicketSchema);
 
+/**
+ * Aggregation stages for collections that refer to tickets (e.g. comments) keeping only the documents
+ * whose ticket matches `query`, so that limits further down the pipeline only count those
+ */
+export function matchingTicketStages(query: Record<string, unknown>, ticketIdField: string): PipelineStage[] {
+  return [
+    {
+      $lookup: {
+        from: Ticket.collection.name,
+        let: { ticketId: { $convert: { input: `$${ticketIdField}`, to: 'objectId', onError: null, onNull: null } } },
+        pipeline: [
+          { $match: { $expr: { $eq: ['$_id', '$$ticketId'] } } },
+          // Aggregations skip the schema, so the query is cast the way find() would
+          { $match: Ticket.find().cast(Ticket, query) },
+          { $project: { _id: 1 } }
+        ],
+        as: 'matchingTicket'
+      }
+    },
+    { $match: { matchingTicket: { $ne: [] } } },
+    { $unset: 'matchingTicket' }
+  ];
+}
+
 export default Ticket;
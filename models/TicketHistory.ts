@@ -6,11 +6,13 @@ export interface ITicketHistory extends Document {
   userId: string;
   userName: string;
   userRole: string;
-  action: 'created' | 'updated' | 'status_changed' | 'priority_changed' | 'category_changed' | 'commented';
+  action: 'created' | 'updated' | 'status_changed' | 'priority_changed' | 'category_changed' | 'assigned' | 'commented' | 'deleted' | 'restored' | 'tagged' | 'untagged' | 'linked' | 'unlinked' | 'merged' | 'split';
   field?: string;
   oldValue?: string;
   newValue?: string;
   description: string;
+  visibility: 'public' | 'internal'; // internal entries are only shown to staff
+  mergedFrom?: number | null; // number of the ticket this entry was recorded on before a merge
   createdAt: Date;
 }
 
@@ -38,7 +40,7 @@ const TicketHistorySchema = new Schema<ITicketHistory>({
   action: {
     type: String,
     required: [true, 'Action is required'],
-    enum: ['created', 'updated', 'status_changed', 'priority_changed', 'category_changed', 'commented']
+    enum: ['created', 'updated', 'status_changed', 'priority_changed', 'category_changed', 'assigned', 'commented', 'deleted', 'restored', 'tagged', 'untagged', 'linked', 'unlinked', 'merged', 'split']
   },
   field: {
     type: String,
@@ -57,6 +59,15 @@ const TicketHistorySchema = new Schema<ITicketHistory>({
     required: [true, 'Description is required'],
     trim: true,
     maxlength: [500, 'Description cannot exceed 500 characters']
+  },
+  visibility: {
+    type: String,
+    enum: ['public', 'internal'],
+    default: 'public'
+  },
+  mergedFrom: {
+    type: Number,
+    default: null
   }
 }, {
   timestamps: { createdAt: true, updatedAt: false }
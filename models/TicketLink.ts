@@ -0,0 +1,56 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { TICKET_LINK_TYPES, TicketLinkType } from '../lib/ticketLinkRules';
+
+export interface ITicketLink extends Document {
+  _id: string;
+  sourceId: string;
+  targetId: string;
+  type: TicketLinkType; // read as "source <type> target", see lib/ticketLinkRules.ts
+  autoClose: boolean; // close the child/duplicate when its parent/original is closed
+  createdBy: string;
+  createdByName: string;
+  createdAt: Date;
+}
+
+const TicketLinkSchema = new Schema<ITicketLink>({
+  sourceId: {
+    type: String,
+    required: [true, 'Source ticket ID is required'],
+    ref: 'Ticket'
+  },
+  targetId: {
+    type: String,
+    required: [true, 'Target ticket ID is required'],
+    ref: 'Ticket'
+  },
+  type: {
+    type: String,
+    required: [true, 'Link type is required'],
+    enum: [...TICKET_LINK_TYPES]
+  },
+  autoClose: {
+    type: Boolean,
+    default: false
+  },
+  createdBy: {
+    type: String,
+    required: [true, 'Creator is required'],
+    ref: 'User'
+  },
+  createdByName: {
+    type: String,
+    required: [true, 'Creator name is required'],
+    trim: true
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// A pair of tickets can only be linked once
+TicketLinkSchema.index({ sourceId: 1, targetId: 1 }, { unique: true });
+TicketLinkSchema.index({ targetId: 1 });
+
+// Prevent re-compilation during development
+const TicketLink = mongoose.models.TicketLink || mongoose.model<ITicketLink>('TicketLink', TicketLinkSchema);
+
+export default TicketLink;
@@ -0,0 +1,95 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import {
+  DEFAULT_CATEGORIES,
+  DEFAULT_PRIORITIES,
+  MAX_OPTION_LABEL_LENGTH,
+  TICKET_OPTION_KINDS,
+  TicketOption as TicketOptionFields,
+  TicketOptionKind
+} from '../lib/ticketOptions';
+
+export interface ITicketOption extends Document {
+  _id: string;
+  kind: TicketOptionKind;
+  value: string; // stored on tickets as their priority or category
+  label: string;
+  color: string; // hex, e.g. #2563eb
+  sortOrder: number;
+  retired: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TicketOptionSchema = new Schema<ITicketOption>({
+  kind: {
+    type: String,
+    required: [true, 'Kind is required'],
+    enum: [...TICKET_OPTION_KINDS]
+  },
+  value: {
+    type: String,
+    required: [true, 'Value is required'],
+    trim: true,
+    match: [/^[a-z][a-z0-9_]{0,49}$/, 'Value must start with a letter and contain only lowercase letters, numbers and underscores']
+  },
+  label: {
+    type: String,
+    required: [true, 'Label is required'],
+    trim: true,
+    maxlength: [MAX_OPTION_LABEL_LENGTH, `Label cannot exceed ${MAX_OPTION_LABEL_LENGTH} characters`]
+  },
+  color: {
+    type: String,
+    required: [true, 'Color is required'],
+    match: [/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value such as #2563eb']
+  },
+  sortOrder: {
+    type: Number,
+    default: 0
+  },
+  retired: {
+    type: Boolean,
+    default: false
+  }
+}, {
+  timestamps: true
+});
+
+// A value can only be used once per kind
+TicketOptionSchema.index({ kind: 1, value: 1 }, { unique: true });
+
+// Prevent re-compilation during development
+const TicketOption = mongoose.models.TicketOption || mongoose.model<ITicketOption>('TicketOption', TicketOptionSchema);
+
+const DEFAULT_OPTIONS: Record<TicketOptionKind, typeof DEFAULT_PRIORITIES> = {
+  priority: DEFAULT_PRIORITIES,
+  category: DEFAULT_CATEGORIES
+};
+
+/**
+ * Load the options of a kind (including retired ones) in display order.
+ * The built-in defaults are stored the first time a kind is loaded, so existing tickets keep working.
+ */
+export async function getTicketOptions(kind: TicketOptionKind): Promise<TicketOptionFields[]> {
+  const options = await TicketOption.find({ kind })
+    .sort({ sortOrder: 1, label: 1 })
+    .select('kind value label color sortOrder retired')
+    .lean<TicketOptionFields[]>();
+
+  if (options.length > 0) {
+    return options;
+  }
+
+  try {
+    await TicketOption.insertMany(
+      DEFAULT_OPTIONS[kind].map(option => ({ ...option, kind })),
+      { ordered: false }
+    );
+  } catch {
+    // Another request seeded them at the same time, the unique index keeps a single copy
+  }
+
+  return getTicketOptions(kind);
+}
+
+export default TicketOption;
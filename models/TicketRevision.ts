@@ -0,0 +1,55 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ITicketRevision extends Document {
+  _id: string;
+  ticketId: string;
+  revision: number; // 1 is the original text
+  title: string;
+  description: string;
+  editedBy: string; // user who replaced this revision
+  editedByName: string;
+  createdAt: Date;
+}
+
+const TicketRevisionSchema = new Schema<ITicketRevision>({
+  ticketId: {
+    type: String,
+    required: [true, 'Ticket ID is required'],
+    ref: 'Ticket'
+  },
+  revision: {
+    type: Number,
+    required: [true, 'Revision number is required'],
+    min: 1
+  },
+  title: {
+    type: String,
+    required: [true, 'Title is required'],
+    maxlength: [200, 'Title cannot exceed 200 characters']
+  },
+  description: {
+    type: String,
+    required: [true, 'Description is required'],
+    maxlength: [2000, 'Description cannot exceed 2000 characters']
+  },
+  editedBy: {
+    type: String,
+    required: [true, 'Editor is required'],
+    ref: 'User'
+  },
+  editedByName: {
+    type: String,
+    required: [true, 'Editor name is required'],
+    trim: true
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Index for efficient queries
+TicketRevisionSchema.index({ ticketId: 1, revision: -1 }, { unique: true });
+
+// Prevent re-compilation during development
+const TicketRevision = mongoose.models.TicketRevision || mongoose.model<ITicketRevision>('TicketRevision', TicketRevisionSchema);
+
+export default TicketRevision;
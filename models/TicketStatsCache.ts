@@ -0,0 +1,56 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Statistics of every ticket, seen by admins; users see statistics of their own tickets
+export const GLOBAL_STATS_SCOPE = 'global';
+
+export const userStatsScope = (userId: string) => `user:${userId}`;
+
+// Cached ticket statistics for one scope, see lib/ticketStats.ts
+export interface ITicketStatsCache extends Document {
+  scope: string;
+  // Bumped by every invalidation, so statistics computed before one are never stored after it
+  generation: number;
+  stats: Record<string, unknown> | null;
+  computedAt: Date | null;
+}
+
+const TicketStatsCacheSchema = new Schema<ITicketStatsCache>({
+  scope: {
+    type: String,
+    required: [true, 'Scope is required']
+  },
+  generation: {
+    type: Number,
+    default: 0
+  },
+  stats: {
+    type: Schema.Types.Mixed,
+    default: null
+  },
+  computedAt: {
+    type: Date,
+    default: null
+  }
+});
+
+// Index for efficient queries
+TicketStatsCacheSchema.index({ scope: 1 }, { unique: true });
+
+// Prevent re-compilation during development
+const TicketStatsCache = mongoose.models.TicketStatsCache || mongoose.model<ITicketStatsCache>('TicketStatsCache', TicketStatsCacheSchema);
+
+/**
+ * Drop the cached statistics a ticket change affects: those of the ticket's owner and the global ones,
+ * or every scope when the tickets changed aren't known. The cache only saves work, so failures are logged
+ * instead of failing the write that triggered them.
+ */
+export async function invalidateTicketStats(userId?: string): Promise<void> {
+  try {
+    const filter = userId ? { scope: { $in: [GLOBAL_STATS_SCOPE, userStatsScope(userId)] } } : {};
+    await TicketStatsCache.updateMany(filter, { $inc: { generation: 1 }, $set: { stats: null, computedAt: null } });
+  } catch (error) {
+    console.error('Error invalidating ticket statistics:', error);
+  }
+}
+
+export default TicketStatsCache;
@@ -6,6 +6,7 @@ export interface IUser extends Document {
   email: string;
   password: string;
   role: 'user' | 'admin';
+  defaultViewId?: string | null; // saved dashboard view applied when no filters are given
   createdAt: Date;
   updatedAt: Date;
 }
@@ -34,6 +35,11 @@ const UserSchema = new Schema<IUser>({
     type: String,
     enum: ['user', 'admin'],
     default: 'user'
+  },
+  defaultViewId: {
+    type: String,
+    ref: 'SavedView',
+    default: null
   }
 }, {
   timestamps: true
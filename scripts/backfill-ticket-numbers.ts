@@ -0,0 +1,70 @@
+import 'dotenv/config';
+import { config } from 'dotenv';
+config({ path: '.env.local' });
+import mongoose from 'mongoose';
+import Ticket from '../models/Ticket';
+import { getNextSequence } from '../models/Counter';
+import { TICKET_NUMBER_SEQUENCE, formatTicketNumber } from '../lib/ticketNumber';
+
+async function backfillDatabase(dbUri: string, dbName: string) {
+  console.log(`\n🔢 Numbering tickets in ${dbName} database...`);
+
+  try {
+    // Connect to database
+    await mongoose.connect(dbUri, {
+      bufferCommands: false,
+    });
+    console.log(`✅ Connected to ${dbName} database`);
+
+    // Oldest first, so numbers follow creation order
+    const tickets = await Ticket.find({ number: { $exists: false } })
+      .select('_id title')
+      .sort({ createdAt: 1 });
+
+    for (const ticket of tickets) {
+      const number = await getNextSequence(TICKET_NUMBER_SEQUENCE);
+      await Ticket.updateOne({ _id: ticket._id }, { $set: { number } });
+      console.log(`   ✓ ${formatTicketNumber(number)}: ${ticket.title}`);
+    }
+
+    console.log(`✅ Numbered ${tickets.length} tickets in ${dbName} database`);
+
+    // Disconnect
+    await mongoose.disconnect();
+
+  } catch (error) {
+    console.error(`❌ Error numbering tickets in ${dbName} database:`, error);
+    throw error;
+  }
+}
+
+async function main() {
+  console.log('🚀 Starting ticket number backfill...');
+
+  const primaryUri = process.env.PRIMARY_DB_URI;
+  const secondaryUri = process.env.SECONDARY_DB_URI;
+
+  if (!primaryUri || !secondaryUri) {
+    console.error('❌ Database URIs not found in environment variables');
+    console.log('Please ensure PRIMARY_DB_URI and SECONDARY_DB_URI are set in your .env.local file');
+    process.exit(1);
+  }
+
+  try {
+    await backfillDatabase(primaryUri, 'PRIMARY');
+    await backfillDatabase(secondaryUri, 'SECONDARY');
+
+    console.log('\n🎉 Ticket number backfill completed successfully!');
+
+  } catch (error) {
+    console.error('❌ Backfill failed:', error);
+    process.exit(1);
+  }
+}
+
+// Run the backfill script
+if (require.main === module) {
+  main();
+}
+
+export default main;
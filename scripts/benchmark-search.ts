@@ -0,0 +1,186 @@
+import 'dotenv/config';
+import { config } from 'dotenv';
+config({ path: '.env.local' });
+import mongoose from 'mongoose';
+import User from '../models/User';
+import Ticket from '../models/Ticket';
+import SearchIndex from '../models/SearchIndex';
+import { indexTicket, rankFuzzyMatches } from '../lib/searchIndex';
+import { MAX_TEXT_MATCHES } from '../lib/ticketSearch';
+
+// Usage: npm run benchmark:search -- [number of tickets to generate on top of the seeded ones, default 2000]
+const DEFAULT_GENERATED_TICKETS = 2000;
+
+// Generated tickets carry this tag, so they can be removed afterwards
+const BENCHMARK_TAG = 'search-benchmark';
+
+// Each search is timed this many times and the median is reported
+const RUNS = 5;
+
+const searches = [
+  { kind: 'exact', query: 'password' },
+  { kind: 'prefix', query: 'pass' },
+  { kind: 'typo', query: 'pasword' },
+  { kind: 'exact', query: 'integration' },
+  { kind: 'prefix', query: 'integ' },
+  { kind: 'typo', query: 'integraton' },
+  { kind: 'two words', query: 'server downtime' },
+  { kind: 'two words, typo', query: 'server downtme' },
+  { kind: 'short prefix', query: 'ex' }
+];
+
+const subjects = ['Password', 'Server', 'Integration', 'Invoice', 'Payment', 'Export', 'Backup', 'License', 'Permission', 'Dashboard'];
+const problems = ['reset fails', 'downtime', 'error', 'not loading', 'request', 'question', 'timeout', 'upgrade', 'configuration', 'sync issue'];
+const details = [
+  'The customer reports that the page keeps spinning after they submit the form.',
+  'Started after the latest deployment, affecting several users in the accounting team.',
+  'Exporting the monthly report returns an empty file.',
+  'Single sign-on redirects back to the login page without an error message.',
+  'Billing shows the previous plan even though the upgrade went through.',
+  'The third-party webhook stopped firing for new orders.',
+  'Restoring last week\'s backup finished, but attachments are missing.',
+  'Users without admin permissions can see the settings menu.'
+];
+
+const pick = <T>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+async function time<T>(run: () => Promise<T>): Promise<{ ms: number; result: T }> {
+  const start = performance.now();
+  const result = await run();
+  return { ms: performance.now() - start, result };
+}
+
+async function benchmark(dbUri: string, generated: number) {
+  try {
+    // Connect to database
+    await mongoose.connect(dbUri, {
+      bufferCommands: false,
+    });
+    console.log('✅ Connected to PRIMARY database');
+
+    const users = await User.find({ role: 'user' });
+    if (users.length === 0) {
+      console.error('❌ No users found. Run npm run seed first');
+      process.exit(1);
+    }
+
+    console.log(`🎫 Generating ${generated} tickets...`);
+    // Spread over every user, so a user's search competes with everyone else's tickets
+    await Ticket.insertMany(Array.from({ length: generated }, (_, i) => ({
+      title: `${pick(subjects)} ${pick(problems)}`,
+      description: `${pick(details)} ${pick(details)}`,
+      priority: 'medium',
+      category: 'general',
+      userId: users[i % users.length]._id.toString(),
+      tags: [BENCHMARK_TAG]
+    })));
+
+    const tickets = await Ticket.find().select('_id');
+    console.log(`🔎 Indexing ${tickets.length} tickets...`);
+    const indexing = await time(async () => {
+      for (const ticket of tickets) {
+        await indexTicket(ticket._id.toString());
+      }
+    });
+    console.log(`   ✓ ${(indexing.ms / tickets.length).toFixed(2)} ms per ticket`);
+
+    console.log(`⏱️  Timing ${searches.length} searches, ${RUNS} runs each...`);
+    const rows = [];
+
+    // What GET /api/tickets searches within for admins, and for a user
+    const adminQuery = { deletedAt: null };
+    const userQuery = { deletedAt: null, userId: users[0]._id.toString() };
+
+    for (const search of searches) {
+      const indexTimes: number[] = [];
+      const userIndexTimes: number[] = [];
+      const textTimes: number[] = [];
+      let indexMatches = 0;
+      let userIndexMatches = 0;
+      let textMatches = 0;
+
+      for (let run = 0; run < RUNS; run++) {
+        const fuzzy = await time(() => rankFuzzyMatches(search.query.split(' '), true, adminQuery));
+        indexTimes.push(fuzzy.ms);
+        indexMatches = fuzzy.result?.scores.size ?? 0;
+
+        const userFuzzy = await time(() => rankFuzzyMatches(search.query.split(' '), false, userQuery));
+        userIndexTimes.push(userFuzzy.ms);
+        userIndexMatches = userFuzzy.result?.scores.size ?? 0;
+
+        // The ticket half of the text index search in GET /api/tickets
+        const text = await time(() => Ticket.find(
+          { ...adminQuery, $text: { $search: search.query } },
+          { score: { $meta: 'textScore' } }
+        )
+          .sort({ score: { $meta: 'textScore' } })
+          .limit(MAX_TEXT_MATCHES)
+          .lean());
+        textTimes.push(text.ms);
+        textMatches = text.result.length;
+      }
+
+      rows.push({
+        search: search.query,
+        kind: search.kind,
+        'index ms': Number(median(indexTimes).toFixed(1)),
+        'index matches': indexMatches,
+        'user index ms': Number(median(userIndexTimes).toFixed(1)),
+        'user index matches': userIndexMatches,
+        'text ms': Number(median(textTimes).toFixed(1)),
+        'text matches': textMatches
+      });
+    }
+
+    console.table(rows);
+
+  } finally {
+    // Leave the seeded data as it was
+    const generatedTickets = await Ticket.find({ tags: BENCHMARK_TAG }).select('_id');
+    await SearchIndex.deleteMany({ ticketId: { $in: generatedTickets.map(ticket => ticket._id.toString()) } });
+    await Ticket.deleteMany({ tags: BENCHMARK_TAG });
+    console.log(`🧹 Removed ${generatedTickets.length} generated tickets`);
+
+    // Disconnect
+    await mongoose.disconnect();
+  }
+}
+
+async function main() {
+  console.log('🚀 Starting search benchmark...');
+
+  const primaryUri = process.env.PRIMARY_DB_URI;
+
+  if (!primaryUri) {
+    console.error('❌ Database URI not found in environment variables');
+    console.log('Please ensure PRIMARY_DB_URI is set in your .env.local file');
+    process.exit(1);
+  }
+
+  const generated = process.argv[2] ? parseInt(process.argv[2]) : DEFAULT_GENERATED_TICKETS;
+  if (isNaN(generated) || generated < 0) {
+    console.error('❌ The number of tickets to generate must be a positive number');
+    process.exit(1);
+  }
+
+  try {
+    await benchmark(primaryUri, generated);
+    console.log('\n🎉 Search benchmark completed successfully!');
+
+  } catch (error) {
+    console.error('❌ Benchmark failed:', error);
+    process.exit(1);
+  }
+}
+
+// Run the benchmark script
+if (require.main === module) {
+  main();
+}
+
+export default main;
@@ -5,6 +5,9 @@ import mongoose from 'mongoose';
 import User from '../models/User';
 import Ticket from '../models/Ticket';
 import AuditLog from '../models/AuditLog';
+import Counter from '../models/Counter';
+import SearchIndex from '../models/SearchIndex';
+import TicketStatsCache from '../models/TicketStatsCache';
 
 async function clearDatabase(dbUri: string, dbName: string) {
   console.log(`\n🧹 Clearing ${dbName} database...`);
@@ -29,6 +32,15 @@ async function clearDatabase(dbUri: string, dbName: string) {
     const deletedAuditLogs = await AuditLog.deleteMany({});
     console.log(`   ✓ Deleted ${deletedAuditLogs.deletedCount} audit logs`);
 
+    console.log('🗑️ Resetting ticket numbers...');
+    await Counter.deleteMany({});
+
+    console.log('🗑️ Deleting the search index...');
+    await SearchIndex.deleteMany({});
+
+    console.log('🗑️ Deleting cached ticket statistics...');
+    await TicketStatsCache.deleteMany({});
+
     console.log(`✅ Successfully cleared ${dbName} database!`);
 
     // Disconnect
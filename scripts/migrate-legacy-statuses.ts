@@ -0,0 +1,64 @@
+import 'dotenv/config';
+import { config } from 'dotenv';
+config({ path: '.env.local' });
+import mongoose from 'mongoose';
+import Ticket from '../models/Ticket';
+import { LEGACY_OPEN_STATUS } from '../lib/ticketStatus';
+
+async function migrateDatabase(dbUri: string, dbName: string) {
+  console.log(`\n🔁 Migrating legacy ticket statuses in ${dbName} database...`);
+
+  try {
+    // Connect to database
+    await mongoose.connect(dbUri, {
+      bufferCommands: false,
+    });
+    console.log(`✅ Connected to ${dbName} database`);
+
+    // Tickets created before the lifecycle was introduced are new ones that nobody has picked up yet
+    const result = await Ticket.updateMany(
+      { status: LEGACY_OPEN_STATUS },
+      { $set: { status: 'new' } }
+    );
+
+    console.log(`✅ Moved ${result.modifiedCount} tickets from ${LEGACY_OPEN_STATUS} to new in ${dbName} database`);
+
+    // Disconnect
+    await mongoose.disconnect();
+
+  } catch (error) {
+    console.error(`❌ Error migrating ticket statuses in ${dbName} database:`, error);
+    throw error;
+  }
+}
+
+async function main() {
+  console.log('🚀 Starting ticket status migration...');
+
+  const primaryUri = process.env.PRIMARY_DB_URI;
+  const secondaryUri = process.env.SECONDARY_DB_URI;
+
+  if (!primaryUri || !secondaryUri) {
+    console.error('❌ Database URIs not found in environment variables');
+    console.log('Please ensure PRIMARY_DB_URI and SECONDARY_DB_URI are set in your .env.local file');
+    process.exit(1);
+  }
+
+  try {
+    await migrateDatabase(primaryUri, 'PRIMARY');
+    await migrateDatabase(secondaryUri, 'SECONDARY');
+
+    console.log('\n🎉 Ticket status migration completed successfully!');
+
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    process.exit(1);
+  }
+}
+
+// Run the migration script
+if (require.main === module) {
+  main();
+}
+
+export default main;
@@ -0,0 +1,70 @@
+import 'dotenv/config';
+import { config } from 'dotenv';
+config({ path: '.env.local' });
+import mongoose from 'mongoose';
+import Ticket from '../models/Ticket';
+import SearchIndex from '../models/SearchIndex';
+import { indexTicket } from '../lib/searchIndex';
+
+async function rebuildDatabase(dbUri: string, dbName: string) {
+  console.log(`\n🔎 Rebuilding the search index of ${dbName} database...`);
+
+  try {
+    // Connect to database
+    await mongoose.connect(dbUri, {
+      bufferCommands: false,
+    });
+    console.log(`✅ Connected to ${dbName} database`);
+
+    // Entries of tickets that no longer exist are dropped along the way
+    await SearchIndex.deleteMany({});
+
+    const tickets = await Ticket.find().select('_id');
+    for (let i = 0; i < tickets.length; i++) {
+      await indexTicket(tickets[i]._id.toString());
+      if ((i + 1) % 500 === 0) {
+        console.log(`   ✓ Indexed ${i + 1} of ${tickets.length} tickets`);
+      }
+    }
+
+    console.log(`✅ Indexed ${tickets.length} tickets in ${dbName} database`);
+
+    // Disconnect
+    await mongoose.disconnect();
+
+  } catch (error) {
+    console.error(`❌ Error rebuilding the search index of ${dbName} database:`, error);
+    throw error;
+  }
+}
+
+async function main() {
+  console.log('🚀 Starting search index rebuild...');
+
+  const primaryUri = process.env.PRIMARY_DB_URI;
+  const secondaryUri = process.env.SECONDARY_DB_URI;
+
+  if (!primaryUri || !secondaryUri) {
+    console.error('❌ Database URIs not found in environment variables');
+    console.log('Please ensure PRIMARY_DB_URI and SECONDARY_DB_URI are set in your .env.local file');
+    process.exit(1);
+  }
+
+  try {
+    await rebuildDatabase(primaryUri, 'PRIMARY');
+    await rebuildDatabase(secondaryUri, 'SECONDARY');
+
+    console.log('\n🎉 Search index rebuild completed successfully!');
+
+  } catch (error) {
+    console.error('❌ Rebuild failed:', error);
+    process.exit(1);
+  }
+}
+
+// Run the rebuild script
+if (require.main === module) {
+  main();
+}
+
+export default main;
@@ -6,6 +6,11 @@ import bcrypt from 'bcrypt';
 import User from '../models/User';
 import Ticket from '../models/Ticket';
 import AuditLog from '../models/AuditLog';
+import Counter from '../models/Counter';
+import SearchIndex from '../models/SearchIndex';
+import TicketStatsCache from '../models/TicketStatsCache';
+import { DEFAULT_CATEGORIES, DEFAULT_PRIORITIES } from '../lib/ticketOptions';
+import { indexTicket } from '../lib/searchIndex';
 
 // Sample data
 const sampleUsers = [
@@ -63,7 +68,7 @@ const sampleTickets = [
   {
     title: 'Login Issues',
     description: 'I cannot log into my account. The password reset is not working.',
-    status: 'open' as const,
+    status: 'new' as const,
     priority: 'high' as const,
     category: 'technical' as const
   },
@@ -77,14 +82,14 @@ const sampleTickets = [
   {
     title: 'Feature Request: Dark Mode',
     description: 'It would be great to have a dark mode option for the application.',
-    status: 'open' as const,
+    status: 'in_progress' as const,
     priority: 'low' as const,
     category: 'feature_request' as const
   },
   {
     title: 'Bug Report: Dashboard Loading',
     description: 'The dashboard takes too long to load and sometimes shows a blank page.',
-    status: 'open' as const,
+    status: 'waiting_on_customer' as const,
     priority: 'medium' as const,
     category: 'bug_report' as const
   },
@@ -98,14 +103,14 @@ const sampleTickets = [
   {
     title: 'Email Notifications Not Working',
     description: 'I am not receiving email notifications for ticket updates.',
-    status: 'open' as const,
+    status: 'reopened' as const,
     priority: 'medium' as const,
     category: 'technical' as const
   },
   {
     title: 'Mobile App Crashes',
     description: 'The mobile app crashes when I try to upload files.',
-    status: 'open' as const,
+    status: 'new' as const,
     priority: 'high' as const,
     category: 'bug_report' as const
   },
@@ -119,7 +124,7 @@ const sampleTickets = [
   {
     title: 'API Documentation Request',
     description: 'Could you provide more detailed API documentation with examples?',
-    status: 'open' as const,
+    status: 'in_progress' as const,
     priority: 'medium' as const,
     category: 'feature_request' as const
   },
@@ -147,6 +152,9 @@ async function seedDatabase(dbUri: string, dbName: string) {
     await User.deleteMany({});
     await Ticket.deleteMany({});
     await AuditLog.deleteMany({});
+    await Counter.deleteMany({}); // Restart ticket numbers
+    await SearchIndex.deleteMany({});
+    await TicketStatsCache.deleteMany({});
 
     // Create users
     console.log('👥 Creating users...');
@@ -202,14 +210,15 @@ async function seedDatabase(dbUri: string, dbName: string) {
       'User Permission Issue'
     ];
 
-    const priorities = ['low', 'medium', 'high', 'urgent'];
-    const categories = ['technical', 'billing', 'general', 'feature_request', 'bug_report'];
+    const statuses = ['new', 'in_progress', 'waiting_on_customer', 'resolved', 'closed', 'reopened'];
+    const priorities = DEFAULT_PRIORITIES.map(option => option.value);
+    const categories = DEFAULT_CATEGORIES.map(option => option.value);
 
     for (let i = 0; i < 15; i++) {
       const regularUsers = createdUsers.filter(u => u.role === 'user');
       const randomUser = regularUsers[Math.floor(Math.random() * regularUsers.length)];
       const randomTitle = additionalTicketTitles[i];
-      const randomStatus = Math.random() > 0.6 ? 'open' : 'closed';
+      const randomStatus = statuses[Math.floor(Math.random() * statuses.length)];
       const randomPriority = priorities[Math.floor(Math.random() * priorities.length)];
       const randomCategory = categories[Math.floor(Math.random() * categories.length)];
 
@@ -227,6 +236,12 @@ async function seedDatabase(dbUri: string, dbName: string) {
       console.log(`   ✓ Created additional ticket: ${randomTitle} (${randomStatus}, ${randomPriority}, ${randomCategory})`);
     }
 
+    // Make the tickets findable by fuzzy search
+    console.log('🔎 Building search index...');
+    for (const ticket of createdTickets) {
+      await indexTicket(ticket._id.toString());
+    }
+
     // Create audit logs
     console.log('📋 Creating audit logs...');
     const auditActions = ['login', 'create_ticket', 'update_ticket', 'delete_ticket', 'view_tickets'];